@@ -0,0 +1,426 @@
+import fs from 'fs';
+import { isBanned, getBanReason, BanSignals } from './ban-detector.js';
+import { logWarn, RequestLog } from './logger.js';
+
+export type GroupDimension = 'session' | 'pattern' | 'stealth' | 'headless' | 'ipType' | 'experiment' | 'run' | 'cookies';
+
+export const GROUP_DIMENSIONS: GroupDimension[] = ['session', 'pattern', 'stealth', 'headless', 'ipType', 'experiment', 'run', 'cookies'];
+
+export const DEFAULT_GROUP_BY: GroupDimension[] = ['pattern', 'stealth', 'headless', 'ipType'];
+
+// Phase 1 intervals from BAN_TEST_PLAN; each request falls into the largest bucket <= its interval
+export const INTERVAL_BUCKETS_MS = [3000, 5000, 10000, 15000, 30000, 60000];
+
+// Cookie age buckets for Phase 6 (Cookie): each request falls into the first bucket above its age
+const COOKIE_AGE_BUCKETS = [
+  { label: '<1h', maxMinutes: 60 },
+  { label: '<1d', maxMinutes: 24 * 60 },
+  { label: '<7d', maxMinutes: 7 * 24 * 60 },
+];
+
+// no-session: a fresh context per run; none: a persisted session without cookies yet
+function cookieAgeBucket(log: RequestLog): string {
+  const age = log.session.cookieAgeMinutes;
+  if (age === undefined) return 'no-session';
+  if (age === null) return 'none';
+  return COOKIE_AGE_BUCKETS.find((bucket) => age < bucket.maxMinutes)?.label ?? '7d+';
+}
+
+// 推奨値 = 実測限界値 × 2〜3
+const RECOMMENDED_MULTIPLIER = { min: 2, max: 3 };
+
+// 運用レベル: interval multiplier and share of the measured hourly limit
+const OPERATION_LEVELS = [
+  { name: '通常運用', intervalMultiplier: 3, hourlyShare: 0.3, pattern: 'B' },
+  { name: '安全運用', intervalMultiplier: 5, hourlyShare: 0.2, pattern: 'C' },
+  { name: '最安全運用', intervalMultiplier: 10, hourlyShare: 0.1, pattern: 'C + IPローテ' },
+];
+
+export interface LatencyStats {
+  min: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+export interface IntervalBucket {
+  label: string;
+  minIntervalMs: number;
+  maxIntervalMs: number | null;
+  requests: number;
+  bans: number;
+  banRate: number;
+}
+
+export interface OperationLevel {
+  name: string;
+  intervalMs: number;
+  maxRequestsPerHour: number;
+  pattern: string;
+}
+
+export interface Recommendation {
+  observedLimitMs: number | null;
+  // true when no ban was observed, so the real limit may be lower than measured
+  limitIsUpperBound: boolean;
+  recommendedIntervalMs: { min: number; max: number } | null;
+  operationLevels: OperationLevel[];
+}
+
+export interface GroupReport {
+  key: Record<GroupDimension, string | undefined>;
+  label: string;
+  sessions: number;
+  requests: number;
+  bans: number;
+  banRate: number;
+  // Position of the first ban within its own session (requestCountInSession), not within the group
+  firstBanRequestIndex: number | null;
+  banReasons: Record<string, number>;
+  latency: LatencyStats | null;
+  intervalCurve: IntervalBucket[];
+  recommendation: Recommendation;
+}
+
+export interface AnalysisReport {
+  generatedAt: string;
+  sources: string[];
+  groupBy: GroupDimension[];
+  totalRequests: number;
+  totalBans: number;
+  groups: GroupReport[];
+}
+
+export interface AnalyzeOptions {
+  groupBy?: GroupDimension[];
+  sources?: string[];
+}
+
+// requests.jsonl also receives every other info-level log line, so only
+// entries written by logRequest are kept
+function isRequestLog(value: unknown): value is RequestLog {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.requestId === 'string' &&
+    typeof entry.config === 'object' &&
+    typeof entry.request === 'object' &&
+    typeof entry.response === 'object' &&
+    typeof entry.banSignals === 'object' &&
+    typeof entry.session === 'object'
+  );
+}
+
+export function parseRequestLogs(content: string, source: string = 'input'): RequestLog[] {
+  const logs: RequestLog[] = [];
+  const lines = content.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    try {
+      const entry = JSON.parse(line);
+      if (isRequestLog(entry)) {
+        logs.push(entry);
+      }
+    } catch {
+      logWarn('Skipping malformed log line', { source, line: i + 1 });
+    }
+  }
+
+  return logs;
+}
+
+export function loadRequestLogs(files: string[]): RequestLog[] {
+  return files.flatMap((file) => parseRequestLogs(fs.readFileSync(file, 'utf-8'), file));
+}
+
+export function parseGroupBy(value: string): GroupDimension[] {
+  const dimensions = value.split(',').map((part) => part.trim()).filter(Boolean);
+  for (const dimension of dimensions) {
+    if (!(GROUP_DIMENSIONS as string[]).includes(dimension)) {
+      throw new Error(`Unknown group dimension "${dimension}" (expected one of ${GROUP_DIMENSIONS.join(', ')})`);
+    }
+  }
+  return dimensions as GroupDimension[];
+}
+
+function toBanSignals(log: RequestLog): BanSignals {
+  return {
+    ...log.banSignals,
+    responseTimeMs: log.response.loadTimeMs,
+    blockedUrl: null,
+  };
+}
+
+export function isLoggedBan(log: RequestLog): boolean {
+  return isBanned(toBanSignals(log));
+}
+
+function dimensionValue(log: RequestLog, dimension: GroupDimension): string {
+  switch (dimension) {
+    case 'session':
+      return log.session.sessionId;
+    case 'pattern':
+      return log.config.humanBehaviorPattern;
+    case 'stealth':
+      return String(log.config.stealthEnabled);
+    case 'headless':
+      return String(log.config.headless);
+    case 'ipType':
+      return log.config.ipType;
+    case 'experiment':
+      return log.experiment?.experimentId ?? 'none';
+    case 'run':
+      return log.experiment?.runId ?? 'none';
+    case 'cookies':
+      return cookieAgeBucket(log);
+  }
+}
+
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  // Nearest-rank method
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+function latencyStats(logs: RequestLog[]): LatencyStats | null {
+  const values = logs.map((log) => log.response.loadTimeMs).sort((a, b) => a - b);
+  if (values.length === 0) return null;
+  return {
+    min: values[0],
+    p50: percentile(values, 50),
+    p90: percentile(values, 90),
+    p95: percentile(values, 95),
+    p99: percentile(values, 99),
+    max: values[values.length - 1],
+  };
+}
+
+function bucketLabel(min: number, max: number | null): string {
+  if (min === 0) return `<${max! / 1000}s`;
+  if (max === null) return `>=${min / 1000}s`;
+  return `${min / 1000}-${max / 1000}s`;
+}
+
+export function buildIntervalCurve(logs: RequestLog[]): IntervalBucket[] {
+  const bounds = [0, ...INTERVAL_BUCKETS_MS];
+  const buckets: IntervalBucket[] = bounds.map((min, i) => {
+    const max = i + 1 < bounds.length ? bounds[i + 1] : null;
+    return { label: bucketLabel(min, max), minIntervalMs: min, maxIntervalMs: max, requests: 0, bans: 0, banRate: 0 };
+  });
+
+  for (const log of logs) {
+    const interval = log.request.intervalSinceLastMs;
+    if (interval === undefined || interval === null) continue;
+
+    const bucket = buckets.find((b) => interval >= b.minIntervalMs && (b.maxIntervalMs === null || interval < b.maxIntervalMs));
+    if (!bucket) continue;
+
+    bucket.requests++;
+    if (isLoggedBan(log)) bucket.bans++;
+  }
+
+  for (const bucket of buckets) {
+    bucket.banRate = bucket.requests > 0 ? bucket.bans / bucket.requests : 0;
+  }
+
+  return buckets.filter((bucket) => bucket.requests > 0);
+}
+
+// 実測限界値 is the tightest interval bucket that stayed ban-free above every bucket that saw a ban
+export function deriveRecommendation(curve: IntervalBucket[]): Recommendation {
+  const empty: Recommendation = {
+    observedLimitMs: null,
+    limitIsUpperBound: false,
+    recommendedIntervalMs: null,
+    operationLevels: [],
+  };
+  if (curve.length === 0) return empty;
+
+  const lastBanned = curve.reduce((index, bucket, i) => (bucket.bans > 0 ? i : index), -1);
+  const safe = curve.slice(lastBanned + 1).find((bucket) => bucket.bans === 0);
+  if (!safe) return empty;
+
+  // A bucket starting at 0 has no meaningful lower bound; use its upper edge
+  const observedLimitMs = safe.minIntervalMs > 0 ? safe.minIntervalMs : safe.maxIntervalMs!;
+  const measuredHourlyLimit = Math.floor(3600000 / observedLimitMs);
+
+  return {
+    observedLimitMs,
+    limitIsUpperBound: lastBanned === -1,
+    recommendedIntervalMs: {
+      min: observedLimitMs * RECOMMENDED_MULTIPLIER.min,
+      max: observedLimitMs * RECOMMENDED_MULTIPLIER.max,
+    },
+    operationLevels: OPERATION_LEVELS.map((level) => ({
+      name: level.name,
+      intervalMs: observedLimitMs * level.intervalMultiplier,
+      maxRequestsPerHour: Math.floor(measuredHourlyLimit * level.hourlyShare),
+      pattern: level.pattern,
+    })),
+  };
+}
+
+function analyzeGroup(key: GroupReport['key'], label: string, logs: RequestLog[]): GroupReport {
+  const sorted = [...logs].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const banReasons: Record<string, number> = {};
+  let bans = 0;
+  let firstBanRequestIndex: number | null = null;
+
+  for (const log of sorted) {
+    const signals = toBanSignals(log);
+    if (!isBanned(signals)) continue;
+
+    bans++;
+    firstBanRequestIndex ??= log.session.requestCountInSession;
+    // Block URLs are not logged, so redirects are reported without a target
+    const reason = signals.unexpectedRedirect && !signals.captchaDetected && signals.httpError === null && !signals.jsChallenge
+      ? 'Redirect'
+      : getBanReason(signals)!;
+    banReasons[reason] = (banReasons[reason] ?? 0) + 1;
+  }
+
+  const intervalCurve = buildIntervalCurve(sorted);
+
+  return {
+    key,
+    label,
+    sessions: new Set(sorted.map((log) => log.session.sessionId)).size,
+    requests: sorted.length,
+    bans,
+    banRate: sorted.length > 0 ? bans / sorted.length : 0,
+    firstBanRequestIndex,
+    banReasons,
+    latency: latencyStats(sorted),
+    intervalCurve,
+    recommendation: deriveRecommendation(intervalCurve),
+  };
+}
+
+export function analyzeRequestLogs(logs: RequestLog[], options: AnalyzeOptions = {}): AnalysisReport {
+  const groupBy = options.groupBy ?? DEFAULT_GROUP_BY;
+  const groups = new Map<string, { key: GroupReport['key']; logs: RequestLog[] }>();
+
+  for (const log of logs) {
+    const key = {} as GroupReport['key'];
+    for (const dimension of groupBy) {
+      key[dimension] = dimensionValue(log, dimension);
+    }
+    const label = groupBy.map((dimension) => `${dimension}=${key[dimension]}`).join(' ') || 'all';
+
+    const group = groups.get(label);
+    if (group) {
+      group.logs.push(log);
+    } else {
+      groups.set(label, { key, logs: [log] });
+    }
+  }
+
+  const reports = [...groups.entries()]
+    .map(([label, group]) => analyzeGroup(group.key, label, group.logs))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    sources: options.sources ?? [],
+    groupBy,
+    totalRequests: logs.length,
+    totalBans: reports.reduce((sum, group) => sum + group.bans, 0),
+    groups: reports,
+  };
+}
+
+function formatPercent(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+function formatMs(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(ms % 1000 === 0 ? 0 : 1)}s` : `${ms}ms`;
+}
+
+export function renderMarkdownReport(report: AnalysisReport): string {
+  const lines: string[] = [];
+
+  lines.push('# BAN Test Run Report');
+  lines.push('');
+  lines.push(`- Generated: ${report.generatedAt}`);
+  if (report.sources.length > 0) {
+    lines.push(`- Sources: ${report.sources.map((source) => `\`${source}\``).join(', ')}`);
+  }
+  lines.push(`- Grouped by: ${report.groupBy.join(', ') || '(none)'}`);
+  lines.push(`- Requests: ${report.totalRequests}, bans: ${report.totalBans}`);
+  lines.push('');
+
+  lines.push('## Summary');
+  lines.push('');
+  lines.push('| Group | Sessions | Requests | Bans | Ban rate | First ban at | p50 | p95 | 実測限界値 | 推奨値 |');
+  lines.push('|-------|----------|----------|------|----------|--------------|-----|-----|-----------|--------|');
+  for (const group of report.groups) {
+    const rec = group.recommendation;
+    lines.push(
+      `| ${group.label} | ${group.sessions} | ${group.requests} | ${group.bans} | ${formatPercent(group.banRate)} | ` +
+        `${group.firstBanRequestIndex ?? '-'} | ${group.latency ? formatMs(group.latency.p50) : '-'} | ` +
+        `${group.latency ? formatMs(group.latency.p95) : '-'} | ` +
+        `${rec.observedLimitMs !== null ? `${rec.limitIsUpperBound ? '<=' : ''}${formatMs(rec.observedLimitMs)}` : '-'} | ` +
+        `${rec.recommendedIntervalMs ? `${formatMs(rec.recommendedIntervalMs.min)}〜${formatMs(rec.recommendedIntervalMs.max)}` : '-'} |`
+    );
+  }
+
+  for (const group of report.groups) {
+    lines.push('');
+    lines.push(`## ${group.label}`);
+    lines.push('');
+
+    if (group.latency) {
+      const l = group.latency;
+      lines.push(
+        `Latency: min ${formatMs(l.min)}, p50 ${formatMs(l.p50)}, p90 ${formatMs(l.p90)}, ` +
+          `p95 ${formatMs(l.p95)}, p99 ${formatMs(l.p99)}, max ${formatMs(l.max)}`
+      );
+      lines.push('');
+    }
+
+    const reasons = Object.entries(group.banReasons);
+    if (reasons.length > 0) {
+      lines.push(`Ban reasons: ${reasons.map(([reason, count]) => `${reason} × ${count}`).join(', ')}`);
+      lines.push('');
+    }
+
+    if (group.intervalCurve.length > 0) {
+      lines.push('| Interval | Requests | Bans | Ban rate |');
+      lines.push('|----------|----------|------|----------|');
+      for (const bucket of group.intervalCurve) {
+        lines.push(`| ${bucket.label} | ${bucket.requests} | ${bucket.bans} | ${formatPercent(bucket.banRate)} |`);
+      }
+      lines.push('');
+    }
+
+    const rec = group.recommendation;
+    if (rec.observedLimitMs === null) {
+      lines.push('安全マージン: every measured interval saw a ban; no safe interval could be derived.');
+      continue;
+    }
+
+    if (rec.limitIsUpperBound) {
+      lines.push(`No ban observed; the real limit may be below ${formatMs(rec.observedLimitMs)}.`);
+      lines.push('');
+    }
+    lines.push('| レベル | 間隔 | 1時間上限 | 人間模倣 |');
+    lines.push('|--------|------|----------|---------|');
+    for (const level of rec.operationLevels) {
+      lines.push(`| ${level.name} | ${formatMs(level.intervalMs)} | ${level.maxRequestsPerHour} | パターン${level.pattern} |`);
+    }
+  }
+
+  lines.push('');
+  return lines.join('\n');
+}
+
+export function renderJsonReport(report: AnalysisReport): string {
+  return JSON.stringify(report, null, 2) + '\n';
+}
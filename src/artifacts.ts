@@ -0,0 +1,132 @@
+import fs from 'fs';
+import path from 'path';
+import type { ConsoleMessage, Page } from 'playwright';
+import type { ArtifactsConfig } from './config.js';
+import { logInfo, logWarn } from './logger.js';
+
+// Messages kept per navigation; a page logging in a loop should not fill memory
+const CONSOLE_LIMIT = 200;
+
+export interface ConsoleEntry {
+  // Console message type (log, warning, error, ...) or 'pageerror' for uncaught exceptions
+  type: string;
+  text: string;
+  location?: string;
+  timestamp: string;
+}
+
+// Evidence saved for one request, linked from its RequestLog entry
+export interface RequestArtifacts {
+  // Relative to the log directory, e.g. "artifacts/req-xxx"
+  dir: string;
+  files: string[];
+  // Why it was captured: the ban reason, the extraction failure or "debug"
+  reason: string;
+}
+
+// Console output of the page since the last reset(). Listeners are removed by stop()
+export class ConsoleRecorder {
+  private entries: ConsoleEntry[] = [];
+  private dropped = 0;
+
+  private readonly onConsole = (message: ConsoleMessage): void => {
+    const { url, lineNumber } = message.location();
+    this.push({ type: message.type(), text: message.text(), ...(url ? { location: `${url}:${lineNumber}` } : {}) });
+  };
+
+  private readonly onPageError = (error: Error): void => {
+    this.push({ type: 'pageerror', text: error.stack ?? error.message });
+  };
+
+  constructor(private page: Page) {
+    page.on('console', this.onConsole);
+    page.on('pageerror', this.onPageError);
+  }
+
+  private push(entry: Omit<ConsoleEntry, 'timestamp'>): void {
+    if (this.entries.length >= CONSOLE_LIMIT) {
+      this.dropped++;
+      return;
+    }
+    this.entries.push({ ...entry, timestamp: new Date().toISOString() });
+  }
+
+  reset(): void {
+    this.entries = [];
+    this.dropped = 0;
+  }
+
+  list(): ConsoleEntry[] {
+    return this.dropped > 0
+      ? [...this.entries, { type: 'info', text: `${this.dropped} more messages dropped`, timestamp: new Date().toISOString() }]
+      : [...this.entries];
+  }
+
+  stop(): void {
+    this.page.off('console', this.onConsole);
+    this.page.off('pageerror', this.onPageError);
+  }
+}
+
+// Whether a navigation with this outcome gets artifacts. "always", like debug logging,
+// keeps them for every request; "off" wins over both
+export function shouldCapture(config: ArtifactsConfig, failed: boolean, debug: boolean = false): boolean {
+  return config.capture !== 'off' && (failed || debug || config.capture === 'always');
+}
+
+// Writes screenshot.png, page.html and console.json into <outputDir>/artifacts/<requestId>.
+// Each file is best effort: a crashed page still yields whatever could be read
+export async function captureArtifacts(
+  page: Page,
+  outputDir: string,
+  requestId: string,
+  reason: string,
+  consoleEntries: ConsoleEntry[]
+): Promise<RequestArtifacts> {
+  const dir = path.join('artifacts', requestId);
+  const absoluteDir = path.join(outputDir, dir);
+  fs.mkdirSync(absoluteDir, { recursive: true });
+  const files: string[] = [];
+
+  const attempt = async (file: string, write: (filePath: string) => Promise<unknown>): Promise<void> => {
+    try {
+      await write(path.join(absoluteDir, file));
+      files.push(file);
+    } catch (error) {
+      logWarn('Could not save artifact', { requestId, file, error: (error as Error).message });
+    }
+  };
+
+  await attempt('screenshot.png', (filePath) => page.screenshot({ path: filePath, fullPage: true }));
+  await attempt('page.html', async (filePath) => fs.writeFileSync(filePath, await page.content()));
+  await attempt('console.json', async (filePath) => fs.writeFileSync(filePath, JSON.stringify(consoleEntries, null, 2)));
+
+  logInfo('Artifacts saved', { requestId, reason, dir: absoluteDir, files });
+  return { dir, files, reason };
+}
+
+// Deletes request directories under <outputDir>/artifacts older than retentionDays, then the
+// oldest beyond maxEntries. Returns how many were removed
+export function pruneArtifacts(outputDir: string, config: ArtifactsConfig, now: number = Date.now()): number {
+  const root = path.join(outputDir, 'artifacts');
+  if (!fs.existsSync(root)) return 0;
+
+  const entries = fs
+    .readdirSync(root, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => ({ dir: path.join(root, entry.name), modifiedMs: fs.statSync(path.join(root, entry.name)).mtimeMs }))
+    .sort((a, b) => b.modifiedMs - a.modifiedMs);
+
+  const maxAgeMs = config.retentionDays * 24 * 60 * 60 * 1000;
+  const expired = entries.filter(
+    (entry, index) =>
+      (config.retentionDays > 0 && now - entry.modifiedMs > maxAgeMs) || (config.maxEntries > 0 && index >= config.maxEntries)
+  );
+  for (const entry of expired) {
+    fs.rmSync(entry.dir, { recursive: true, force: true });
+  }
+  if (expired.length > 0) {
+    logInfo('Old artifacts removed', { removed: expired.length, kept: entries.length - expired.length });
+  }
+  return expired.length;
+}
@@ -1,5 +1,15 @@
 import type { Page, Response } from 'playwright';
 import { logWarn, logDebug } from './logger.js';
+import {
+  banRuleRegistry,
+  evaluateBanRules,
+  BanRule,
+  ObservedResponse,
+  TriggeredRule,
+  BLOCK_STATUSES,
+} from './ban-rules.js';
+import type { Degradation } from './degradation.js';
+import { isMainDocument } from './network-recorder.js';
 
 export interface BanSignals {
   captchaDetected: boolean;
@@ -9,37 +19,46 @@ export interface BanSignals {
   jsChallenge: boolean;
   responseTimeMs: number;
   blockedUrl: string | null;
+  // Every rule that fired, warn and info included. The flags above mirror the built-in rules
+  // that fired as block, so a built-in id downgraded to warn does not count as a ban
+  rules?: TriggeredRule[];
+  // Softer signals than a ban: slow responses, partial, duplicate or stale content
+  degradation?: Degradation;
 }
 
-const CAPTCHA_SELECTORS = [
-  'iframe[src*="recaptcha"]',
-  'iframe[src*="captcha"]',
-  'iframe[src*="hcaptcha"]',
-  '#captcha',
-  '.g-recaptcha',
-  '.h-captcha',
-  '[data-sitekey]',
-];
-
-const JS_CHALLENGE_INDICATORS = [
-  'Checking your browser',
-  'Please wait',
-  'Just a moment',
-  'Verify you are human',
-  'DDoS protection by',
-];
+export interface BanDetectionOptions {
+  // Defaults to the registered rules
+  rules?: BanRule[];
+  // Error responses of the navigation, for status rules
+  responses?: ObservedResponse[];
+}
 
-const BLOCK_PAGE_PATTERNS = [
-  '/error',
-  '/block',
-  '/access-denied',
-  '/forbidden',
-];
+// How the built-in rules map onto the BanSignals flags analyzers and logs read
+const BUILT_IN_FLAGS: Record<string, (signals: BanSignals, evidence: string) => void> = {
+  captcha: (signals) => {
+    signals.captchaDetected = true;
+  },
+  'http-status': (signals, evidence) => {
+    signals.httpError = parseInt(evidence, 10);
+  },
+  'js-challenge': (signals) => {
+    signals.jsChallenge = true;
+  },
+  'block-redirect': (signals, evidence) => {
+    signals.unexpectedRedirect = true;
+    signals.blockedUrl = evidence;
+  },
+  'domain-mismatch': (signals, evidence) => {
+    signals.unexpectedRedirect = true;
+    signals.blockedUrl = evidence;
+  },
+};
 
 export async function detectBanSignals(
   page: Page,
   startTime: number,
-  expectedUrl: string
+  expectedUrl: string,
+  options: BanDetectionOptions = {}
 ): Promise<BanSignals> {
   const signals: BanSignals = {
     captchaDetected: false,
@@ -51,62 +70,59 @@ export async function detectBanSignals(
     blockedUrl: null,
   };
 
-  // Check for CAPTCHA
-  for (const selector of CAPTCHA_SELECTORS) {
-    const element = await page.$(selector);
-    if (element) {
-      signals.captchaDetected = true;
-      logWarn('CAPTCHA detected', { selector });
-      break;
-    }
-  }
-
-  // Check for JavaScript challenge
-  const pageContent = await page.content();
-  for (const indicator of JS_CHALLENGE_INDICATORS) {
-    if (pageContent.includes(indicator)) {
-      signals.jsChallenge = true;
-      logWarn('JS challenge detected', { indicator });
-      break;
-    }
-  }
-
-  // Check for unexpected redirect to block page
-  const currentUrl = page.url();
-  for (const pattern of BLOCK_PAGE_PATTERNS) {
-    if (currentUrl.includes(pattern)) {
-      signals.unexpectedRedirect = true;
-      signals.blockedUrl = currentUrl;
-      logWarn('Redirected to block page', { currentUrl, expectedUrl });
-      break;
-    }
-  }
-
-  // Check if we're on a completely different domain (suspicious redirect)
-  const expectedDomain = new URL(expectedUrl).hostname;
-  const currentDomain = new URL(currentUrl).hostname;
-  if (expectedDomain !== currentDomain && !currentDomain.includes(expectedDomain)) {
-    signals.unexpectedRedirect = true;
-    signals.blockedUrl = currentUrl;
-    logWarn('Domain mismatch', { expected: expectedDomain, current: currentDomain });
+  signals.rules = await evaluateBanRules(options.rules ?? banRuleRegistry.list(), {
+    page,
+    expectedUrl,
+    currentUrl: page.url(),
+    content: await page.content(),
+    responses: options.responses ?? [],
+  });
+  for (const rule of blockingRules(signals)) {
+    BUILT_IN_FLAGS[rule.id]?.(signals, rule.evidence);
   }
 
   return signals;
 }
 
-export function setupResponseMonitor(page: Page): { getHttpError: () => number | null } {
+// Lightweight monitor for callers that only need statuses; navigations use NetworkRecorder.
+// getHttpError keeps the built-in block statuses of the page itself, so a third-party 403 does not
+// count; rules see every error response via getResponses. stop() removes the listener
+export function setupResponseMonitor(page: Page): {
+  getHttpError: () => number | null;
+  getRetryAfter: () => string | null;
+  getResponses: () => ObservedResponse[];
+  stop: () => void;
+} {
   let lastHttpError: number | null = null;
+  let retryAfter: string | null = null;
+  const responses: ObservedResponse[] = [];
 
-  page.on('response', (response: Response) => {
+  const onResponse = (response: Response) => {
     const status = response.status();
-    if ([403, 429, 503, 520, 521, 522, 523, 524].includes(status)) {
+    const mainDocument = isMainDocument(page, response.request());
+    if (status >= 400) {
+      responses.push({ status, url: response.url(), mainDocument });
+    }
+    if (mainDocument && BLOCK_STATUSES.includes(status)) {
       lastHttpError = status;
       logWarn('HTTP error detected', { status, url: response.url() });
     }
-  });
+
+    const header = response.headers()['retry-after'];
+    if (header) {
+      retryAfter = header;
+      logWarn('Retry-After received', { retryAfter: header, status, url: response.url() });
+    }
+  };
+  page.on('response', onResponse);
 
   return {
     getHttpError: () => lastHttpError,
+    getRetryAfter: () => retryAfter,
+    getResponses: () => [...responses],
+    stop: () => {
+      page.off('response', onResponse);
+    },
   };
 }
 
@@ -127,19 +143,25 @@ export async function checkContentPresence(
   return false;
 }
 
+function blockingRules(signals: BanSignals): TriggeredRule[] {
+  return (signals.rules ?? []).filter((rule) => rule.severity === 'block');
+}
+
 export function isBanned(signals: BanSignals): boolean {
   return (
     signals.captchaDetected ||
     signals.httpError !== null ||
     signals.unexpectedRedirect ||
-    signals.jsChallenge
+    signals.jsChallenge ||
+    blockingRules(signals).length > 0
   );
 }
 
+// Built-in signals keep their priority; other blocking rules follow in evaluation order
 export function getBanReason(signals: BanSignals): string | null {
   if (signals.captchaDetected) return 'CAPTCHA';
   if (signals.httpError !== null) return `HTTP ${signals.httpError}`;
   if (signals.jsChallenge) return 'JS Challenge';
   if (signals.unexpectedRedirect) return `Redirect to ${signals.blockedUrl}`;
-  return null;
+  return blockingRules(signals)[0]?.reason ?? null;
 }
@@ -0,0 +1,218 @@
+import type { Page } from 'playwright';
+import type { BanRuleDefinition, BanRulesConfig, BanSeverity } from './config.js';
+import { logWarn, logInfo } from './logger.js';
+
+// Error responses (status >= 400) seen while the page loaded, the document and its subresources
+export interface ObservedResponse {
+  status: number;
+  url: string;
+  // The top-level document; a blocked tracker or image does not mean the page was blocked
+  mainDocument: boolean;
+}
+
+export interface BanRuleContext {
+  page: Page;
+  expectedUrl: string;
+  currentUrl: string;
+  // Page HTML, read once for every rule
+  content: string;
+  responses: ObservedResponse[];
+}
+
+export interface BanRuleMatch {
+  // What matched: the selector, text, final URL or status
+  value: string;
+}
+
+// A detector plugin. Rules are evaluated in registration order and each reports at most one match
+export interface BanRule {
+  id: string;
+  severity: BanSeverity;
+  // "{value}" is replaced with the match
+  reason: string;
+  detect(context: BanRuleContext): Promise<BanRuleMatch | null> | BanRuleMatch | null;
+}
+
+export interface TriggeredRule {
+  id: string;
+  severity: BanSeverity;
+  reason: string;
+  evidence: string;
+}
+
+export const CAPTCHA_SELECTORS = [
+  'iframe[src*="recaptcha"]',
+  'iframe[src*="captcha"]',
+  'iframe[src*="hcaptcha"]',
+  '#captcha',
+  '.g-recaptcha',
+  '.h-captcha',
+  '[data-sitekey]',
+];
+
+export const JS_CHALLENGE_INDICATORS = [
+  'Checking your browser',
+  'Please wait',
+  'Just a moment',
+  'Verify you are human',
+  'DDoS protection by',
+];
+
+export const BLOCK_PAGE_PATTERNS = [
+  '/error',
+  '/block',
+  '/access-denied',
+  '/forbidden',
+];
+
+// Statuses that mean the site refused us, as opposed to a missing page (404) or a server fault (500)
+export const BLOCK_STATUSES = [403, 429, 503, 520, 521, 522, 523, 524];
+
+// Built-in detectors, in the priority order getBanReason reports them
+export const BUILT_IN_BAN_RULE_DEFINITIONS: BanRuleDefinition[] = [
+  { id: 'captcha', severity: 'block', type: 'selector', patterns: CAPTCHA_SELECTORS, reason: 'CAPTCHA' },
+  { id: 'http-status', severity: 'block', type: 'status', patterns: BLOCK_STATUSES, reason: 'HTTP {value}' },
+  { id: 'js-challenge', severity: 'block', type: 'text', patterns: JS_CHALLENGE_INDICATORS, reason: 'JS Challenge' },
+  { id: 'block-redirect', severity: 'block', type: 'url', patterns: BLOCK_PAGE_PATTERNS, reason: 'Redirect to {value}' },
+];
+
+// Compiles a declarative rule from config into a detector
+export function defineBanRule(definition: BanRuleDefinition): BanRule {
+  const patterns = definition.patterns.map(String);
+  const base = { id: definition.id, severity: definition.severity, reason: definition.reason ?? definition.id };
+
+  switch (definition.type) {
+    case 'selector':
+      return {
+        ...base,
+        async detect({ page }) {
+          for (const selector of patterns) {
+            if (await page.$(selector)) return { value: selector };
+          }
+          return null;
+        },
+      };
+    case 'missingSelector':
+      return {
+        ...base,
+        async detect({ page }) {
+          for (const selector of patterns) {
+            if (await page.$(selector)) return null;
+          }
+          return { value: patterns.join(', ') };
+        },
+      };
+    case 'text':
+      return {
+        ...base,
+        detect: ({ content }) => {
+          const text = patterns.find((pattern) => content.includes(pattern));
+          return text !== undefined ? { value: text } : null;
+        },
+      };
+    case 'url':
+      return {
+        ...base,
+        detect: ({ currentUrl }) => (patterns.some((pattern) => currentUrl.includes(pattern)) ? { value: currentUrl } : null),
+      };
+    case 'status':
+      return {
+        ...base,
+        // The most recent matching response, e.g. the 503 after an earlier 429
+        detect: ({ responses }) => {
+          const response = responses
+            .filter((observed) => (observed.mainDocument || definition.scope === 'any') && patterns.includes(String(observed.status)))
+            .pop();
+          return response ? { value: String(response.status) } : null;
+        },
+      };
+  }
+}
+
+// Landing on another site (a challenge provider, a login wall) is a redirect too
+const domainMismatchRule: BanRule = {
+  id: 'domain-mismatch',
+  severity: 'block',
+  reason: 'Redirect to {value}',
+  detect: ({ expectedUrl, currentUrl }) => {
+    const expectedDomain = new URL(expectedUrl).hostname;
+    const currentDomain = new URL(currentUrl).hostname;
+    return expectedDomain !== currentDomain && !currentDomain.includes(expectedDomain) ? { value: currentUrl } : null;
+  },
+};
+
+// Rules every scraper evaluates. Library users register their own detectors here;
+// config rules are added per site on top by resolveBanRules
+export class BanRuleRegistry {
+  private rules = new Map<string, BanRule>();
+
+  constructor(rules: BanRule[] = []) {
+    rules.forEach((rule) => this.register(rule));
+  }
+
+  // A rule with an existing id replaces it in place
+  register(rule: BanRule): void {
+    this.rules.set(rule.id, rule);
+  }
+
+  unregister(id: string): boolean {
+    return this.rules.delete(id);
+  }
+
+  list(): BanRule[] {
+    return [...this.rules.values()];
+  }
+}
+
+export const banRuleRegistry = new BanRuleRegistry([...BUILT_IN_BAN_RULE_DEFINITIONS.map(defineBanRule), domainMismatchRule]);
+
+export function siteMatches(site: string, hostname: string): boolean {
+  return site === '*' || hostname === site || hostname.endsWith(`.${site}`);
+}
+
+// Registered rules plus the configured rules of every site entry matching the URL's host, minus disabled ids
+export function resolveBanRules(config: BanRulesConfig, url: string, registry: BanRuleRegistry = banRuleRegistry): BanRule[] {
+  const rules = new Map(registry.list().map((rule) => [rule.id, rule]));
+  let hostname = '';
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    // Not a URL (e.g. a saved page); only "*" rules apply
+  }
+
+  for (const [site, definitions] of Object.entries(config.sites)) {
+    if (!siteMatches(site, hostname)) continue;
+    for (const definition of definitions) {
+      rules.set(definition.id, defineBanRule(definition));
+    }
+  }
+  for (const id of config.disabled) {
+    rules.delete(id);
+  }
+  return [...rules.values()];
+}
+
+// A rule that throws is skipped, so one broken plugin does not hide the others
+export async function evaluateBanRules(rules: BanRule[], context: BanRuleContext): Promise<TriggeredRule[]> {
+  const triggered: TriggeredRule[] = [];
+  for (const rule of rules) {
+    let match: BanRuleMatch | null;
+    try {
+      match = await rule.detect(context);
+    } catch (error) {
+      logWarn('Ban rule failed', { rule: rule.id, error: (error as Error).message });
+      continue;
+    }
+    if (!match) continue;
+
+    const entry: TriggeredRule = {
+      id: rule.id,
+      severity: rule.severity,
+      reason: rule.reason.replace(/\{value\}/g, match.value),
+      evidence: match.value,
+    };
+    triggered.push(entry);
+    (rule.severity === 'info' ? logInfo : logWarn)('Ban rule triggered', { ...entry, url: context.currentUrl });
+  }
+  return triggered;
+}
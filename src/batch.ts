@@ -0,0 +1,120 @@
+import type { ScrapeResult } from './scraper.js';
+import type { BrowserManager } from './browser-manager.js';
+import { ScraperConfigOverrides, mergeOverrides } from './config.js';
+import { ScrapeErrorType } from './errors.js';
+import { openProductStore, ProductStore } from './product-store.js';
+import { WorkerPool, PoolResult } from './worker-pool.js';
+import { JobQueue, JobOutcome, defaultJobId } from './job-queue.js';
+import { SiteAdapter, siteAdapters, siteConfig } from './site-adapter.js';
+import { logInfo, logError } from './logger.js';
+
+export interface BatchScrapeOptions<T = unknown> {
+  // Defaults to the registered adapter for the URLs, Mercari for URLs no adapter claims
+  adapter?: SiteAdapter<T>;
+  // undefined opens the configured store, null disables persistence. Only adapters with save() store results
+  store?: ProductStore | null;
+  runLabel?: string;
+  // Settings for the scrapers this batch creates; intervalMs still sets the minimum interval
+  config?: ScraperConfigOverrides;
+  // Scrapers working in parallel; defaults to pool.workers. They share one rate budget
+  workers?: number;
+  // Aborting it cancels the running jobs
+  signal?: AbortSignal;
+  // Shares the caller's browser; by default the batch launches its own and closes it at the end
+  browsers?: BrowserManager;
+  // Checkpoints every URL in this queue. The batch then runs the job's pending URLs, including
+  // ones an earlier run of the same job left unfinished, and cancelled URLs go back to pending
+  queue?: JobQueue;
+  // Defaults to a hash of urls, so the same list resumes the same job
+  jobId?: string;
+}
+
+function jobOutcome(result: ScrapeResult<unknown>): JobOutcome {
+  if (result.success) return { status: 'done' };
+  if (result.errorType === ScrapeErrorType.Cancelled) return { status: 'pending' };
+  return { status: 'failed', error: result.error, errorType: result.errorType };
+}
+
+// Scrapes urls on a worker pool and yields each result as soon as it is done, in completion
+// order. The shared rate limiter enforces the interval and backs off on 429/503 across workers.
+// Results are typed by the adapter passed in; an adapter picked from the URLs returns unknown
+export function scrapeStream<T>(
+  urls: string[],
+  intervalMs: number | undefined,
+  options: BatchScrapeOptions<T> & { adapter: SiteAdapter<T> }
+): AsyncGenerator<PoolResult<T>>;
+export function scrapeStream(urls: string[], intervalMs?: number, options?: BatchScrapeOptions): AsyncGenerator<PoolResult<unknown>>;
+export async function* scrapeStream(
+  urls: string[],
+  intervalMs: number = 5000,
+  options: BatchScrapeOptions = {}
+): AsyncGenerator<PoolResult<unknown>> {
+  const { queue } = options;
+  const jobId = options.jobId ?? defaultJobId(urls);
+  const pending = queue ? (await queue.resume(jobId, urls)).map((item) => item.url) : urls;
+  const adapter = options.adapter ?? siteAdapters.resolve(pending);
+
+  const pool = new WorkerPool<unknown>({
+    config: mergeOverrides(
+      siteConfig(adapter),
+      options.config,
+      { rateLimit: { minIntervalMs: intervalMs } },
+      options.workers !== undefined ? { pool: { workers: options.workers } } : undefined
+    ),
+    signal: options.signal,
+    browser: options.browsers,
+    createScraper: (settings, rateLimiter) => adapter.createScraper(settings, rateLimiter),
+    onJobStart: queue ? (job) => queue.markStarted(jobId, job.url) : undefined,
+  });
+  const scraperConfig = pool.getConfig();
+
+  const ownsStore = options.store === undefined;
+  const store = !adapter.save
+    ? null
+    : ownsStore
+      ? (scraperConfig.storage.enabled ? await openProductStore(scraperConfig.storage, scraperConfig.logging.outputDir) : null)
+      : options.store ?? null;
+  const run = store ? await store.startRun(options.runLabel ?? 'batch') : null;
+
+  let done = 0;
+  try {
+    for await (const item of pool.run(pending)) {
+      done++;
+      logInfo(`Processed URL ${done}/${pending.length}`, { url: item.url, worker: item.worker, success: item.result.success });
+
+      if (store && item.result.success && item.result.data) {
+        try {
+          await adapter.save!(store, item.result.data, run!.runId);
+        } catch (error) {
+          logError('Failed to store product', error as Error, { url: item.url });
+        }
+      }
+      // Checkpointed after the product is stored, so a crash in between scrapes the URL again
+      await queue?.markFinished(jobId, item.url, jobOutcome(item.result));
+      yield item;
+    }
+  } finally {
+    if (ownsStore && store) {
+      await store.close();
+    }
+  }
+}
+
+// Collects scrapeStream into a map keyed by URL, in completion order
+export function batchScrape<T>(
+  urls: string[],
+  intervalMs: number | undefined,
+  options: BatchScrapeOptions<T> & { adapter: SiteAdapter<T> }
+): Promise<Map<string, ScrapeResult<T>>>;
+export function batchScrape(urls: string[], intervalMs?: number, options?: BatchScrapeOptions): Promise<Map<string, ScrapeResult<unknown>>>;
+export async function batchScrape(
+  urls: string[],
+  intervalMs: number = 5000,
+  options: BatchScrapeOptions = {}
+): Promise<Map<string, ScrapeResult<unknown>>> {
+  const results = new Map<string, ScrapeResult<unknown>>();
+  for await (const { url, result } of scrapeStream(urls, intervalMs, options)) {
+    results.set(url, result);
+  }
+  return results;
+}
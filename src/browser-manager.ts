@@ -0,0 +1,130 @@
+import { chromium as playwrightChromium } from 'playwright';
+import { addExtra } from 'playwright-extra';
+import StealthPlugin from 'puppeteer-extra-plugin-stealth';
+import type { Browser, BrowserContext } from 'playwright';
+import type { ScraperConfig } from './config.js';
+import { logInfo, logWarn, logDebug } from './logger.js';
+
+// Stealth is chosen per scraper, so one process can compare both launchers
+const stealthChromium = addExtra(playwrightChromium);
+stealthChromium.use(StealthPlugin());
+
+export type ContextOptions = Parameters<Browser['newContext']>[0];
+
+export interface BrowserManagerOptions {
+  // A running browser to use first; it belongs to the caller and is not closed
+  browser?: Browser;
+  // Defaults to launchBrowser
+  launch?: (config: ScraperConfig) => Promise<Browser>;
+}
+
+// Launches Chromium with the stealth, headless and proxy settings of config
+export async function launchBrowser(config: ScraperConfig): Promise<Browser> {
+  const launcher = config.stealthEnabled ? stealthChromium : playwrightChromium;
+  const launchOptions: Parameters<typeof launcher.launch>[0] = {
+    headless: config.headless,
+  };
+
+  if (config.proxy) {
+    launchOptions.proxy = {
+      server: config.proxy.server,
+      username: config.proxy.username,
+      password: config.proxy.password,
+    };
+  }
+
+  return launcher.launch(launchOptions);
+}
+
+// Keeps one browser process for any number of scrapers and hands out contexts in it. A browser
+// that crashed or disconnected is relaunched on the next request for a context, and at most
+// browser.maxContexts contexts are open at once; further requests wait for one to close.
+// Launch settings (stealth, headless, proxy) are the manager's, whatever the scrapers' configs say
+export class BrowserManager {
+  private browser: Browser | null;
+  // False for options.browser
+  private ownsBrowser: boolean;
+  private launching: Promise<Browser> | null = null;
+  private launchCount = 0;
+  private contexts = 0;
+  private waiters: Array<() => void> = [];
+  private closed = false;
+
+  constructor(private readonly config: ScraperConfig, private readonly options: BrowserManagerOptions = {}) {
+    this.browser = options.browser ?? null;
+    this.ownsBrowser = !options.browser;
+  }
+
+  // Browsers launched so far, relaunches included
+  get launches(): number {
+    return this.launchCount;
+  }
+
+  get openContexts(): number {
+    return this.contexts;
+  }
+
+  // The running browser, launched or relaunched when there is none
+  async getBrowser(): Promise<Browser> {
+    if (this.closed) {
+      throw new Error('Browser manager is closed');
+    }
+    if (this.browser?.isConnected()) {
+      return this.browser;
+    }
+    this.launching ??= this.launch().finally(() => (this.launching = null));
+    return this.launching;
+  }
+
+  private async launch(): Promise<Browser> {
+    const previous = this.browser;
+    if (previous) {
+      logWarn('Browser disconnected; relaunching', { launches: this.launchCount });
+      if (this.ownsBrowser) await previous.close().catch(() => undefined);
+    }
+
+    const browser = await (this.options.launch ?? launchBrowser)(this.config);
+    this.browser = browser;
+    this.ownsBrowser = true;
+    this.launchCount++;
+    logInfo('Browser launched', { launches: this.launchCount, headless: this.config.headless, stealthEnabled: this.config.stealthEnabled });
+    return browser;
+  }
+
+  // The slot is given back when the context closes, including when its browser dies
+  async newContext(options?: ContextOptions): Promise<BrowserContext> {
+    await this.acquire();
+    try {
+      const context = await (await this.getBrowser()).newContext(options);
+      context.once('close', () => this.release());
+      return context;
+    } catch (error) {
+      this.release();
+      throw error;
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    const limit = this.config.browser.maxContexts;
+    while (limit > 0 && this.contexts >= limit) {
+      logDebug('Waiting for a browser context', { open: this.contexts, maxContexts: limit });
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+    this.contexts++;
+  }
+
+  private release(): void {
+    this.contexts--;
+    this.waiters.shift()?.();
+  }
+
+  // Closes the browser unless it was passed in
+  async close(): Promise<void> {
+    this.closed = true;
+    const browser = this.browser;
+    this.browser = null;
+    if (browser && this.ownsBrowser) {
+      await browser.close().catch(() => undefined);
+    }
+  }
+}
@@ -1,4 +1,8 @@
+import fs from 'fs';
+import path from 'path';
 import dotenv from 'dotenv';
+import yaml from 'js-yaml';
+import { ScrapeErrorType, ConfigError } from './errors.js';
 
 dotenv.config();
 
@@ -18,6 +22,142 @@ export interface FingerprintConfig {
   };
 }
 
+export interface RateLimitConfig {
+  minIntervalMs: number;
+  maxPerHour: number; // 0 = no hourly budget
+  maxPerDay: number; // 0 = no daily budget
+  backoffBaseMs: number; // first penalty after a 429/503 or other block
+  backoffMaxMs: number;
+  backoffMultiplier: number;
+  cooldownMs: number; // extra pause before resuming after a backoff
+  relaxAfter: number; // healthy responses needed before easing the interval
+  relaxFactor: number; // interval multiplier applied when easing (0-1)
+  stopAfterConsecutiveBlocks: number; // batch jobs give up after this many blocks in a row; 0 = never
+}
+
+export interface RetryConfig {
+  maxAttempts: number; // including the first attempt
+  retryOn: ScrapeErrorType[];
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface DegradationConfig {
+  slowResponseMs: number; // absolute limit (BAN_TEST_PLAN: 10s); 0 = baseline only
+  latencyFactor: number; // slow when above the session baseline times this
+  baselineSamples: number; // healthy responses needed before the baseline is used
+}
+
+export interface PoolConfig {
+  workers: number; // scrapers working at once, each with its own context and page in one browser
+  maxWorkers: number; // global cap on workers, whatever a caller asks for
+  jobTimeoutMs: number; // limit per job, retries included; 0 = none
+}
+
+// Playwright resource types, as request.resourceType() reports them
+export const RESOURCE_TYPES = [
+  'document', 'stylesheet', 'image', 'media', 'font', 'script', 'texttrack', 'xhr', 'fetch',
+  'eventsource', 'websocket', 'manifest', 'other',
+];
+
+// Matches a request when every criterion it sets matches; the page's own document is never blocked
+export interface ResourceRule {
+  action: 'block' | 'allow';
+  resourceTypes?: string[];
+  // Hostnames; like banRules.sites, a host also covers its subdomains
+  domains?: string[];
+  // Substrings of the request URL
+  urlPatterns?: string[];
+}
+
+export interface ResourcesConfig {
+  // Checked in order, the first match decides; unmatched requests load
+  rules: ResourceRule[];
+  maxBytesPerNavigation: number; // subresources requested after this many bytes are aborted; 0 = no budget
+}
+
+export interface NavigationConfig {
+  // content: DOM ready, then the scraper's content selectors (e.g. the item title)
+  waitUntil: 'networkidle' | 'load' | 'domcontentloaded' | 'content';
+  contentTimeoutMs: number; // how long content waits for the selectors before judging the page anyway
+}
+
+export interface BrowserConfig {
+  recycleAfterRequests: number; // a scraper opens a new context after this many navigations; 0 = never
+  recycleAfterMinutes: number; // ... or once its context is this old; 0 = never
+  maxHeapMb: number; // ... or when its page's JS heap grows beyond this; 0 = no limit
+  maxContexts: number; // contexts open at once in one browser, further scrapers wait; 0 = no limit
+}
+
+export interface ArtifactsConfig {
+  capture: 'off' | 'failure' | 'always'; // failure: bans and extraction failures; debug logging implies always
+  trace: boolean; // also keep a Playwright trace (trace.zip) of the navigation
+  retentionDays: number; // request directories older than this are deleted on startup; 0 = keep
+  maxEntries: number; // newest request directories kept; 0 = no limit
+}
+
+export interface SessionConfig {
+  // Persist cookies and localStorage under <outputDir>/sessions/<name>.json: restored on
+  // initialize(), saved on close(). Unset starts every scraper as a first-time visitor
+  name?: string;
+  maxAgeDays: number; // older sessions are discarded instead of restored; 0 = keep
+}
+
+export interface PolitenessConfig {
+  // Fetch robots.txt of each site and refuse the URLs it disallows; its Crawl-delay widens minHostIntervalMs
+  robotsTxt: boolean;
+  // Matched against the User-agent lines of robots.txt; defaults to fingerprint.userAgent
+  userAgent?: string;
+  robotsCacheMinutes: number; // a fetched robots.txt is used this long before it is fetched again
+  maxConcurrentPerHost: number; // navigations in flight to one host, over every scraper of the process; 0 = no limit
+  minHostIntervalMs: number; // gap between navigations to one host, over every scraper of the process
+  // Paths (and queries) the scraper may visit, in robots.txt syntax ("*" wildcard, "$" end); empty = any
+  allowPaths: string[];
+  // Visit URLs that robots.txt or allowPaths refuse anyway; each one is logged with the refusal
+  override: boolean;
+}
+
+// Session names become file names
+export const SESSION_NAME_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+// block: the request counts as banned; warn/info: recorded in banSignals.rules only
+export type BanSeverity = 'info' | 'warn' | 'block';
+
+export const BAN_SEVERITIES: BanSeverity[] = ['info', 'warn', 'block'];
+
+// selector: any selector matches; missingSelector: none of them matches (e.g. an empty result page);
+// text: the page HTML contains any pattern; url: the final URL contains any pattern;
+// status: a response of the navigation has one of the statuses
+export type BanRuleType = 'selector' | 'missingSelector' | 'text' | 'url' | 'status';
+
+export const BAN_RULE_TYPES: BanRuleType[] = ['selector', 'missingSelector', 'text', 'url', 'status'];
+
+export interface BanRuleDefinition {
+  id: string;
+  severity: BanSeverity;
+  type: BanRuleType;
+  patterns: Array<string | number>;
+  // "{value}" is replaced with what matched; defaults to the id
+  reason?: string;
+  // status rules: only the page's own document (default) or any response, e.g. the site's API
+  scope?: 'document' | 'any';
+}
+
+export interface BanRulesConfig {
+  // Rule ids to switch off, built-in or configured
+  disabled: string[];
+  // Extra rules per hostname ("jp.mercari.com" also covers its subdomains, "*" every site).
+  // A rule with the id of a built-in replaces it
+  sites: Record<string, BanRuleDefinition[]>;
+}
+
+// Attached to every RequestLog of a scraper started by the experiment runner
+export interface ExperimentTag {
+  experimentId: string;
+  runId: string;
+  variables: Record<string, string | number | boolean>;
+}
+
 export interface ScraperConfig {
   headless: boolean;
   stealthEnabled: boolean;
@@ -33,7 +173,43 @@ export interface ScraperConfig {
     enabled: boolean;
     level: 'debug' | 'info' | 'warn' | 'error';
     outputDir: string;
+    har: boolean; // write <outputDir>/har/<requestId>.har for every navigation
   };
+  rateLimit: RateLimitConfig;
+  retry: RetryConfig;
+  storage: {
+    enabled: boolean;
+    type: 'sqlite' | 'json'; // json is also used when better-sqlite3 is not installed
+    path?: string; // defaults to products.db / products.json in the log output dir
+  };
+  banRules: BanRulesConfig;
+  degradation: DegradationConfig;
+  artifacts: ArtifactsConfig;
+  pool: PoolConfig;
+  browser: BrowserConfig;
+  resources: ResourcesConfig;
+  navigation: NavigationConfig;
+  session: SessionConfig;
+  politeness: PolitenessConfig;
+  experiment?: ExperimentTag;
+}
+
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends readonly unknown[] ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+// What callers pass to a scraper or buildConfig; `proxy: null` switches an inherited proxy off
+export type ScraperConfigOverrides = Omit<DeepPartial<ScraperConfig>, 'proxy'> & { proxy?: ProxyConfig | null };
+
+export interface ConfigSources {
+  // Defaults to process.env; null ignores the environment
+  env?: NodeJS.ProcessEnv | null;
+  // JSON or YAML file; defaults to CONFIG_FILE from the environment
+  file?: string;
+  // Defaults of the site being scraped (see siteConfig), applied right above the built-in defaults
+  site?: ScraperConfigOverrides;
+  // Applied last, in order (CLI flags, programmatic settings)
+  overrides?: ScraperConfigOverrides[];
 }
 
 // Default fingerprint for Japan region
@@ -58,30 +234,448 @@ export const usFingerprint: FingerprintConfig = {
   },
 };
 
-export function loadConfig(): ScraperConfig {
-  const proxyServer = process.env.PROXY_SERVER;
+export const DEFAULT_CONFIG: ScraperConfig = {
+  headless: true,
+  stealthEnabled: true,
+  fingerprint: defaultJapanFingerprint,
+  humanBehavior: {
+    enabled: true,
+    pattern: 'B',
+    minDelay: 1000,
+    maxDelay: 5000,
+  },
+  logging: {
+    enabled: true,
+    level: 'info',
+    outputDir: './logs',
+    har: false,
+  },
+  rateLimit: {
+    minIntervalMs: 5000,
+    maxPerHour: 0,
+    maxPerDay: 0,
+    backoffBaseMs: 30000,
+    backoffMaxMs: 1800000,
+    backoffMultiplier: 2,
+    cooldownMs: 60000,
+    relaxAfter: 10,
+    relaxFactor: 0.8,
+    stopAfterConsecutiveBlocks: 3,
+  },
+  retry: {
+    maxAttempts: 3,
+    retryOn: [ScrapeErrorType.Network, ScrapeErrorType.Timeout, ScrapeErrorType.BrowserCrash],
+    baseDelayMs: 2000,
+    maxDelayMs: 30000,
+  },
+  storage: {
+    enabled: true,
+    type: 'sqlite',
+  },
+  banRules: {
+    disabled: [],
+    sites: {},
+  },
+  degradation: {
+    slowResponseMs: 10000,
+    latencyFactor: 3,
+    baselineSamples: 5,
+  },
+  artifacts: {
+    capture: 'failure',
+    trace: false,
+    retentionDays: 7,
+    maxEntries: 500,
+  },
+  pool: {
+    workers: 1,
+    maxWorkers: 4,
+    jobTimeoutMs: 300000,
+  },
+  browser: {
+    recycleAfterRequests: 0,
+    recycleAfterMinutes: 0,
+    maxHeapMb: 512,
+    maxContexts: 8,
+  },
+  resources: {
+    rules: [],
+    maxBytesPerNavigation: 0,
+  },
+  navigation: {
+    waitUntil: 'networkidle',
+    contentTimeoutMs: 10000,
+  },
+  session: {
+    maxAgeDays: 30,
+  },
+  politeness: {
+    robotsTxt: true,
+    robotsCacheMinutes: 1440,
+    maxConcurrentPerHost: 2,
+    minHostIntervalMs: 0,
+    allowPaths: [],
+    override: false,
+  },
+};
+
+const LOG_LEVELS = ['debug', 'info', 'warn', 'error'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Objects merge key by key, arrays and scalars replace, undefined is ignored.
+// null clears the key when merging into a full config and is kept when combining overrides.
+function deepMerge(base: Record<string, unknown>, override: Record<string, unknown>, keepNull: boolean): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    if (value === null) {
+      if (keepNull) result[key] = null;
+      else delete result[key];
+    } else if (isPlainObject(value) && isPlainObject(result[key])) {
+      result[key] = deepMerge(result[key] as Record<string, unknown>, value, keepNull);
+    } else {
+      result[key] = isPlainObject(value) ? deepMerge({}, value, keepNull) : value;
+    }
+  }
+  return result;
+}
+
+export function mergeConfig(base: ScraperConfig, ...overrides: Array<ScraperConfigOverrides | undefined>): ScraperConfig {
+  return overrides.reduce<Record<string, unknown>>(
+    (merged, override) => (override ? deepMerge(merged, override as Record<string, unknown>, false) : merged),
+    structuredClone(base) as unknown as Record<string, unknown>
+  ) as unknown as ScraperConfig;
+}
+
+// Combines several partial configs into one, later ones winning
+export function mergeOverrides(...overrides: Array<ScraperConfigOverrides | undefined>): ScraperConfigOverrides {
+  return overrides.reduce<Record<string, unknown>>(
+    (merged, override) => (override ? deepMerge(merged, override as Record<string, unknown>, true) : merged),
+    {}
+  ) as ScraperConfigOverrides;
+}
+
+// A complete config passed where overrides are expected; nothing from the process defaults shows through
+export function toOverrides(full: ScraperConfig): ScraperConfigOverrides {
+  return { ...full, proxy: full.proxy ?? null };
+}
+
+function envValue(env: NodeJS.ProcessEnv, name: string): string | undefined {
+  const value = env[name]?.trim();
+  return value ? value : undefined;
+}
+
+function envInt(env: NodeJS.ProcessEnv, name: string): number | undefined {
+  const value = envValue(env, name);
+  if (value === undefined) return undefined;
+  if (!/^-?\d+$/.test(value)) {
+    throw new ConfigError([`${name} must be an integer (got "${value}")`]);
+  }
+  return parseInt(value, 10);
+}
+
+function envBool(env: NodeJS.ProcessEnv, name: string): boolean | undefined {
+  const value = envValue(env, name);
+  return value === undefined ? undefined : value !== 'false';
+}
+
+// Comma-separated, blanks dropped
+function envList(env: NodeJS.ProcessEnv, name: string): string[] | undefined {
+  const values = envValue(env, name)?.split(',').map((value) => value.trim()).filter(Boolean);
+  return values?.length ? values : undefined;
+}
+
+// BLOCK_RESOURCE_TYPES=image,font,media becomes one block rule
+function blockedTypesFromEnv(env: NodeJS.ProcessEnv): ResourceRule[] | undefined {
+  const types = envList(env, 'BLOCK_RESOURCE_TYPES');
+  return types ? [{ action: 'block', resourceTypes: types }] : undefined;
+}
+
+// Only variables that are set end up in the result, so defaults and files show through
+export function configFromEnv(env: NodeJS.ProcessEnv = process.env): ScraperConfigOverrides {
+  const proxyServer = envValue(env, 'PROXY_SERVER');
 
   return {
-    headless: process.env.HEADLESS !== 'false',
-    stealthEnabled: process.env.STEALTH_ENABLED !== 'false',
+    headless: envBool(env, 'HEADLESS'),
+    stealthEnabled: envBool(env, 'STEALTH_ENABLED'),
     proxy: proxyServer ? {
       server: proxyServer,
-      username: process.env.PROXY_USER,
-      password: process.env.PROXY_PASS,
+      username: envValue(env, 'PROXY_USER'),
+      password: envValue(env, 'PROXY_PASS'),
     } : undefined,
-    fingerprint: defaultJapanFingerprint,
     humanBehavior: {
-      enabled: process.env.HUMAN_BEHAVIOR_ENABLED !== 'false',
-      pattern: (process.env.HUMAN_BEHAVIOR_PATTERN as 'A' | 'B' | 'C') || 'B',
-      minDelay: parseInt(process.env.MIN_DELAY || '1000', 10),
-      maxDelay: parseInt(process.env.MAX_DELAY || '5000', 10),
+      enabled: envBool(env, 'HUMAN_BEHAVIOR_ENABLED'),
+      pattern: envValue(env, 'HUMAN_BEHAVIOR_PATTERN') as 'A' | 'B' | 'C' | undefined,
+      minDelay: envInt(env, 'MIN_DELAY'),
+      maxDelay: envInt(env, 'MAX_DELAY'),
     },
     logging: {
-      enabled: process.env.LOGGING_ENABLED !== 'false',
-      level: (process.env.LOG_LEVEL as 'debug' | 'info' | 'warn' | 'error') || 'info',
-      outputDir: process.env.LOG_OUTPUT_DIR || './logs',
+      enabled: envBool(env, 'LOGGING_ENABLED'),
+      level: envValue(env, 'LOG_LEVEL') as ScraperConfig['logging']['level'] | undefined,
+      outputDir: envValue(env, 'LOG_OUTPUT_DIR'),
+      har: envBool(env, 'HAR_ENABLED'),
+    },
+    rateLimit: {
+      minIntervalMs: envInt(env, 'RATE_LIMIT_MIN_INTERVAL'),
+      maxPerHour: envInt(env, 'RATE_LIMIT_PER_HOUR'),
+      maxPerDay: envInt(env, 'RATE_LIMIT_PER_DAY'),
+      backoffBaseMs: envInt(env, 'RATE_LIMIT_BACKOFF_BASE'),
+      backoffMaxMs: envInt(env, 'RATE_LIMIT_BACKOFF_MAX'),
+      cooldownMs: envInt(env, 'RATE_LIMIT_COOLDOWN'),
+    },
+    retry: {
+      maxAttempts: envInt(env, 'RETRY_MAX_ATTEMPTS'),
+      baseDelayMs: envInt(env, 'RETRY_BASE_DELAY'),
+    },
+    storage: {
+      enabled: envBool(env, 'STORAGE_ENABLED'),
+      type: envValue(env, 'STORAGE_TYPE') as 'sqlite' | 'json' | undefined,
+      path: envValue(env, 'STORAGE_PATH'),
+    },
+    artifacts: {
+      capture: envValue(env, 'ARTIFACTS_CAPTURE') as ArtifactsConfig['capture'] | undefined,
+      trace: envBool(env, 'ARTIFACTS_TRACE'),
+      retentionDays: envInt(env, 'ARTIFACTS_RETENTION_DAYS'),
+      maxEntries: envInt(env, 'ARTIFACTS_MAX_ENTRIES'),
+    },
+    pool: {
+      workers: envInt(env, 'POOL_WORKERS'),
+      maxWorkers: envInt(env, 'POOL_MAX_WORKERS'),
+      jobTimeoutMs: envInt(env, 'POOL_JOB_TIMEOUT'),
+    },
+    browser: {
+      recycleAfterRequests: envInt(env, 'BROWSER_RECYCLE_REQUESTS'),
+      recycleAfterMinutes: envInt(env, 'BROWSER_RECYCLE_MINUTES'),
+      maxHeapMb: envInt(env, 'BROWSER_MAX_HEAP_MB'),
+      maxContexts: envInt(env, 'BROWSER_MAX_CONTEXTS'),
+    },
+    resources: {
+      rules: blockedTypesFromEnv(env),
+      maxBytesPerNavigation: envInt(env, 'MAX_BYTES_PER_NAVIGATION'),
+    },
+    navigation: {
+      waitUntil: envValue(env, 'NAVIGATION_WAIT_UNTIL') as NavigationConfig['waitUntil'] | undefined,
+      contentTimeoutMs: envInt(env, 'NAVIGATION_CONTENT_TIMEOUT'),
+    },
+    session: {
+      name: envValue(env, 'SESSION_NAME'),
+      maxAgeDays: envInt(env, 'SESSION_MAX_AGE_DAYS'),
     },
+    politeness: {
+      robotsTxt: envBool(env, 'ROBOTS_TXT'),
+      userAgent: envValue(env, 'ROBOTS_USER_AGENT'),
+      robotsCacheMinutes: envInt(env, 'ROBOTS_CACHE_MINUTES'),
+      maxConcurrentPerHost: envInt(env, 'MAX_CONCURRENT_PER_HOST'),
+      minHostIntervalMs: envInt(env, 'MIN_HOST_INTERVAL'),
+      allowPaths: envList(env, 'ALLOW_PATHS'),
+      override: envBool(env, 'POLITENESS_OVERRIDE'),
+    },
+  };
+}
+
+export function loadConfigFile(filePath: string): ScraperConfigOverrides {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const extension = path.extname(filePath).toLowerCase();
+  let parsed: unknown;
+
+  if (extension === '.yaml' || extension === '.yml') {
+    parsed = yaml.load(content);
+  } else if (extension === '.json') {
+    parsed = JSON.parse(content);
+  } else {
+    throw new ConfigError([`Unsupported config file "${filePath}" (expected .json, .yaml or .yml)`]);
+  }
+
+  if (!isPlainObject(parsed)) {
+    throw new ConfigError([`Config file "${filePath}" must contain an object`]);
+  }
+  const known = [...Object.keys(DEFAULT_CONFIG), 'proxy'];
+  const unknown = Object.keys(parsed).filter((key) => !known.includes(key));
+  if (unknown.length > 0) {
+    throw new ConfigError(unknown.map((key) => `Unknown key "${key}" in ${filePath}`));
+  }
+  return parsed as ScraperConfigOverrides;
+}
+
+// Collects every problem instead of stopping at the first, so one run shows them all
+export function validateConfig(candidate: ScraperConfig): ScraperConfig {
+  const issues: string[] = [];
+  const nonNegative = (value: unknown, name: string) => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      issues.push(`${name} must be a non-negative number (got ${JSON.stringify(value)})`);
+    }
   };
+
+  if (!['A', 'B', 'C'].includes(candidate.humanBehavior.pattern)) {
+    issues.push(`humanBehavior.pattern must be A, B or C (got ${JSON.stringify(candidate.humanBehavior.pattern)})`);
+  }
+  nonNegative(candidate.humanBehavior.minDelay, 'humanBehavior.minDelay');
+  nonNegative(candidate.humanBehavior.maxDelay, 'humanBehavior.maxDelay');
+  if (candidate.humanBehavior.minDelay > candidate.humanBehavior.maxDelay) {
+    issues.push(`humanBehavior.minDelay (${candidate.humanBehavior.minDelay}) must not exceed maxDelay (${candidate.humanBehavior.maxDelay})`);
+  }
+
+  if (!LOG_LEVELS.includes(candidate.logging.level)) {
+    issues.push(`logging.level must be one of ${LOG_LEVELS.join(', ')} (got ${JSON.stringify(candidate.logging.level)})`);
+  }
+  if (!candidate.logging.outputDir) {
+    issues.push('logging.outputDir must not be empty');
+  }
+
+  for (const field of ['minIntervalMs', 'maxPerHour', 'maxPerDay', 'backoffBaseMs', 'backoffMaxMs', 'cooldownMs', 'relaxAfter', 'stopAfterConsecutiveBlocks'] as const) {
+    nonNegative(candidate.rateLimit[field], `rateLimit.${field}`);
+  }
+  if (candidate.rateLimit.backoffBaseMs > candidate.rateLimit.backoffMaxMs) {
+    issues.push(`rateLimit.backoffBaseMs (${candidate.rateLimit.backoffBaseMs}) must not exceed backoffMaxMs (${candidate.rateLimit.backoffMaxMs})`);
+  }
+  if (!(candidate.rateLimit.backoffMultiplier >= 1)) {
+    issues.push(`rateLimit.backoffMultiplier must be at least 1 (got ${candidate.rateLimit.backoffMultiplier})`);
+  }
+  if (!(candidate.rateLimit.relaxFactor > 0 && candidate.rateLimit.relaxFactor <= 1)) {
+    issues.push(`rateLimit.relaxFactor must be in (0, 1] (got ${candidate.rateLimit.relaxFactor})`);
+  }
+
+  if (!Number.isInteger(candidate.retry.maxAttempts) || candidate.retry.maxAttempts < 1) {
+    issues.push(`retry.maxAttempts must be an integer of at least 1 (got ${candidate.retry.maxAttempts})`);
+  }
+  nonNegative(candidate.retry.baseDelayMs, 'retry.baseDelayMs');
+  nonNegative(candidate.retry.maxDelayMs, 'retry.maxDelayMs');
+  const errorTypes = Object.values(ScrapeErrorType) as string[];
+  for (const type of candidate.retry.retryOn) {
+    if (!errorTypes.includes(type)) {
+      issues.push(`retry.retryOn has unknown error type "${type}" (expected ${errorTypes.join(', ')})`);
+    }
+  }
+
+  if (!['sqlite', 'json'].includes(candidate.storage.type)) {
+    issues.push(`storage.type must be sqlite or json (got ${JSON.stringify(candidate.storage.type)})`);
+  }
+
+  nonNegative(candidate.degradation.slowResponseMs, 'degradation.slowResponseMs');
+  nonNegative(candidate.degradation.baselineSamples, 'degradation.baselineSamples');
+  if (!(candidate.degradation.latencyFactor >= 1)) {
+    issues.push(`degradation.latencyFactor must be at least 1 (got ${candidate.degradation.latencyFactor})`);
+  }
+
+  if (!['off', 'failure', 'always'].includes(candidate.artifacts.capture)) {
+    issues.push(`artifacts.capture must be off, failure or always (got ${JSON.stringify(candidate.artifacts.capture)})`);
+  }
+  nonNegative(candidate.artifacts.retentionDays, 'artifacts.retentionDays');
+  nonNegative(candidate.artifacts.maxEntries, 'artifacts.maxEntries');
+
+  if (!Number.isInteger(candidate.pool.workers) || candidate.pool.workers < 1) {
+    issues.push(`pool.workers must be an integer of at least 1 (got ${candidate.pool.workers})`);
+  } else if (candidate.pool.workers > candidate.pool.maxWorkers) {
+    issues.push(`pool.workers (${candidate.pool.workers}) must not exceed pool.maxWorkers (${candidate.pool.maxWorkers})`);
+  }
+  nonNegative(candidate.pool.jobTimeoutMs, 'pool.jobTimeoutMs');
+
+  for (const field of ['recycleAfterRequests', 'recycleAfterMinutes', 'maxHeapMb', 'maxContexts'] as const) {
+    nonNegative(candidate.browser[field], `browser.${field}`);
+  }
+  if (candidate.browser.maxContexts > 0 && candidate.pool.workers > candidate.browser.maxContexts) {
+    issues.push(`pool.workers (${candidate.pool.workers}) must not exceed browser.maxContexts (${candidate.browser.maxContexts})`);
+  }
+
+  candidate.resources.rules.forEach((rule, index) => {
+    const name = `resources.rules[${index}]`;
+    if (rule.action !== 'block' && rule.action !== 'allow') {
+      issues.push(`${name}.action must be block or allow (got ${JSON.stringify(rule.action)})`);
+    }
+    for (const type of rule.resourceTypes ?? []) {
+      if (!RESOURCE_TYPES.includes(type)) {
+        issues.push(`${name}.resourceTypes has unknown type "${type}" (expected ${RESOURCE_TYPES.join(', ')})`);
+      }
+    }
+    if (!rule.resourceTypes?.length && !rule.domains?.length && !rule.urlPatterns?.length) {
+      issues.push(`${name} must set resourceTypes, domains or urlPatterns`);
+    }
+  });
+  nonNegative(candidate.resources.maxBytesPerNavigation, 'resources.maxBytesPerNavigation');
+  if (!['networkidle', 'load', 'domcontentloaded', 'content'].includes(candidate.navigation.waitUntil)) {
+    issues.push(
+      `navigation.waitUntil must be networkidle, load, domcontentloaded or content (got ${JSON.stringify(candidate.navigation.waitUntil)})`
+    );
+  }
+  if (!(candidate.navigation.contentTimeoutMs > 0)) {
+    issues.push(`navigation.contentTimeoutMs must be positive (got ${candidate.navigation.contentTimeoutMs})`);
+  }
+
+  if (candidate.session.name !== undefined && !SESSION_NAME_PATTERN.test(candidate.session.name)) {
+    issues.push(`session.name may only contain letters, digits, ".", "_" and "-" (got ${JSON.stringify(candidate.session.name)})`);
+  }
+  nonNegative(candidate.session.maxAgeDays, 'session.maxAgeDays');
+
+  for (const field of ['robotsCacheMinutes', 'maxConcurrentPerHost', 'minHostIntervalMs'] as const) {
+    nonNegative(candidate.politeness[field], `politeness.${field}`);
+  }
+  for (const pattern of candidate.politeness.allowPaths) {
+    if (!pattern.startsWith('/') && !pattern.startsWith('*')) {
+      issues.push(`politeness.allowPaths must start with "/" or "*" (got ${JSON.stringify(pattern)})`);
+    }
+  }
+
+  for (const [site, rules] of Object.entries(candidate.banRules.sites)) {
+    if (!Array.isArray(rules)) {
+      issues.push(`banRules.sites.${site} must be a list of rules`);
+      continue;
+    }
+    rules.forEach((rule, index) => {
+      const name = `banRules.sites.${site}[${index}]`;
+      if (!rule.id) {
+        issues.push(`${name}.id must not be empty`);
+      }
+      if (!BAN_SEVERITIES.includes(rule.severity)) {
+        issues.push(`${name}.severity must be one of ${BAN_SEVERITIES.join(', ')} (got ${JSON.stringify(rule.severity)})`);
+      }
+      if (!BAN_RULE_TYPES.includes(rule.type)) {
+        issues.push(`${name}.type must be one of ${BAN_RULE_TYPES.join(', ')} (got ${JSON.stringify(rule.type)})`);
+      }
+      if (!Array.isArray(rule.patterns) || rule.patterns.length === 0) {
+        issues.push(`${name}.patterns must be a non-empty list`);
+      } else if (rule.type === 'status' && !rule.patterns.every((status) => Number.isInteger(status))) {
+        issues.push(`${name}.patterns must be HTTP status numbers for a status rule`);
+      }
+    });
+  }
+
+  if (candidate.proxy && !candidate.proxy.server) {
+    issues.push('proxy.server must not be empty');
+  }
+  for (const field of ['userAgent', 'locale', 'timezoneId'] as const) {
+    if (!candidate.fingerprint[field]) {
+      issues.push(`fingerprint.${field} must not be empty`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+  return candidate;
+}
+
+// Precedence, lowest first: defaults, site defaults, config file, environment, overrides
+export function buildConfig(sources: ConfigSources = {}): ScraperConfig {
+  const env = sources.env === undefined ? process.env : sources.env;
+  const file = sources.file ?? (env ? envValue(env, 'CONFIG_FILE') : undefined);
+
+  return validateConfig(
+    mergeConfig(
+      DEFAULT_CONFIG,
+      sources.site,
+      file ? loadConfigFile(file) : undefined,
+      env ? configFromEnv(env) : undefined,
+      ...(sources.overrides ?? [])
+    )
+  );
+}
+
+export function loadConfig(): ScraperConfig {
+  return buildConfig();
 }
 
+// Process-wide defaults from .env and CONFIG_FILE; scrapers merge their own settings on top
 export const config = loadConfig();
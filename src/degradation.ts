@@ -0,0 +1,126 @@
+import type { DegradationConfig } from './config.js';
+import { logWarn } from './logger.js';
+
+// Graded alongside the hard ban flag: the site still answers, but worse than it did
+export type DegradationLevel = 'none' | 'mild' | 'moderate' | 'severe';
+
+export const DEGRADATION_LEVELS: DegradationLevel[] = ['none', 'mild', 'moderate', 'severe'];
+
+// slow_response: over the absolute limit or well above the session's baseline;
+// partial_content: the item rendered without its price or description;
+// duplicate_content: a different item ID returned content already seen;
+// stale_content: an item's update time went backwards, i.e. an older copy was served
+export type DegradationSignalType = 'slow_response' | 'partial_content' | 'duplicate_content' | 'stale_content';
+
+export interface DegradationSignal {
+  type: DegradationSignalType;
+  detail: string;
+}
+
+export interface Degradation {
+  level: DegradationLevel;
+  signals: DegradationSignal[];
+}
+
+// Serving one page for every ID is a stronger sign of a decoy than a slow or thin page
+const SIGNAL_WEIGHTS: Record<DegradationSignalType, number> = {
+  slow_response: 1,
+  partial_content: 1,
+  stale_content: 1,
+  duplicate_content: 2,
+};
+
+// Healthy response times the baseline is taken from
+const LATENCY_WINDOW = 20;
+
+export function assessDegradation(signals: DegradationSignal[]): Degradation {
+  const score = signals.reduce((sum, signal) => sum + SIGNAL_WEIGHTS[signal.type], 0);
+  return { level: DEGRADATION_LEVELS[Math.min(score, DEGRADATION_LEVELS.length - 1)], signals };
+}
+
+// What observeContent compares between pages
+export interface ContentSnapshot {
+  title: string | null;
+  price: number | null;
+  description?: string;
+  updatedAt?: string;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Learns what normal looks like over one scraper session and flags pages that fall short
+export class DegradationMonitor {
+  private latencies: number[] = [];
+  // Content fingerprint -> item it was first seen for
+  private fingerprints = new Map<string, string>();
+  // Item -> newest update time seen
+  private newestUpdate = new Map<string, string>();
+
+  constructor(private config: DegradationConfig) {}
+
+  // Median of recent healthy response times, null until enough were seen
+  baselineMs(): number | null {
+    return this.latencies.length >= this.config.baselineSamples ? median(this.latencies) : null;
+  }
+
+  // Only healthy, normal-speed responses feed the baseline, so a slowdown cannot raise it
+  observeResponseTime(responseTimeMs: number, healthy: boolean): DegradationSignal[] {
+    const baseline = this.baselineMs();
+    let signal: DegradationSignal | null = null;
+
+    if (this.config.slowResponseMs > 0 && responseTimeMs >= this.config.slowResponseMs) {
+      signal = { type: 'slow_response', detail: `${responseTimeMs}ms, limit ${this.config.slowResponseMs}ms` };
+    } else if (baseline !== null && responseTimeMs > baseline * this.config.latencyFactor) {
+      signal = { type: 'slow_response', detail: `${responseTimeMs}ms, session baseline ${Math.round(baseline)}ms` };
+    }
+
+    if (signal) {
+      logWarn('Slow response', { responseTimeMs, baselineMs: baseline });
+      return [signal];
+    }
+    if (healthy) {
+      this.latencies.push(responseTimeMs);
+      if (this.latencies.length > LATENCY_WINDOW) this.latencies.shift();
+    }
+    return [];
+  }
+
+  // key identifies the item, e.g. its ID. Pages without a title are left to contentMissing
+  observeContent(key: string, content: ContentSnapshot): DegradationSignal[] {
+    if (!content.title) return [];
+    const signals: DegradationSignal[] = [];
+
+    const missing = [content.price === null ? 'price' : null, content.description ? null : 'description'].filter(
+      (field): field is string => field !== null
+    );
+    if (missing.length > 0) {
+      signals.push({ type: 'partial_content', detail: `missing ${missing.join(', ')}` });
+    }
+
+    const fingerprint = JSON.stringify([content.title, content.price, content.description ?? null]);
+    const firstSeenFor = this.fingerprints.get(fingerprint);
+    if (firstSeenFor === undefined) {
+      this.fingerprints.set(fingerprint, key);
+    } else if (firstSeenFor !== key) {
+      signals.push({ type: 'duplicate_content', detail: `same content as ${firstSeenFor}` });
+    }
+
+    if (content.updatedAt) {
+      const newest = this.newestUpdate.get(key);
+      if (newest && Date.parse(content.updatedAt) < Date.parse(newest)) {
+        signals.push({ type: 'stale_content', detail: `updated ${content.updatedAt}, ${newest} seen earlier` });
+      } else {
+        this.newestUpdate.set(key, content.updatedAt);
+      }
+    }
+
+    if (signals.length > 0) {
+      logWarn('Degraded content', { key, signals: signals.map((signal) => signal.type) });
+    }
+    return signals;
+  }
+}
@@ -0,0 +1,84 @@
+import type { RetryConfig } from './config.js';
+
+export enum ScrapeErrorType {
+  Network = 'network',
+  Timeout = 'timeout',
+  BrowserCrash = 'browser_crash',
+  Blocked = 'blocked',
+  Extraction = 'extraction',
+  // A worker pool job cancelled before it finished
+  Cancelled = 'cancelled',
+  // Refused without a request: robots.txt or politeness.allowPaths do not allow the URL
+  Disallowed = 'disallowed',
+  Unknown = 'unknown',
+}
+
+export class ScrapeError extends Error {
+  constructor(message: string, readonly type: ScrapeErrorType) {
+    super(message);
+    this.name = 'ScrapeError';
+  }
+}
+
+// Raised when a configuration source holds values the scraper cannot run with
+export class ConfigError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid configuration:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+// Chromium net::ERR_* codes and Node socket errors that mean the request never got an answer
+const NETWORK_PATTERNS = [
+  /net::ERR_NAME_NOT_RESOLVED/,
+  /net::ERR_CONNECTION_(REFUSED|RESET|CLOSED|TIMED_OUT|ABORTED|FAILED)/,
+  /net::ERR_INTERNET_DISCONNECTED/,
+  /net::ERR_NETWORK_CHANGED/,
+  /net::ERR_ADDRESS_UNREACHABLE/,
+  /net::ERR_PROXY_CONNECTION_FAILED/,
+  /net::ERR_TUNNEL_CONNECTION_FAILED/,
+  /net::ERR_SSL_PROTOCOL_ERROR/,
+  /net::ERR_EMPTY_RESPONSE/,
+  /\bE(CONNREFUSED|CONNRESET|NOTFOUND|AI_AGAIN|HOSTUNREACH|PIPE)\b/,
+];
+
+const CRASH_PATTERNS = [
+  /Target (page, context or browser )?(has been )?closed/i,
+  /Target crashed/i,
+  /Page crashed/i,
+  /Browser (has been )?closed/i,
+  /browser has disconnected/i,
+  /Protocol error.*Session closed/i,
+];
+
+const TIMEOUT_PATTERNS = [
+  /Timeout \d+ms exceeded/,
+  /net::ERR_TIMED_OUT/,
+];
+
+export function classifyError(error: unknown): ScrapeErrorType {
+  if (error instanceof ScrapeError) return error.type;
+
+  const name = error instanceof Error ? error.name : '';
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (name === 'TimeoutError' || TIMEOUT_PATTERNS.some((pattern) => pattern.test(message))) {
+    return ScrapeErrorType.Timeout;
+  }
+  if (CRASH_PATTERNS.some((pattern) => pattern.test(message))) {
+    return ScrapeErrorType.BrowserCrash;
+  }
+  if (NETWORK_PATTERNS.some((pattern) => pattern.test(message))) {
+    return ScrapeErrorType.Network;
+  }
+  return ScrapeErrorType.Unknown;
+}
+
+export function isRetryable(type: ScrapeErrorType, policy: RetryConfig): boolean {
+  return policy.retryOn.includes(type);
+}
+
+// Exponential delay before the given retry attempt (attempt 2 is the first retry)
+export function retryDelay(attempt: number, policy: RetryConfig): number {
+  return Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, Math.max(0, attempt - 2)));
+}
@@ -0,0 +1,475 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import yaml from 'js-yaml';
+import { siteAdapters, siteConfig } from './site-adapter.js';
+import {
+  config,
+  usFingerprint,
+  DEFAULT_CONFIG,
+  mergeConfig,
+  mergeOverrides,
+  ScraperConfigOverrides,
+  FingerprintConfig,
+  ProxyConfig,
+} from './config.js';
+import { isBanned, getBanReason } from './ban-detector.js';
+import type { ScrapeResult } from './scraper.js';
+import { logInfo, logWarn } from './logger.js';
+
+export type ExperimentValue = string | number | boolean;
+
+// Variables an experiment can sweep; each maps onto ScraperConfig in VARIABLE_SPECS
+export const EXPERIMENT_VARIABLES = [
+  'intervalMs',
+  'stealth',
+  'headless',
+  'pattern',
+  'humanBehavior',
+  'fingerprint',
+  'proxy',
+] as const;
+
+export type ExperimentVariable = (typeof EXPERIMENT_VARIABLES)[number];
+
+export interface ExperimentStopConditions {
+  // What a ban ends: the current run, the whole experiment, or nothing
+  onBan: 'run' | 'experiment' | 'none';
+  // Ends a run after this many failed requests in a row (0 = never)
+  maxConsecutiveFailures: number;
+  // Ends the experiment once this many bans were seen across all runs (0 = never)
+  maxTotalBans: number;
+}
+
+export interface ExperimentDefinition {
+  id: string;
+  description?: string;
+  urls: string[];
+  // Requests made in each run; the URL list is cycled
+  requestsPerRun: number;
+  // How many times every combination of the matrix is run
+  repetitions: number;
+  // Pause between runs so one run's penalty does not leak into the next
+  cooldownMs: number;
+  matrix: Partial<Record<ExperimentVariable, ExperimentValue[]>>;
+  // Named fingerprints and proxies that `fingerprint` / `proxy` values refer to
+  fingerprints: Record<string, FingerprintConfig>;
+  proxies: Record<string, ProxyConfig>;
+  stop: ExperimentStopConditions;
+}
+
+export interface ExperimentRun {
+  runId: string;
+  index: number;
+  repetition: number;
+  variables: Partial<Record<ExperimentVariable, ExperimentValue>>;
+}
+
+export type RunStatus = 'pending' | 'running' | 'done' | 'stopped';
+
+export interface RunState {
+  status: RunStatus;
+  requests: number;
+  successes: number;
+  bans: number;
+  failures: number;
+  stopReason?: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface ExperimentState {
+  experimentId: string;
+  // Progress is only resumed against the same definition
+  definitionHash: string;
+  startedAt: string;
+  updatedAt: string;
+  stopReason?: string;
+  runs: Record<string, RunState>;
+}
+
+export type ExperimentScraper = {
+  initialize(): Promise<void>;
+  scrape(url: string): Promise<ScrapeResult<unknown>>;
+  close(): Promise<void>;
+};
+
+export interface ExperimentRunnerOptions {
+  statePath?: string;
+  // Discard saved progress instead of resuming
+  restart?: boolean;
+  signal?: AbortSignal;
+  // Settings shared by every run; the run's variables are merged on top
+  config?: ScraperConfigOverrides;
+  createScraper?: (runConfig: ScraperConfigOverrides) => ExperimentScraper;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+export interface ExperimentSummary {
+  experimentId: string;
+  runs: ExperimentRun[];
+  state: ExperimentState;
+  // Every run reached done or stopped, or the experiment itself was stopped
+  completed: boolean;
+}
+
+const BUILTIN_FINGERPRINTS: Record<string, FingerprintConfig> = {
+  jp: DEFAULT_CONFIG.fingerprint,
+  us: usFingerprint,
+};
+
+const DEFAULT_STOP: ExperimentStopConditions = {
+  onBan: 'run',
+  maxConsecutiveFailures: 3,
+  maxTotalBans: 0,
+};
+
+interface VariableSpec {
+  // Returns a description of the expected value when it does not fit
+  check(value: ExperimentValue, definition: ExperimentDefinition): string | null;
+  toConfig(value: ExperimentValue, definition: ExperimentDefinition): ScraperConfigOverrides;
+}
+
+const booleanCheck = (value: ExperimentValue) => (typeof value === 'boolean' ? null : 'true or false');
+
+const VARIABLE_SPECS: Record<ExperimentVariable, VariableSpec> = {
+  intervalMs: {
+    check: (value) => (typeof value === 'number' && value >= 0 ? null : 'a non-negative number of milliseconds'),
+    toConfig: (value) => ({ rateLimit: { minIntervalMs: value as number } }),
+  },
+  stealth: {
+    check: booleanCheck,
+    toConfig: (value) => ({ stealthEnabled: value as boolean }),
+  },
+  headless: {
+    check: booleanCheck,
+    toConfig: (value) => ({ headless: value as boolean }),
+  },
+  pattern: {
+    check: (value) => (value === 'A' || value === 'B' || value === 'C' ? null : 'A, B or C'),
+    toConfig: (value) => ({ humanBehavior: { pattern: value as 'A' | 'B' | 'C' } }),
+  },
+  humanBehavior: {
+    check: booleanCheck,
+    toConfig: (value) => ({ humanBehavior: { enabled: value as boolean } }),
+  },
+  fingerprint: {
+    check: (value, definition) =>
+      typeof value === 'string' && resolveFingerprint(value, definition)
+        ? null
+        : `one of ${Object.keys({ ...BUILTIN_FINGERPRINTS, ...definition.fingerprints }).join(', ')}`,
+    toConfig: (value, definition) => ({ fingerprint: resolveFingerprint(value as string, definition) }),
+  },
+  proxy: {
+    check: (value, definition) =>
+      value === 'direct' || (typeof value === 'string' && definition.proxies[value])
+        ? null
+        : `direct or one of ${Object.keys(definition.proxies).join(', ') || '(no proxies defined)'}`,
+    toConfig: (value, definition) => ({ proxy: value === 'direct' ? null : definition.proxies[value as string] }),
+  },
+};
+
+function resolveFingerprint(name: string, definition: ExperimentDefinition): FingerprintConfig | undefined {
+  return definition.fingerprints[name] ?? BUILTIN_FINGERPRINTS[name];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function numberField(raw: Record<string, unknown>, field: string, fallback: number, min: number): number {
+  const value = raw[field] ?? fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min) {
+    throw new Error(`Experiment "${field}" must be a number >= ${min}`);
+  }
+  return value;
+}
+
+// Validates a parsed YAML/JSON document and fills in defaults
+export function parseExperimentDefinition(raw: unknown): ExperimentDefinition {
+  if (!isRecord(raw)) {
+    throw new Error('Experiment file must contain an object');
+  }
+
+  if (typeof raw.id !== 'string' || !/^[A-Za-z0-9_-]+$/.test(raw.id)) {
+    throw new Error('Experiment "id" is required and may only contain letters, digits, "-" and "_"');
+  }
+
+  const urls = raw.urls;
+  if (!Array.isArray(urls) || urls.length === 0 || !urls.every((url) => typeof url === 'string' && /^https?:\/\//.test(url))) {
+    throw new Error('Experiment "urls" must be a non-empty list of http(s) URLs');
+  }
+
+  const stopRaw = raw.stop ?? {};
+  if (!isRecord(stopRaw)) {
+    throw new Error('Experiment "stop" must be an object');
+  }
+  const stop: ExperimentStopConditions = {
+    onBan: (stopRaw.onBan as ExperimentStopConditions['onBan']) ?? DEFAULT_STOP.onBan,
+    maxConsecutiveFailures: numberField(stopRaw, 'maxConsecutiveFailures', DEFAULT_STOP.maxConsecutiveFailures, 0),
+    maxTotalBans: numberField(stopRaw, 'maxTotalBans', DEFAULT_STOP.maxTotalBans, 0),
+  };
+  if (!['run', 'experiment', 'none'].includes(stop.onBan)) {
+    throw new Error('Experiment "stop.onBan" must be run, experiment or none');
+  }
+
+  for (const field of ['fingerprints', 'proxies', 'matrix'] as const) {
+    if (raw[field] !== undefined && !isRecord(raw[field])) {
+      throw new Error(`Experiment "${field}" must be an object`);
+    }
+  }
+
+  const definition: ExperimentDefinition = {
+    id: raw.id,
+    description: typeof raw.description === 'string' ? raw.description : undefined,
+    urls: urls as string[],
+    requestsPerRun: numberField(raw, 'requestsPerRun', 10, 1),
+    repetitions: numberField(raw, 'repetitions', 1, 1),
+    cooldownMs: numberField(raw, 'cooldownMs', 30000, 0),
+    matrix: {},
+    fingerprints: (raw.fingerprints as Record<string, FingerprintConfig>) ?? {},
+    proxies: (raw.proxies as Record<string, ProxyConfig>) ?? {},
+    stop,
+  };
+
+  for (const [name, values] of Object.entries((raw.matrix as Record<string, unknown>) ?? {})) {
+    if (!(EXPERIMENT_VARIABLES as readonly string[]).includes(name)) {
+      throw new Error(`Unknown experiment variable "${name}" (expected one of ${EXPERIMENT_VARIABLES.join(', ')})`);
+    }
+    const variable = name as ExperimentVariable;
+    const list = Array.isArray(values) ? values : [values];
+    if (list.length === 0) {
+      throw new Error(`Experiment variable "${variable}" has no values`);
+    }
+    for (const value of list) {
+      const expected = VARIABLE_SPECS[variable].check(value as ExperimentValue, definition);
+      if (expected) {
+        throw new Error(`Invalid value ${JSON.stringify(value)} for "${variable}" (expected ${expected})`);
+      }
+    }
+    definition.matrix[variable] = list as ExperimentValue[];
+  }
+
+  return definition;
+}
+
+export function loadExperimentFile(filePath: string): ExperimentDefinition {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const extension = path.extname(filePath).toLowerCase();
+
+  if (extension === '.yaml' || extension === '.yml') {
+    return parseExperimentDefinition(yaml.load(content));
+  }
+  if (extension === '.json') {
+    return parseExperimentDefinition(JSON.parse(content));
+  }
+  throw new Error(`Unsupported experiment file "${filePath}" (expected .yaml, .yml or .json)`);
+}
+
+// One run per combination of the matrix, repeated; each repetition walks the whole matrix
+// so that drift over time spreads evenly across combinations
+export function expandExperiment(definition: ExperimentDefinition): ExperimentRun[] {
+  let combinations: ExperimentRun['variables'][] = [{}];
+  for (const [variable, values] of Object.entries(definition.matrix) as [ExperimentVariable, ExperimentValue[]][]) {
+    combinations = combinations.flatMap((combination) => values.map((value) => ({ ...combination, [variable]: value })));
+  }
+
+  const runs: ExperimentRun[] = [];
+  for (let repetition = 1; repetition <= definition.repetitions; repetition++) {
+    for (const variables of combinations) {
+      const index = runs.length;
+      runs.push({
+        runId: `${definition.id}-${String(index + 1).padStart(3, '0')}`,
+        index,
+        repetition,
+        variables,
+      });
+    }
+  }
+  return runs;
+}
+
+// Settings for one run: the shared base, the run's variables, then the experiment tag
+export function buildRunConfig(definition: ExperimentDefinition, run: ExperimentRun, base?: ScraperConfigOverrides): ScraperConfigOverrides {
+  const variables = Object.entries(run.variables) as [ExperimentVariable, ExperimentValue][];
+  return mergeOverrides(base, ...variables.map(([variable, value]) => VARIABLE_SPECS[variable].toConfig(value, definition)), {
+    experiment: {
+      experimentId: definition.id,
+      runId: run.runId,
+      variables: { ...run.variables, repetition: run.repetition },
+    },
+  });
+}
+
+export function hashDefinition(definition: ExperimentDefinition): string {
+  return crypto.createHash('sha256').update(JSON.stringify(definition)).digest('hex').substring(0, 16);
+}
+
+export function defaultStatePath(experimentId: string, outputDir: string = config.logging.outputDir): string {
+  return path.join(outputDir, 'experiments', `${experimentId}.state.json`);
+}
+
+export function loadExperimentState(statePath: string): ExperimentState | null {
+  if (!fs.existsSync(statePath)) return null;
+  return JSON.parse(fs.readFileSync(statePath, 'utf-8')) as ExperimentState;
+}
+
+function saveExperimentState(statePath: string, state: ExperimentState): void {
+  state.updatedAt = new Date().toISOString();
+  fs.mkdirSync(path.dirname(statePath), { recursive: true });
+  const tmpPath = `${statePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(state, null, 2));
+  fs.renameSync(tmpPath, statePath);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+function isFinished(run: RunState | undefined): boolean {
+  return run?.status === 'done' || run?.status === 'stopped';
+}
+
+// Runs every pending run of the experiment, saving progress after each request.
+// Calling it again with the same definition picks up where the last call stopped.
+export async function runExperiment(definition: ExperimentDefinition, options: ExperimentRunnerOptions = {}): Promise<ExperimentSummary> {
+  const statePath = options.statePath ?? defaultStatePath(definition.id, mergeConfig(config, options.config).logging.outputDir);
+  const createScraper =
+    options.createScraper ??
+    ((runConfig: ScraperConfigOverrides) => {
+      const adapter = siteAdapters.resolve(definition.urls);
+      return adapter.createScraper(mergeOverrides(siteConfig(adapter), runConfig));
+    });
+  const wait = options.sleep ?? sleep;
+  const runs = expandExperiment(definition);
+  const definitionHash = hashDefinition(definition);
+
+  const saved = options.restart ? null : loadExperimentState(statePath);
+  if (saved && saved.definitionHash !== definitionHash) {
+    throw new Error(`Experiment "${definition.id}" changed since it was started; rerun with --restart to discard ${statePath}`);
+  }
+  const now = new Date().toISOString();
+  const state: ExperimentState = saved ?? { experimentId: definition.id, definitionHash, startedAt: now, updatedAt: now, runs: {} };
+
+  const summary = (): ExperimentSummary => ({
+    experimentId: definition.id,
+    runs,
+    state,
+    completed: state.stopReason !== undefined || runs.every((run) => isFinished(state.runs[run.runId])),
+  });
+
+  if (state.stopReason) {
+    logInfo('Experiment already stopped', { experimentId: definition.id, stopReason: state.stopReason });
+    return summary();
+  }
+
+  logInfo(saved ? 'Resuming experiment' : 'Starting experiment', {
+    experimentId: definition.id,
+    runs: runs.length,
+    finishedRuns: runs.filter((run) => isFinished(state.runs[run.runId])).length,
+    statePath,
+  });
+
+  let totalBans = Object.values(state.runs).reduce((sum, run) => sum + run.bans, 0);
+  let ranBefore = Object.keys(state.runs).length > 0;
+
+  for (const run of runs) {
+    if (options.signal?.aborted) break;
+    if (isFinished(state.runs[run.runId])) continue;
+
+    if (ranBefore && definition.cooldownMs > 0) {
+      logInfo('Experiment cooldown', { experimentId: definition.id, cooldownMs: definition.cooldownMs });
+      await wait(definition.cooldownMs, options.signal);
+      if (options.signal?.aborted) break;
+    }
+    ranBefore = true;
+
+    const runState: RunState = state.runs[run.runId] ?? { status: 'pending', requests: 0, successes: 0, bans: 0, failures: 0 };
+    runState.status = 'running';
+    runState.startedAt ??= new Date().toISOString();
+    state.runs[run.runId] = runState;
+    saveExperimentState(statePath, state);
+
+    logInfo('Experiment run started', { experimentId: definition.id, runId: run.runId, variables: run.variables, resumedAt: runState.requests });
+
+    const scraper = createScraper(buildRunConfig(definition, run, options.config));
+    let consecutiveFailures = 0;
+    let stopExperiment: string | undefined;
+
+    try {
+      await scraper.initialize();
+
+      while (runState.requests < definition.requestsPerRun && !options.signal?.aborted) {
+        const url = definition.urls[runState.requests % definition.urls.length];
+        const result = await scraper.scrape(url);
+        const banned = isBanned(result.banSignals);
+
+        runState.requests++;
+        if (result.success) {
+          runState.successes++;
+          consecutiveFailures = 0;
+        } else {
+          runState.failures++;
+          consecutiveFailures++;
+        }
+        if (banned) {
+          runState.bans++;
+          totalBans++;
+        }
+
+        if (banned && definition.stop.onBan !== 'none') {
+          runState.stopReason = `BAN: ${getBanReason(result.banSignals)}`;
+          if (definition.stop.onBan === 'experiment') stopExperiment = `${run.runId} ${runState.stopReason}`;
+        } else if (definition.stop.maxConsecutiveFailures > 0 && consecutiveFailures >= definition.stop.maxConsecutiveFailures) {
+          runState.stopReason = `${consecutiveFailures} consecutive failures`;
+        }
+        if (definition.stop.maxTotalBans > 0 && totalBans >= definition.stop.maxTotalBans) {
+          stopExperiment = `${totalBans} bans in total`;
+          runState.stopReason ??= stopExperiment;
+        }
+
+        saveExperimentState(statePath, state);
+        if (runState.stopReason) break;
+      }
+    } finally {
+      await scraper.close();
+    }
+
+    if (options.signal?.aborted && !runState.stopReason && runState.requests < definition.requestsPerRun) {
+      saveExperimentState(statePath, state);
+      logWarn('Experiment interrupted', { experimentId: definition.id, runId: run.runId, requests: runState.requests });
+      break;
+    }
+
+    runState.status = runState.stopReason ? 'stopped' : 'done';
+    runState.finishedAt = new Date().toISOString();
+    if (stopExperiment) state.stopReason = stopExperiment;
+    saveExperimentState(statePath, state);
+
+    logInfo('Experiment run complete', {
+      experimentId: definition.id,
+      runId: run.runId,
+      variables: run.variables,
+      requests: runState.requests,
+      successes: runState.successes,
+      bans: runState.bans,
+      stopReason: runState.stopReason,
+    });
+
+    if (stopExperiment) {
+      logWarn('Experiment stopped', { experimentId: definition.id, reason: stopExperiment });
+      break;
+    }
+  }
+
+  return summary();
+}
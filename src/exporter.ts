@@ -0,0 +1,206 @@
+import fs from 'fs';
+import path from 'path';
+import type { ScrapeResult } from './scraper.js';
+import type { MercariProduct } from './mercari-scraper.js';
+import type { MercariListing } from './mercari-listing-scraper.js';
+import { isBanned, getBanReason } from './ban-detector.js';
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson' | 'md';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'ndjson', 'md'];
+
+const FORMAT_EXTENSIONS: Record<string, ExportFormat> = {
+  '.csv': 'csv',
+  '.json': 'json',
+  '.ndjson': 'ndjson',
+  '.jsonl': 'ndjson',
+  '.md': 'md',
+};
+
+// One scraped URL together with everything the scraper returned for it
+export interface ExportRecord<T> {
+  url: string;
+  result: ScrapeResult<T>;
+}
+
+type Cell = string | number | boolean | null | undefined;
+
+// value is a method so the columns of a typed adapter still fit a SiteAdapter<unknown>
+export interface ExportColumn<T> {
+  header: string;
+  value(record: ExportRecord<T>): Cell;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // Written to stdout when omitted
+  output?: string;
+}
+
+// Outcome and ban columns shared by every export; site adapters put their data columns first
+export function resultColumns<T>(): ExportColumn<T>[] {
+  return [
+    { header: 'error', value: ({ result }) => result.error },
+    { header: 'errorType', value: ({ result }) => result.errorType },
+    { header: 'attempts', value: ({ result }) => result.attempts },
+    { header: 'responseTimeMs', value: ({ result }) => result.banSignals.responseTimeMs },
+    { header: 'banned', value: ({ result }) => isBanned(result.banSignals) },
+    { header: 'banReason', value: ({ result }) => getBanReason(result.banSignals) },
+    { header: 'captchaDetected', value: ({ result }) => result.banSignals.captchaDetected },
+    { header: 'httpError', value: ({ result }) => result.banSignals.httpError },
+    { header: 'unexpectedRedirect', value: ({ result }) => result.banSignals.unexpectedRedirect },
+    { header: 'contentMissing', value: ({ result }) => result.banSignals.contentMissing },
+    { header: 'jsChallenge', value: ({ result }) => result.banSignals.jsChallenge },
+    { header: 'blockedUrl', value: ({ result }) => result.banSignals.blockedUrl },
+  ];
+}
+
+// Added after the per-record columns of each list, so existing positions stay put
+export function degradationColumns<T>(): ExportColumn<T>[] {
+  return [
+    { header: 'degradationLevel', value: ({ result }) => result.banSignals.degradation?.level },
+    { header: 'degradationSignals', value: ({ result }) => result.banSignals.degradation?.signals.map((signal) => signal.type).join(' ') },
+  ];
+}
+
+// Column order is part of the output contract: append new columns, never reorder
+export const PRODUCT_COLUMNS: ExportColumn<MercariProduct>[] = [
+  { header: 'url', value: ({ url }) => url },
+  { header: 'success', value: ({ result }) => result.success },
+  { header: 'title', value: ({ result }) => result.data?.title },
+  { header: 'price', value: ({ result }) => result.data?.price },
+  { header: 'isSoldOut', value: ({ result }) => result.data?.isSoldOut },
+  { header: 'statusText', value: ({ result }) => result.data?.statusText },
+  { header: 'seller', value: ({ result }) => result.data?.seller },
+  { header: 'description', value: ({ result }) => result.data?.description },
+  { header: 'imageUrls', value: ({ result }) => result.data?.imageUrls?.join(' ') },
+  ...resultColumns<MercariProduct>(),
+  { header: 'schemaVersion', value: ({ result }) => result.data?.schemaVersion },
+  { header: 'condition', value: ({ result }) => result.data?.condition },
+  { header: 'shippingPayer', value: ({ result }) => result.data?.shippingPayer },
+  { header: 'shippingMethod', value: ({ result }) => result.data?.shippingMethod },
+  { header: 'shippingFrom', value: ({ result }) => result.data?.shippingFrom },
+  { header: 'daysToShip', value: ({ result }) => result.data?.daysToShip },
+  { header: 'categories', value: ({ result }) => result.data?.categories?.join(' > ') },
+  { header: 'brand', value: ({ result }) => result.data?.brand },
+  { header: 'size', value: ({ result }) => result.data?.size },
+  { header: 'likeCount', value: ({ result }) => result.data?.likeCount },
+  { header: 'commentCount', value: ({ result }) => result.data?.commentCount },
+  { header: 'listedAt', value: ({ result }) => result.data?.listedAt },
+  { header: 'updatedAt', value: ({ result }) => result.data?.updatedAt },
+  { header: 'status', value: ({ result }) => result.data?.status },
+  { header: 'statusConfidence', value: ({ result }) => result.data?.statusConfidence },
+  { header: 'statusSignals', value: ({ result }) => result.data?.statusEvidence?.map((evidence) => evidence.signal).join(' ') },
+  ...degradationColumns<MercariProduct>(),
+];
+
+// Listing exports have one row per collected item; the ban columns describe the listing scrape
+export const LISTING_COLUMNS: ExportColumn<MercariListing>[] = [
+  { header: 'url', value: ({ url }) => url },
+  { header: 'success', value: ({ result }) => result.success },
+  { header: 'itemId', value: ({ result }) => result.data?.itemId },
+  { header: 'title', value: ({ result }) => result.data?.title },
+  { header: 'price', value: ({ result }) => result.data?.price },
+  { header: 'isSoldOut', value: ({ result }) => result.data?.isSoldOut },
+  { header: 'thumbnailUrl', value: ({ result }) => result.data?.thumbnailUrl },
+  { header: 'page', value: ({ result }) => result.data?.page },
+  ...resultColumns<MercariListing>(),
+  ...degradationColumns<MercariListing>(),
+];
+
+export function parseExportFormat(value: string): ExportFormat {
+  if (!EXPORT_FORMATS.includes(value as ExportFormat)) {
+    throw new Error(`Unknown export format "${value}" (expected ${EXPORT_FORMATS.join(', ')})`);
+  }
+  return value as ExportFormat;
+}
+
+export function formatFromPath(file: string): ExportFormat | null {
+  return FORMAT_EXTENSIONS[path.extname(file).toLowerCase()] ?? null;
+}
+
+// Explicit --format wins, then the --output extension, then JSON
+export function resolveExportFormat(format: string | undefined, output: string | undefined): ExportFormat {
+  if (format) return parseExportFormat(format);
+  return (output && formatFromPath(output)) || 'json';
+}
+
+// Fixed key order so JSON output diffs cleanly between runs
+function toJsonRecord<T>(record: ExportRecord<T>): Record<string, unknown> {
+  const { result } = record;
+  return {
+    url: record.url,
+    success: result.success,
+    data: result.data ?? null,
+    error: result.error ?? null,
+    errorType: result.errorType ?? null,
+    attempts: result.attempts ?? null,
+    banned: isBanned(result.banSignals),
+    banReason: getBanReason(result.banSignals),
+    banSignals: result.banSignals,
+  };
+}
+
+function cellText(value: Cell): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+// RFC 4180: quote fields holding separators, quotes or line breaks and double embedded quotes
+export function escapeCsvField(value: Cell): string {
+  const text = cellText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function escapeMarkdownCell(value: Cell): string {
+  return cellText(value).replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+// The BOM lets Excel detect UTF-8, otherwise Japanese titles open as mojibake
+export function renderCsv<T>(records: ExportRecord<T>[], columns: ExportColumn<T>[]): string {
+  const rows = [columns.map((column) => escapeCsvField(column.header))];
+  for (const record of records) {
+    rows.push(columns.map((column) => escapeCsvField(column.value(record))));
+  }
+  return '\uFEFF' + rows.map((row) => row.join(',')).join('\r\n') + '\r\n';
+}
+
+export function renderMarkdownTable<T>(records: ExportRecord<T>[], columns: ExportColumn<T>[]): string {
+  const lines: string[] = [];
+  lines.push(`| ${columns.map((column) => column.header).join(' | ')} |`);
+  lines.push(`|${columns.map((column) => '-'.repeat(column.header.length + 2)).join('|')}|`);
+  for (const record of records) {
+    lines.push(`| ${columns.map((column) => escapeMarkdownCell(column.value(record))).join(' | ')} |`);
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
+export function renderExport<T>(records: ExportRecord<T>[], format: ExportFormat, columns: ExportColumn<T>[]): string {
+  switch (format) {
+    case 'csv':
+      return renderCsv(records, columns);
+    case 'md':
+      return renderMarkdownTable(records, columns);
+    case 'ndjson':
+      return records.map((record) => JSON.stringify(toJsonRecord(record)) + '\n').join('');
+    case 'json':
+      return JSON.stringify(records.map(toJsonRecord), null, 2) + '\n';
+  }
+}
+
+// Flattens a listing scrape into one record per item so it exports like any other result
+export function listingRecords(listing: ScrapeResult<MercariListing[]>): ExportRecord<MercariListing>[] {
+  const { data, ...rest } = listing;
+  return (data ?? []).map((item) => ({ url: item.url, result: { ...rest, data: item } }));
+}
+
+export function writeExport<T>(records: ExportRecord<T>[], columns: ExportColumn<T>[], options: ExportOptions): string {
+  const rendered = renderExport(records, options.format, columns);
+  if (options.output) {
+    fs.mkdirSync(path.dirname(path.resolve(options.output)), { recursive: true });
+    fs.writeFileSync(options.output, rendered);
+  } else {
+    process.stdout.write(rendered);
+  }
+  return rendered;
+}
@@ -1,15 +1,97 @@
-import { MercariScraper, batchScrape, MercariProduct } from './mercari-scraper.js';
-import { config, loadConfig, ScraperConfig } from './config.js';
-import { logInfo, logError } from './logger.js';
+import fs from 'fs';
+import { batchScrape } from './batch.js';
+import { ScrapeResult } from './scraper.js';
+import { BrowserManager } from './browser-manager.js';
+import { SiteAdapter, siteAdapters, siteConfig } from './site-adapter.js';
+import { buildConfig, mergeConfig, mergeOverrides, toOverrides, ScraperConfig, ScraperConfigOverrides, NavigationConfig } from './config.js';
+import { logInfo, logError, configureLogger } from './logger.js';
+import { scrapeListing } from './mercari-listing-scraper.js';
 import { isBanned, getBanReason } from './ban-detector.js';
+import { openProductStore } from './product-store.js';
+import { openJobQueue, defaultJobId, JobItemStatus, JobSummary } from './job-queue.js';
+import { sessionStoreFor, cookieAgeMinutes, isSessionExpired, liveCookies, SavedSession } from './session-store.js';
+import { watch, loadWatchlist, createNotifier } from './watcher.js';
+import { renderSelectorTable, driftedProbes } from './selector-health.js';
+import { loadExperimentFile, expandExperiment, runExperiment, ExperimentSummary } from './experiment.js';
+import {
+  writeExport,
+  resolveExportFormat,
+  listingRecords,
+  ExportOptions,
+  ExportRecord,
+  ExportColumn,
+  PRODUCT_COLUMNS,
+  LISTING_COLUMNS,
+} from './exporter.js';
+import {
+  loadRequestLogs,
+  analyzeRequestLogs,
+  parseGroupBy,
+  renderMarkdownReport,
+  renderJsonReport,
+  DEFAULT_GROUP_BY,
+  GROUP_DIMENSIONS,
+} from './analyzer.js';
 
 // Export all modules for library usage
-export { MercariScraper, batchScrape, MercariProduct } from './mercari-scraper.js';
+export { MercariScraper, MercariProduct } from './mercari-scraper.js';
+export { mercariAdapter } from './mercari-adapter.js';
+export * from './site-adapter.js';
+export * from './batch.js';
+export {
+  MercariListingScraper,
+  MercariListing,
+  ListingScrapeOptions,
+  ListingWithDetails,
+  scrapeListing,
+} from './mercari-listing-scraper.js';
 export { BaseScraper, ScrapeResult } from './scraper.js';
-export { config, loadConfig, ScraperConfig, FingerprintConfig, ProxyConfig } from './config.js';
+export {
+  config,
+  loadConfig,
+  buildConfig,
+  configFromEnv,
+  loadConfigFile,
+  validateConfig,
+  mergeConfig,
+  mergeOverrides,
+  toOverrides,
+  DEFAULT_CONFIG,
+  ScraperConfig,
+  ScraperConfigOverrides,
+  ConfigSources,
+  DeepPartial,
+  FingerprintConfig,
+  ProxyConfig,
+  RateLimitConfig,
+  RetryConfig,
+  NavigationConfig,
+  PolitenessConfig,
+  ResourceRule,
+  ResourcesConfig,
+} from './config.js';
 export * from './ban-detector.js';
+export * from './ban-rules.js';
+export * from './degradation.js';
+export * from './network-recorder.js';
+export * from './artifacts.js';
+export * from './worker-pool.js';
+export { BrowserManager, BrowserManagerOptions, ContextOptions, launchBrowser } from './browser-manager.js';
+export * from './job-queue.js';
+export * from './session-store.js';
+export * from './resource-guard.js';
+export * from './politeness.js';
+export * from './errors.js';
 export * from './human-behavior.js';
 export * from './logger.js';
+export * from './analyzer.js';
+export * from './product-store.js';
+export * from './watcher.js';
+export * from './experiment.js';
+export * from './exporter.js';
+export * from './structured-data.js';
+export * from './selector-health.js';
+export * from './sold-status.js';
 
 // CLI entry point
 async function main() {
@@ -17,31 +99,141 @@ async function main() {
 
   if (args.length === 0) {
     console.log(`
-Playwright BAN Test - Mercari Scraper
+Playwright BAN Test - Flea Market Scraper (sites: ${siteAdapters.list().map((adapter) => adapter.id).join(', ')})
 
 Usage:
   npm start <url>                    Scrape a single URL
   npm start <url1> <url2> ...        Scrape multiple URLs
   npm start --test-rate-limit <url>  Run rate limit test
+  npm start --listing <url>          Collect items from a search/category listing
+  npm start analyze <file.jsonl> ... Summarize request logs into a run report
+  npm start store <query> [itemId]   Query stored observations:
+                                     items | history <id> | sold <id> | changes [runId]
+  npm start watch <watchlist>        Re-scrape watched items and report changes
+  npm start experiment <file>        Run or resume a BAN test experiment (YAML/JSON)
+  npm start selectors check <target> Show which selectors match on a URL or saved HTML file
+                                     (--site <id> for saved files of other sites)
+  npm start job status [jobId]       Show the progress of batch jobs
+  npm start job retry-failed <jobId> Queue a job's failed URLs again and scrape them
+  npm start session <action>         Manage saved browser sessions:
+                                     list | show <name> | delete <name> | expire [--max-age-days <n>]
 
 Options:
+  --config <file>      JSON/YAML config file (below env vars, above defaults)
+  --site <id>          Site adapter to use (default: chosen from the URLs)
   --interval <ms>      Set interval between requests (default: 5000)
   --pattern <A|B|C>    Set human behavior pattern (default: B)
   --headless <bool>    Run in headless mode (default: true)
   --no-stealth         Disable stealth plugin
+  --workers <n>        Scrape multiple URLs with n parallel pages sharing the interval (default: 1)
+  --job <id>           Track multiple URLs as this job (default: a hash of the URLs);
+                       without URLs, resume it
+  --restart            Scrape every URL of the job again, not only the unfinished ones
+  --session <name>     Restore cookies and storage from this saved session and save them on exit
+  --block <types>      Abort requests of these resource types, e.g. image,font,media
+  --wait <strategy>    networkidle | load | domcontentloaded | content (default: networkidle)
+  --politeness-override
+                       Visit URLs that robots.txt or ALLOW_PATHS refuse (each one is logged)
+  --output <file>      Export full results (data, errors, ban signals) to a file
+  --format <fmt>       csv | json | ndjson | md (default: from --output extension, else json);
+                       without --output the export is printed instead of the summary
+
+Listing options:
+  --max-pages <n>      Maximum result pages to visit (default: 5)
+  --details            Also scrape every collected item page
+
+Watch options:
+  --interval <ms>      Minimum gap between requests (default: 5000)
+  --every <ms>         Time between watch cycles (default: 1800000)
+  --jitter <ratio>     Random spread of the cycle time (default: 0.2)
+  --notify <target>    stdout | jsonl:<path> | webhook:<url> (repeatable, default: stdout)
+  --once               Run a single cycle and exit
+
+Experiment options:
+  --restart            Discard saved progress and start from the first run
+  --dry-run            List the runs the experiment expands to and exit
+
+Analyze options:
+  --group-by <dims>    Comma-separated: ${GROUP_DIMENSIONS.join(',')}
+                       (default: ${DEFAULT_GROUP_BY.join(',')})
+  --format <md|json>   Report format (default: md)
+  --output <file>      Write the report to a file instead of stdout
 
 Examples:
   npm start "https://jp.mercari.com/item/m12345678"
   npm start --interval 10000 "https://jp.mercari.com/item/m12345678"
   npm start --test-rate-limit "https://jp.mercari.com/item/m12345678"
+  npm start --listing --max-pages 2 "https://jp.mercari.com/search?keyword=switch"
+  npm start --output results.csv "https://jp.mercari.com/item/m12345678" "https://jp.mercari.com/item/m87654321"
+  npm start analyze logs/requests.jsonl --group-by pattern,stealth
+  npm start store history m12345678
+  npm start watch watchlist.txt --every 3600000 --notify jsonl:logs/changes.jsonl
+  npm start experiment experiments/phase1-rate-limit.yaml
+  npm start selectors check src/tests/fixtures/item-on-sale.html
+  npm start --job nightly --workers 2 $(cat urls.txt)
+  npm start job retry-failed nightly
+  npm start --session warm "https://jp.mercari.com/item/m12345678"
 `);
     return;
   }
 
+  // --config applies to every command
+  const configIndex = args.indexOf('--config');
+  const configFile = configIndex >= 0 ? args[configIndex + 1] : undefined;
+  if (configIndex >= 0) {
+    args.splice(configIndex, 2);
+  }
+  const settings = buildConfig({ file: configFile });
+  configureLogger(settings.logging);
+
+  if (args[0] === 'analyze') {
+    runAnalyze(args.slice(1), settings);
+    return;
+  }
+
+  if (args[0] === 'store') {
+    await runStoreQuery(args.slice(1), settings);
+    return;
+  }
+
+  if (args[0] === 'watch') {
+    await runWatch(args.slice(1), settings);
+    return;
+  }
+
+  if (args[0] === 'experiment') {
+    await runExperimentCommand(args.slice(1), settings);
+    return;
+  }
+
+  if (args[0] === 'selectors') {
+    await runSelectorsCommand(args.slice(1), settings);
+    return;
+  }
+
+  if (args[0] === 'job') {
+    await runJobCommand(args.slice(1), settings);
+    return;
+  }
+
+  if (args[0] === 'session') {
+    runSessionCommand(args.slice(1), settings);
+    return;
+  }
+
   // Parse arguments
   const urls: string[] = [];
   let interval = 5000;
   let testRateLimit = false;
+  let listing = false;
+  let maxPages: number | undefined;
+  let details = false;
+  let output: string | undefined;
+  let format: string | undefined;
+  let jobId: string | undefined;
+  let restart = false;
+  let siteId: string | undefined;
+  const cliOverrides: ScraperConfigOverrides = {};
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
@@ -49,57 +241,126 @@ Examples:
       interval = parseInt(args[i + 1], 10);
       i++;
     } else if (arg === '--pattern' && args[i + 1]) {
-      config.humanBehavior.pattern = args[i + 1] as 'A' | 'B' | 'C';
+      cliOverrides.humanBehavior = { pattern: args[i + 1] as 'A' | 'B' | 'C' };
       i++;
     } else if (arg === '--headless' && args[i + 1]) {
-      config.headless = args[i + 1] === 'true';
+      cliOverrides.headless = args[i + 1] === 'true';
       i++;
     } else if (arg === '--no-stealth') {
-      config.stealthEnabled = false;
+      cliOverrides.stealthEnabled = false;
+    } else if (arg === '--workers' && args[i + 1]) {
+      cliOverrides.pool = { workers: parseInt(args[i + 1], 10) };
+      i++;
+    } else if (arg === '--site' && args[i + 1]) {
+      siteId = args[i + 1];
+      i++;
+    } else if (arg === '--job' && args[i + 1]) {
+      jobId = args[i + 1];
+      i++;
+    } else if (arg === '--restart') {
+      restart = true;
+    } else if (arg === '--session' && args[i + 1]) {
+      cliOverrides.session = { name: args[i + 1] };
+      i++;
+    } else if (arg === '--block' && args[i + 1]) {
+      cliOverrides.resources = { rules: [{ action: 'block', resourceTypes: args[i + 1].split(',').map((type) => type.trim()) }] };
+      i++;
+    } else if (arg === '--politeness-override') {
+      cliOverrides.politeness = { override: true };
+    } else if (arg === '--wait' && args[i + 1]) {
+      cliOverrides.navigation = { waitUntil: args[i + 1] as NavigationConfig['waitUntil'] };
+      i++;
     } else if (arg === '--test-rate-limit') {
       testRateLimit = true;
+    } else if (arg === '--listing') {
+      listing = true;
+    } else if (arg === '--max-pages' && args[i + 1]) {
+      maxPages = parseInt(args[i + 1], 10);
+      i++;
+    } else if (arg === '--details') {
+      details = true;
+    } else if (arg === '--output' && args[i + 1]) {
+      output = args[i + 1];
+      i++;
+    } else if (arg === '--format' && args[i + 1]) {
+      format = args[i + 1];
+      i++;
     } else if (arg.startsWith('http')) {
       urls.push(arg);
     }
   }
 
-  if (urls.length === 0) {
+  if (urls.length === 0 && !jobId) {
     console.error('Error: No URLs provided');
     process.exit(1);
   }
 
+  // A job resumed without URLs uses the default site unless --site names it
+  const adapter = siteId ? siteAdapters.get(siteId) : siteAdapters.resolve(urls);
+  const runConfig = buildConfig({ file: configFile, site: siteConfig(adapter), overrides: [cliOverrides] });
+  const exportOptions: ExportOptions | undefined =
+    output || format ? { format: resolveExportFormat(format, output), output } : undefined;
+
   logInfo('Starting scraper', {
+    site: adapter.id,
     urls: urls.length,
     interval,
     config: {
-      headless: config.headless,
-      stealth: config.stealthEnabled,
-      humanBehavior: config.humanBehavior.pattern,
+      headless: runConfig.headless,
+      stealth: runConfig.stealthEnabled,
+      humanBehavior: runConfig.humanBehavior.pattern,
     },
   });
 
   if (testRateLimit) {
-    await runRateLimitTest(urls[0]);
-  } else if (urls.length === 1) {
-    await scrapeSingleUrl(urls[0]);
+    await runRateLimitTest(urls[0], adapter, runConfig);
+  } else if (listing) {
+    await scrapeListingUrl(urls[0], { maxPages, details, intervalMs: interval, config: toOverrides(runConfig) }, exportOptions);
+  } else if (urls.length === 1 && !jobId) {
+    await scrapeSingleUrl(urls[0], adapter, runConfig, exportOptions);
   } else {
-    await scrapeMultipleUrls(urls, interval);
+    await scrapeMultipleUrls(urls, interval, adapter, runConfig, exportOptions, { jobId, requeue: restart ? ['done', 'failed'] : [] });
   }
 }
 
-async function scrapeSingleUrl(url: string): Promise<void> {
-  const scraper = new MercariScraper();
+// Writes the export and reports whether the text summary should still be printed
+function exportResults<T>(
+  records: ExportRecord<T>[],
+  columns: ExportColumn<T>[],
+  exportOptions: ExportOptions | undefined
+): boolean {
+  if (!exportOptions) return true;
+  writeExport(records, columns, exportOptions);
+  if (!exportOptions.output) return false;
+  logInfo('Results exported', { output: exportOptions.output, format: exportOptions.format, records: records.length });
+  return true;
+}
+
+async function scrapeSingleUrl(url: string, adapter: SiteAdapter, settings: ScraperConfig, exportOptions?: ExportOptions): Promise<void> {
+  const scraper = adapter.createScraper(toOverrides(settings));
+  const store = adapter.save && settings.storage.enabled ? await openProductStore(settings.storage, settings.logging.outputDir) : null;
 
   try {
     await scraper.initialize();
     const result = await scraper.scrape(url);
 
+    if (result.success && result.data && store && adapter.save) {
+      const run = await store.startRun('single');
+      await adapter.save(store, result.data, run.runId);
+    }
+
+    if (!exportResults([{ url, result }], adapter.columns, exportOptions)) {
+      return;
+    }
+
     if (result.success && result.data) {
       console.log('\n=== Scrape Result ===');
-      console.log(`Title: ${result.data.title}`);
-      console.log(`Price: ¥${result.data.price?.toLocaleString()}`);
-      console.log(`Status: ${result.data.statusText}`);
+      adapter.describe(result.data).forEach((line) => console.log(line));
       console.log(`Response Time: ${result.banSignals.responseTimeMs}ms`);
+      const degradation = result.banSignals.degradation;
+      if (degradation && degradation.level !== 'none') {
+        console.log(`Degradation: ${degradation.level} (${degradation.signals.map((signal) => signal.detail).join('; ')})`);
+      }
     } else {
       console.log('\n=== Scrape Failed ===');
       console.log(`Error: ${result.error}`);
@@ -111,11 +372,48 @@ async function scrapeSingleUrl(url: string): Promise<void> {
     logError('Scrape failed', error as Error);
   } finally {
     await scraper.close();
+    await store?.close();
   }
 }
 
-async function scrapeMultipleUrls(urls: string[], interval: number): Promise<void> {
-  const results = await batchScrape(urls, interval);
+async function scrapeMultipleUrls(
+  urls: string[],
+  interval: number,
+  adapter: SiteAdapter,
+  settings: ScraperConfig,
+  exportOptions?: ExportOptions,
+  job: { jobId?: string; requeue?: JobItemStatus[] } = {}
+): Promise<void> {
+  const jobId = job.jobId ?? defaultJobId(urls);
+  const queue = await openJobQueue(settings.storage, settings.logging.outputDir);
+  let results: Map<string, ScrapeResult<unknown>>;
+  let summary: JobSummary | null;
+
+  try {
+    if (urls.length === 0 && !(await queue.summarize(jobId))) {
+      throw new Error(`Unknown job "${jobId}"`);
+    }
+    if (job.requeue && job.requeue.length > 0) {
+      await queue.requeue(jobId, job.requeue);
+    }
+
+    // Cancelled URLs stay pending; a second Ctrl-C exits at once and the next run resumes them
+    const controller = new AbortController();
+    process.once('SIGINT', () => {
+      logInfo('Cancelling the running requests; run the same command to resume', { jobId });
+      controller.abort();
+    });
+
+    results = await batchScrape(urls, interval, { adapter, config: toOverrides(settings), queue, jobId, signal: controller.signal });
+    summary = await queue.summarize(jobId);
+  } finally {
+    await queue.close();
+  }
+
+  const records = [...results].map(([url, result]) => ({ url, result }));
+  if (!exportResults(records, adapter.columns, exportOptions)) {
+    return;
+  }
 
   console.log('\n=== Batch Scrape Results ===');
   let successCount = 0;
@@ -125,9 +423,7 @@ async function scrapeMultipleUrls(urls: string[], interval: number): Promise<voi
     if (result.success && result.data) {
       successCount++;
       console.log(`\n[OK] ${url}`);
-      console.log(`  Title: ${result.data.title}`);
-      console.log(`  Price: ¥${result.data.price?.toLocaleString()}`);
-      console.log(`  Status: ${result.data.statusText}`);
+      adapter.describe(result.data).forEach((line) => console.log(`  ${line}`));
     } else {
       failCount++;
       console.log(`\n[FAIL] ${url}`);
@@ -136,56 +432,465 @@ async function scrapeMultipleUrls(urls: string[], interval: number): Promise<voi
   }
 
   console.log(`\n=== Summary ===`);
-  console.log(`Success: ${successCount}/${urls.length}`);
-  console.log(`Failed: ${failCount}/${urls.length}`);
+  console.log(`Success: ${successCount}/${results.size}`);
+  console.log(`Failed: ${failCount}/${results.size}`);
+  if (summary) {
+    printJobSummary(summary);
+    if (summary.pending > 0) {
+      console.log(`Not finished; run "npm start --job ${jobId}" to resume`);
+    } else if (results.size === 0) {
+      console.log(`Job already finished; run "npm start --job ${jobId} --restart" to scrape it again`);
+    }
+  }
 }
 
-async function runRateLimitTest(url: string): Promise<void> {
+function printJobSummary(summary: JobSummary): void {
+  console.log(
+    `Job ${summary.jobId}: ${summary.done}/${summary.total} done, ${summary.failed} failed, ` +
+      `${summary.pending + summary.in_progress} remaining (created ${summary.createdAt})`
+  );
+}
+
+async function runJobCommand(args: string[], settings: ScraperConfig): Promise<void> {
+  const [action, jobId] = args;
+  let interval = 5000;
+  let workers: number | undefined;
+  let siteId: string | undefined;
+
+  for (let i = 2; i < args.length; i++) {
+    if (args[i] === '--interval' && args[i + 1]) {
+      interval = parseInt(args[i + 1], 10);
+      i++;
+    } else if (args[i] === '--workers' && args[i + 1]) {
+      workers = parseInt(args[i + 1], 10);
+      i++;
+    } else if (args[i] === '--site' && args[i + 1]) {
+      siteId = args[i + 1];
+      i++;
+    }
+  }
+
+  if (action !== 'status' && action !== 'retry-failed') {
+    throw new Error(`Unknown job command "${action ?? ''}" (expected status or retry-failed)`);
+  }
+
+  const queue = await openJobQueue(settings.storage, settings.logging.outputDir);
+  if (action === 'retry-failed') {
+    if (!jobId) throw new Error('Usage: job retry-failed <jobId> [--interval <ms>] [--workers <n>] [--site <id>]');
+    const urls = (await queue.listItems(jobId)).map((item) => item.url);
+    await queue.close();
+
+    const adapter = siteId ? siteAdapters.get(siteId) : siteAdapters.resolve(urls);
+    const runConfig = workers !== undefined ? mergeConfig(settings, { pool: { workers } }) : settings;
+    await scrapeMultipleUrls([], interval, adapter, runConfig, undefined, { jobId, requeue: ['failed'] });
+    return;
+  }
+
+  try {
+    if (!jobId) {
+      const jobs = await queue.listJobs();
+      console.log(`\n=== Jobs (${jobs.length}) ===`);
+      for (const info of jobs) {
+        printJobSummary((await queue.summarize(info.jobId))!);
+      }
+      return;
+    }
+
+    const summary = await queue.summarize(jobId);
+    if (!summary) throw new Error(`Unknown job "${jobId}"`);
+    console.log(`\n=== Job ${jobId} ===`);
+    printJobSummary(summary);
+    for (const item of await queue.listItems(jobId, 'failed')) {
+      console.log(`[FAIL] ${item.url}  (${item.attempts} attempts) ${item.errorType ?? ''} ${item.lastError ?? ''}`);
+    }
+    for (const item of await queue.listItems(jobId, 'in_progress')) {
+      // Only a run that is still going, or one that was killed, leaves these behind
+      console.log(`[IN PROGRESS] ${item.url}  since ${item.updatedAt}`);
+    }
+  } finally {
+    await queue.close();
+  }
+}
+
+function formatCookieAge(session: SavedSession): string {
+  const minutes = cookieAgeMinutes(session);
+  if (minutes === null) return 'no cookies';
+  return minutes < 60 ? `cookies ${Math.round(minutes)}m old` : `cookies ${(minutes / 60).toFixed(1)}h old`;
+}
+
+function runSessionCommand(args: string[], settings: ScraperConfig): void {
+  const [action, name] = args;
+  const store = sessionStoreFor(settings.logging.outputDir);
+  const maxAgeIndex = args.indexOf('--max-age-days');
+  const maxAgeDays = maxAgeIndex >= 0 ? parseInt(args[maxAgeIndex + 1], 10) : settings.session.maxAgeDays;
+
+  switch (action) {
+    case 'list': {
+      const sessions = store.list();
+      console.log(`\n=== Sessions (${sessions.length}) ===`);
+      for (const session of sessions) {
+        const { info } = session;
+        const expired = isSessionExpired(info, maxAgeDays) ? '  [EXPIRED]' : '';
+        console.log(
+          `${info.name}  ${info.requestCount} requests, ${formatCookieAge(session)}, last used ${info.lastUsedAt}${expired}`
+        );
+      }
+      break;
+    }
+
+    case 'show': {
+      if (!name) throw new Error('Usage: session show <name>');
+      const session = store.load(name);
+      if (!session) throw new Error(`Unknown session "${name}"`);
+      const { info, state } = session;
+      console.log(`\n=== Session ${name} ===`);
+      console.log(`Session ID: ${info.sessionId}`);
+      console.log(`Created: ${info.createdAt}${isSessionExpired(info, maxAgeDays) ? ' (expired)' : ''}`);
+      console.log(`Last used: ${info.lastUsedAt}`);
+      console.log(`Requests: ${info.requestCount}`);
+      console.log(`Cookies: ${liveCookies(state).length} live of ${state.cookies.length} (${formatCookieAge(session)})`);
+      for (const cookie of state.cookies) {
+        const expires = cookie.expires < 0 ? 'session' : new Date(cookie.expires * 1000).toISOString();
+        console.log(`  ${cookie.name}@${cookie.domain}  expires ${expires}`);
+      }
+      console.log(`Local storage: ${state.origins.map((origin) => `${origin.origin} (${origin.localStorage.length} keys)`).join(', ') || 'none'}`);
+      break;
+    }
+
+    case 'delete':
+      if (!name) throw new Error('Usage: session delete <name>');
+      if (!store.delete(name)) throw new Error(`Unknown session "${name}"`);
+      console.log(`Deleted session ${name}`);
+      break;
+
+    case 'expire': {
+      const removed = store.expire(maxAgeDays);
+      console.log(removed.length > 0 ? `Removed ${removed.join(', ')}` : `No sessions older than ${maxAgeDays} days`);
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown session command "${action ?? ''}" (expected list, show, delete or expire)`);
+  }
+}
+
+async function scrapeListingUrl(
+  url: string,
+  options: { maxPages?: number; details: boolean; intervalMs: number; config: ScraperConfigOverrides },
+  exportOptions?: ExportOptions
+): Promise<void> {
+  const { listing, details } = await scrapeListing(url, options);
+
+  // With --details the item pages are the interesting rows; otherwise export the listing itself
+  const printSummary = options.details
+    ? exportResults([...details].map(([itemUrl, result]) => ({ url: itemUrl, result })), PRODUCT_COLUMNS, exportOptions)
+    : exportResults(listingRecords(listing), LISTING_COLUMNS, exportOptions);
+  if (!printSummary) {
+    return;
+  }
+
+  console.log('\n=== Listing Results ===');
+  for (const item of listing.data ?? []) {
+    const detail = details.get(item.url);
+    console.log(`\n[${item.isSoldOut ? 'SOLD' : 'ON SALE'}] ${item.url}`);
+    console.log(`  Title: ${item.title}`);
+    console.log(`  Price: ¥${item.price?.toLocaleString()}`);
+    if (detail) {
+      console.log(`  Detail: ${detail.success ? detail.data?.statusText : `FAILED (${detail.error})`}`);
+    }
+  }
+
+  console.log(`\n=== Summary ===`);
+  console.log(`Items: ${listing.data?.length ?? 0}`);
+  if (!listing.success) {
+    console.log(`Error: ${listing.error}`);
+    if (isBanned(listing.banSignals)) {
+      console.log(`BAN Reason: ${getBanReason(listing.banSignals)}`);
+    }
+  }
+}
+
+async function runWatch(args: string[], settings: ScraperConfig): Promise<void> {
+  let watchlist: string | undefined;
+  let intervalMs = 5000;
+  let cycleMs = 30 * 60 * 1000;
+  let jitter = 0.2;
+  let once = false;
+  const notifierSpecs: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--interval' && args[i + 1]) {
+      intervalMs = parseInt(args[i + 1], 10);
+      i++;
+    } else if (arg === '--every' && args[i + 1]) {
+      cycleMs = parseInt(args[i + 1], 10);
+      i++;
+    } else if (arg === '--jitter' && args[i + 1]) {
+      jitter = parseFloat(args[i + 1]);
+      i++;
+    } else if (arg === '--notify' && args[i + 1]) {
+      notifierSpecs.push(args[i + 1]);
+      i++;
+    } else if (arg === '--once') {
+      once = true;
+    } else {
+      watchlist = arg;
+    }
+  }
+
+  if (!watchlist) {
+    console.error('Error: No watchlist file provided');
+    process.exit(1);
+  }
+
+  const urls = loadWatchlist(watchlist);
+  const notifiers = (notifierSpecs.length > 0 ? notifierSpecs : ['stdout']).map(createNotifier);
+  const store = settings.storage.enabled ? await openProductStore(settings.storage, settings.logging.outputDir) : null;
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    logInfo('Stopping watch after the current request');
+    controller.abort();
+  });
+
+  try {
+    await watch({
+      urls,
+      intervalMs,
+      cycleMs,
+      jitter,
+      notifiers,
+      store,
+      maxCycles: once ? 1 : undefined,
+      signal: controller.signal,
+      config: toOverrides(settings),
+    });
+  } finally {
+    await store?.close();
+  }
+}
+
+async function runExperimentCommand(args: string[], settings: ScraperConfig): Promise<void> {
+  let file: string | undefined;
+  let restart = false;
+  let dryRun = false;
+
+  for (const arg of args) {
+    if (arg === '--restart') {
+      restart = true;
+    } else if (arg === '--dry-run') {
+      dryRun = true;
+    } else {
+      file = arg;
+    }
+  }
+
+  if (!file) {
+    console.error('Error: No experiment file provided');
+    process.exit(1);
+  }
+
+  const definition = loadExperimentFile(file);
+
+  if (dryRun) {
+    const runs = expandExperiment(definition);
+    console.log(`\n=== Experiment ${definition.id}: ${runs.length} runs x ${definition.requestsPerRun} requests ===`);
+    for (const run of runs) {
+      console.log(`${run.runId}  ${JSON.stringify(run.variables)}`);
+    }
+    return;
+  }
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    logInfo('Stopping experiment after the current request; run the same command to resume');
+    controller.abort();
+  });
+
+  const summary = await runExperiment(definition, { restart, signal: controller.signal, config: toOverrides(settings) });
+  printExperimentSummary(summary);
+}
+
+function printExperimentSummary(summary: ExperimentSummary): void {
+  console.log(`\n=== Experiment ${summary.experimentId} ===`);
+  for (const run of summary.runs) {
+    const state = summary.state.runs[run.runId];
+    const counts = state ? `${state.successes}/${state.requests} ok, ${state.bans} bans` : '-';
+    const status = state?.stopReason ? `${state.status} (${state.stopReason})` : state?.status ?? 'pending';
+    console.log(`${run.runId}  ${JSON.stringify(run.variables)}  ${counts}  ${status}`);
+  }
+  if (summary.state.stopReason) {
+    console.log(`\nStopped: ${summary.state.stopReason}`);
+  } else if (!summary.completed) {
+    console.log('\nNot finished; run the same command again to resume');
+  }
+}
+
+async function runSelectorsCommand(args: string[], settings: ScraperConfig): Promise<void> {
+  const [action, target, option, siteId] = args;
+  if (action !== 'check' || !target || (option !== undefined && (option !== '--site' || !siteId))) {
+    console.error('Usage: selectors check <url|file> [--site <id>]');
+    process.exit(1);
+  }
+
+  const adapter = siteId ? siteAdapters.get(siteId) : siteAdapters.resolve([target]);
+  const scraper = adapter.createScraper(mergeOverrides(siteConfig(adapter), toOverrides(settings)));
+  try {
+    await scraper.initialize();
+    const probes = await scraper.checkSelectors(target);
+
+    console.log(`\n=== Selector Check: ${target} ===\n`);
+    console.log(renderSelectorTable(probes));
+    // Non-zero exit lets a scheduled check fail loudly when the markup drifts
+    if (driftedProbes(probes).length > 0) {
+      process.exitCode = 1;
+    }
+  } finally {
+    await scraper.close();
+  }
+}
+
+async function runStoreQuery(args: string[], settings: ScraperConfig): Promise<void> {
+  const [query, itemId] = args;
+  const store = await openProductStore(settings.storage, settings.logging.outputDir);
+
+  try {
+    switch (query) {
+      case 'items':
+        for (const id of await store.listItemIds()) {
+          const latest = await store.getLatest(id);
+          console.log(`${id}  ¥${latest?.product.price?.toLocaleString()}  ${latest?.product.statusText}  ${latest?.product.title}`);
+        }
+        break;
+
+      case 'history':
+        if (!itemId) throw new Error('Usage: store history <itemId>');
+        console.log(`\n=== Price History: ${itemId} ===`);
+        for (const point of await store.getPriceHistory(itemId)) {
+          console.log(`${point.observedAt}  ¥${point.price?.toLocaleString()}`);
+        }
+        break;
+
+      case 'sold': {
+        if (!itemId) throw new Error('Usage: store sold <itemId>');
+        const soldAt = await store.getSoldAt(itemId);
+        console.log(soldAt ? `${itemId} first seen sold at ${soldAt}` : `${itemId} has not been seen sold`);
+        break;
+      }
+
+      case 'changes': {
+        const changes = await store.getChangesSinceLastRun(itemId);
+        console.log(`\n=== Changed Items (${changes.length}) ===`);
+        for (const change of changes) {
+          const fields = change.previous ? change.changedFields.join(', ') : 'new';
+          console.log(`${change.itemId}  ${fields}`);
+          if (change.previous && change.changedFields.includes('price')) {
+            console.log(`  Price: ¥${change.previous.product.price?.toLocaleString()} -> ¥${change.current.product.price?.toLocaleString()}`);
+          }
+        }
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown store query "${query ?? ''}" (expected items, history, sold or changes)`);
+    }
+  } finally {
+    await store.close();
+  }
+}
+
+function runAnalyze(args: string[], settings: ScraperConfig): void {
+  const files: string[] = [];
+  let groupBy = DEFAULT_GROUP_BY;
+  let format = 'md';
+  let output: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--group-by' && args[i + 1]) {
+      groupBy = parseGroupBy(args[i + 1]);
+      i++;
+    } else if (arg === '--format' && args[i + 1]) {
+      format = args[i + 1];
+      i++;
+    } else if (arg === '--output' && args[i + 1]) {
+      output = args[i + 1];
+      i++;
+    } else {
+      files.push(arg);
+    }
+  }
+
+  if (files.length === 0) {
+    files.push(`${settings.logging.outputDir}/requests.jsonl`);
+  }
+  if (format !== 'md' && format !== 'json') {
+    console.error(`Error: Unknown format "${format}" (expected md or json)`);
+    process.exit(1);
+  }
+
+  const logs = loadRequestLogs(files);
+  const report = analyzeRequestLogs(logs, { groupBy, sources: files });
+  const rendered = format === 'json' ? renderJsonReport(report) : renderMarkdownReport(report);
+
+  if (output) {
+    fs.writeFileSync(output, rendered);
+    logInfo('Report written', { output, requests: report.totalRequests, groups: report.groups.length });
+  } else {
+    console.log(rendered);
+  }
+}
+
+async function runRateLimitTest(url: string, adapter: SiteAdapter, settings: ScraperConfig): Promise<void> {
   console.log('\n=== Rate Limit Test ===');
   console.log('Testing with decreasing intervals to find BAN threshold\n');
 
   const intervals = [60000, 30000, 15000, 10000, 5000, 3000];
   const requestsPerInterval = 5;
+  // One browser for the whole test; each interval gets a fresh context
+  const browsers = new BrowserManager(settings);
 
-  for (const interval of intervals) {
-    console.log(`\nTesting interval: ${interval}ms`);
+  try {
+    for (const interval of intervals) {
+      console.log(`\nTesting interval: ${interval}ms`);
 
-    const scraper = new MercariScraper();
-    let banned = false;
+      // The interval under test is the limiter's minimum; it never relaxes below it
+      const scraper = adapter.createScraper(mergeOverrides(toOverrides(settings), { rateLimit: { minIntervalMs: interval } }));
+      let banned = false;
 
-    try {
-      await scraper.initialize();
+      try {
+        await scraper.initialize(browsers);
 
-      for (let i = 0; i < requestsPerInterval; i++) {
-        const result = await scraper.scrape(url);
+        for (let i = 0; i < requestsPerInterval; i++) {
+          const result = await scraper.scrape(url);
 
-        if (isBanned(result.banSignals)) {
-          console.log(`  [BAN] Request ${i + 1}: ${getBanReason(result.banSignals)}`);
-          banned = true;
-          break;
-        } else {
-          console.log(`  [OK] Request ${i + 1}: ${result.banSignals.responseTimeMs}ms`);
+          if (isBanned(result.banSignals)) {
+            console.log(`  [BAN] Request ${i + 1}: ${getBanReason(result.banSignals)}`);
+            banned = true;
+            break;
+          } else {
+            console.log(`  [OK] Request ${i + 1}: ${result.banSignals.responseTimeMs}ms`);
+          }
         }
 
-        if (i < requestsPerInterval - 1) {
-          await new Promise((resolve) => setTimeout(resolve, interval));
+        if (banned) {
+          console.log(`\n!!! BAN detected at ${interval}ms interval !!!`);
+          console.log(`Recommended safe interval: ${interval * 2}ms or higher`);
+          break;
         }
+      } catch (error) {
+        logError('Rate limit test failed', error as Error);
+      } finally {
+        await scraper.close();
       }
 
-      if (banned) {
-        console.log(`\n!!! BAN detected at ${interval}ms interval !!!`);
-        console.log(`Recommended safe interval: ${interval * 2}ms or higher`);
-        break;
-      }
-    } catch (error) {
-      logError('Rate limit test failed', error as Error);
-    } finally {
-      await scraper.close();
+      // Wait between interval tests
+      console.log('  Waiting 30s before next interval test...');
+      await new Promise((resolve) => setTimeout(resolve, 30000));
     }
-
-    // Wait between interval tests
-    console.log('  Waiting 30s before next interval test...');
-    await new Promise((resolve) => setTimeout(resolve, 30000));
+  } finally {
+    await browsers.close();
   }
 
   console.log('\n=== Test Complete ===');
@@ -0,0 +1,312 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type BetterSqlite3 from 'better-sqlite3';
+import { config, ScraperConfig } from './config.js';
+import type { ScrapeErrorType } from './errors.js';
+import { logInfo, logWarn } from './logger.js';
+
+// in_progress: handed to a worker; left behind by a crash or kill and reset to pending on resume
+export type JobItemStatus = 'pending' | 'in_progress' | 'done' | 'failed';
+
+export interface JobItem {
+  jobId: string;
+  url: string;
+  // Order the URL was added in
+  position: number;
+  status: JobItemStatus;
+  // Times the item was handed to a worker, across restarts
+  attempts: number;
+  lastError: string | null;
+  errorType: ScrapeErrorType | null;
+  updatedAt: string;
+}
+
+export interface JobInfo {
+  jobId: string;
+  createdAt: string;
+}
+
+export type JobSummary = JobInfo & Record<JobItemStatus, number> & { total: number };
+
+export interface JobOutcome {
+  // done on success, failed on error; pending puts a cancelled item back in line
+  status: Exclude<JobItemStatus, 'in_progress'>;
+  error?: string;
+  errorType?: ScrapeErrorType;
+}
+
+// Same URL list, same job: restarting a batch without naming it resumes it
+export function defaultJobId(urls: string[]): string {
+  return `job-${crypto.createHash('sha256').update([...new Set(urls)].sort().join('\n')).digest('hex').substring(0, 12)}`;
+}
+
+// Durable per-URL progress of a batch. Backends implement the primitives; summaries are shared
+export abstract class JobQueue {
+  abstract readonly kind: 'sqlite' | 'json';
+
+  // Creates the job if needed and appends the URLs it does not have yet. Returns how many were added
+  abstract addItems(jobId: string, urls: string[]): Promise<number>;
+  abstract listJobs(): Promise<JobInfo[]>;
+  // In position order
+  abstract listItems(jobId: string, status?: JobItemStatus): Promise<JobItem[]>;
+  abstract markStarted(jobId: string, url: string): Promise<void>;
+  abstract markFinished(jobId: string, url: string, outcome: JobOutcome): Promise<void>;
+  // Moves items in the given statuses back to pending. Returns how many moved
+  abstract requeue(jobId: string, from: JobItemStatus[]): Promise<number>;
+  abstract close(): Promise<void>;
+
+  async summarize(jobId: string): Promise<JobSummary | null> {
+    const job = (await this.listJobs()).find((info) => info.jobId === jobId);
+    if (!job) return null;
+
+    const counts = { pending: 0, in_progress: 0, done: 0, failed: 0 };
+    const items = await this.listItems(jobId);
+    for (const item of items) {
+      counts[item.status]++;
+    }
+    return { ...job, ...counts, total: items.length };
+  }
+
+  // Adds the URLs, returns work a crash left in progress to the queue and lists what is left.
+  // Only an unfinished job is resumed: given its URLs again, a finished job starts a new run;
+  // resumed by ID alone it has nothing left
+  async resume(jobId: string, urls: string[] = []): Promise<JobItem[]> {
+    const before = await this.summarize(jobId);
+    if (before && before.total > 0 && before.pending + before.in_progress === 0) {
+      if (urls.length === 0) {
+        logWarn('Job already finished; pass --restart to scrape it again', { jobId, done: before.done, failed: before.failed });
+        return [];
+      }
+      logInfo('Job already finished; scraping its URLs again', { jobId, total: before.total });
+      await this.requeue(jobId, ['done', 'failed']);
+    }
+    const added = await this.addItems(jobId, urls);
+    const interrupted = await this.requeue(jobId, ['in_progress']);
+    const pending = await this.listItems(jobId, 'pending');
+    logInfo('Job resumed', { jobId, added, interrupted, pending: pending.length });
+    return pending;
+  }
+}
+
+interface JsonQueueFile {
+  version: 1;
+  jobs: Record<string, JobInfo & { items: JobItem[] }>;
+}
+
+export class JsonJobQueue extends JobQueue {
+  readonly kind = 'json' as const;
+  private data: JsonQueueFile;
+
+  constructor(private readonly filePath: string) {
+    super();
+    this.data = fs.existsSync(filePath)
+      ? (JSON.parse(fs.readFileSync(filePath, 'utf-8')) as JsonQueueFile)
+      : { version: 1, jobs: {} };
+  }
+
+  private flush(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write to a temp file first so a crash never leaves a truncated queue
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(this.data));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  private item(jobId: string, url: string): JobItem {
+    const item = this.data.jobs[jobId]?.items.find((candidate) => candidate.url === url);
+    if (!item) {
+      throw new Error(`Job ${jobId} has no item ${url}`);
+    }
+    return item;
+  }
+
+  async addItems(jobId: string, urls: string[]): Promise<number> {
+    const now = new Date().toISOString();
+    const job = (this.data.jobs[jobId] ??= { jobId, createdAt: now, items: [] });
+    const known = new Set(job.items.map((item) => item.url));
+    let added = 0;
+    for (const url of urls) {
+      if (known.has(url)) continue;
+      known.add(url);
+      job.items.push({ jobId, url, position: job.items.length, status: 'pending', attempts: 0, lastError: null, errorType: null, updatedAt: now });
+      added++;
+    }
+    this.flush();
+    return added;
+  }
+
+  async listJobs(): Promise<JobInfo[]> {
+    return Object.values(this.data.jobs)
+      .map(({ jobId, createdAt }) => ({ jobId, createdAt }))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async listItems(jobId: string, status?: JobItemStatus): Promise<JobItem[]> {
+    return (this.data.jobs[jobId]?.items ?? []).filter((item) => !status || item.status === status).map((item) => ({ ...item }));
+  }
+
+  async markStarted(jobId: string, url: string): Promise<void> {
+    const item = this.item(jobId, url);
+    item.status = 'in_progress';
+    item.attempts++;
+    item.updatedAt = new Date().toISOString();
+    this.flush();
+  }
+
+  async markFinished(jobId: string, url: string, outcome: JobOutcome): Promise<void> {
+    const item = this.item(jobId, url);
+    item.status = outcome.status;
+    item.lastError = outcome.error ?? null;
+    item.errorType = outcome.errorType ?? null;
+    item.updatedAt = new Date().toISOString();
+    this.flush();
+  }
+
+  async requeue(jobId: string, from: JobItemStatus[]): Promise<number> {
+    const items = (this.data.jobs[jobId]?.items ?? []).filter((item) => from.includes(item.status));
+    const now = new Date().toISOString();
+    for (const item of items) {
+      item.status = 'pending';
+      item.updatedAt = now;
+    }
+    if (items.length > 0) this.flush();
+    return items.length;
+  }
+
+  async close(): Promise<void> {
+    // Every write is flushed immediately
+  }
+}
+
+interface JobItemRow {
+  job_id: string;
+  url: string;
+  position: number;
+  status: JobItemStatus;
+  attempts: number;
+  last_error: string | null;
+  error_type: ScrapeErrorType | null;
+  updated_at: string;
+}
+
+const SQLITE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS jobs (
+    job_id TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS job_items (
+    job_id TEXT NOT NULL,
+    url TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    error_type TEXT,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (job_id, url)
+  );
+  CREATE INDEX IF NOT EXISTS job_items_status ON job_items (job_id, status, position);
+`;
+
+function toJobItem(row: JobItemRow): JobItem {
+  return {
+    jobId: row.job_id,
+    url: row.url,
+    position: row.position,
+    status: row.status,
+    attempts: row.attempts,
+    lastError: row.last_error,
+    errorType: row.error_type,
+    updatedAt: row.updated_at,
+  };
+}
+
+export class SqliteJobQueue extends JobQueue {
+  readonly kind = 'sqlite' as const;
+
+  constructor(private readonly db: BetterSqlite3.Database) {
+    super();
+    db.pragma('journal_mode = WAL');
+    db.exec(SQLITE_SCHEMA);
+  }
+
+  async addItems(jobId: string, urls: string[]): Promise<number> {
+    const now = new Date().toISOString();
+    const insert = this.db.transaction(() => {
+      this.db.prepare('INSERT OR IGNORE INTO jobs (job_id, created_at) VALUES (?, ?)').run(jobId, now);
+      const { count } = this.db.prepare('SELECT COUNT(*) AS count FROM job_items WHERE job_id = ?').get(jobId) as { count: number };
+      const statement = this.db.prepare(
+        "INSERT OR IGNORE INTO job_items (job_id, url, position, status, updated_at) VALUES (?, ?, ?, 'pending', ?)"
+      );
+      let added = 0;
+      for (const url of urls) {
+        added += statement.run(jobId, url, count + added, now).changes;
+      }
+      return added;
+    });
+    return insert();
+  }
+
+  async listJobs(): Promise<JobInfo[]> {
+    const rows = this.db.prepare('SELECT job_id, created_at FROM jobs ORDER BY created_at, rowid').all() as Array<{
+      job_id: string;
+      created_at: string;
+    }>;
+    return rows.map((row) => ({ jobId: row.job_id, createdAt: row.created_at }));
+  }
+
+  async listItems(jobId: string, status?: JobItemStatus): Promise<JobItem[]> {
+    const rows = status
+      ? this.db.prepare('SELECT * FROM job_items WHERE job_id = ? AND status = ? ORDER BY position').all(jobId, status)
+      : this.db.prepare('SELECT * FROM job_items WHERE job_id = ? ORDER BY position').all(jobId);
+    return (rows as JobItemRow[]).map(toJobItem);
+  }
+
+  async markStarted(jobId: string, url: string): Promise<void> {
+    this.db
+      .prepare("UPDATE job_items SET status = 'in_progress', attempts = attempts + 1, updated_at = ? WHERE job_id = ? AND url = ?")
+      .run(new Date().toISOString(), jobId, url);
+  }
+
+  async markFinished(jobId: string, url: string, outcome: JobOutcome): Promise<void> {
+    this.db
+      .prepare('UPDATE job_items SET status = ?, last_error = ?, error_type = ?, updated_at = ? WHERE job_id = ? AND url = ?')
+      .run(outcome.status, outcome.error ?? null, outcome.errorType ?? null, new Date().toISOString(), jobId, url);
+  }
+
+  async requeue(jobId: string, from: JobItemStatus[]): Promise<number> {
+    if (from.length === 0) return 0;
+    return this.db
+      .prepare(`UPDATE job_items SET status = 'pending', updated_at = ? WHERE job_id = ? AND status IN (${from.map(() => '?').join(', ')})`)
+      .run(new Date().toISOString(), jobId, ...from).changes;
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
+
+// jobs.db next to the product store, or jobs.json when SQLite is not selected or not installed
+export async function openJobQueue(
+  storage: ScraperConfig['storage'] = config.storage,
+  outputDir: string = config.logging.outputDir
+): Promise<JobQueue> {
+  if (storage.type === 'sqlite') {
+    const dbPath = path.join(outputDir, 'jobs.db');
+    try {
+      const { default: Database } = await import('better-sqlite3');
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+      const queue = new SqliteJobQueue(new Database(dbPath));
+      logInfo('Job queue opened', { kind: queue.kind, path: dbPath });
+      return queue;
+    } catch (error) {
+      logWarn('SQLite job queue unavailable, falling back to JSON file', { error: (error as Error).message });
+    }
+  }
+
+  const jsonPath = path.join(outputDir, 'jobs.json');
+  const queue = new JsonJobQueue(jsonPath);
+  logInfo('Job queue opened', { kind: queue.kind, path: jsonPath });
+  return queue;
+}
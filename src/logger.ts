@@ -1,6 +1,9 @@
 import winston from 'winston';
 import path from 'path';
-import { config } from './config.js';
+import { config, ExperimentTag, ScraperConfig } from './config.js';
+import type { TriggeredRule } from './ban-rules.js';
+import type { Degradation } from './degradation.js';
+import type { RequestArtifacts } from './artifacts.js';
 
 export interface RequestLog {
   timestamp: string;
@@ -22,23 +25,86 @@ export interface RequestLog {
     loadTimeMs: number;
     contentLength?: number;
   };
+  // Traffic of the navigation (see NetworkSummary); older logs do not have it
+  network?: {
+    requestCount: number;
+    totalBytes: number;
+    redirectChain: Array<{ url: string; status: number }>;
+    subresourceFailures: number;
+    cfRay: string | null;
+    setCookies: string[];
+    // Requests loaded and aborted by the resource guard, when resources.rules or a byte budget are set
+    blocking?: {
+      loaded: number;
+      blocked: number;
+      byType: Record<string, number>;
+      overBudget: number;
+    };
+    // Relative to the log directory, when logging.har is on
+    harFile?: string;
+  };
   banSignals: {
     captchaDetected: boolean;
     httpError: number | null;
     unexpectedRedirect: boolean;
     contentMissing: boolean;
     jsChallenge: boolean;
+    // Rules that fired (see BanSignals.rules); older logs only have the flags
+    rules?: TriggeredRule[];
+    degradation?: Degradation;
+  };
+  attempt?: number;
+  error?: {
+    type: string;
+    message: string;
+  };
+  rateControl?: {
+    waitedMs: number;
+    waitReason: string;
+    currentIntervalMs: number;
+    requestsLastHour: number;
+    requestsLastDay: number;
+    retryAfterMs: number | null;
+    action: 'none' | 'backoff' | 'relax';
+    backoffMs?: number;
+    backoffUntil?: string;
+  };
+  politeness?: {
+    // How robots.txt was read for the URL's site; off when politeness.robotsTxt is false
+    robots: 'parsed' | 'missing' | 'unreachable' | 'off';
+    crawlDelayMs: number | null;
+    // Spent waiting for a free connection to the host or for its minimum gap
+    hostWaitedMs: number;
+    // The refusal politeness.override went past
+    overridden?: string;
   };
   scrapedData?: {
     titleExtracted: boolean;
     priceExtracted: boolean;
     soldStatusExtracted: boolean;
+    // Product schema the fields refer to, and whether each field was found
+    schemaVersion?: number;
+    fields?: Record<string, boolean>;
+    // Where each found field came from: api, next-data, json-ld or dom
+    sources?: Record<string, string>;
+    // Index of the selector that matched in each group looked up, null when none did
+    selectors?: Record<string, number | null>;
+    // Assessed item status (on_sale, trading, sold_out, deleted, unknown) and its confidence
+    status?: string;
+    statusConfidence?: number;
   };
   session: {
     sessionId: string;
     requestCountInSession: number;
     sessionDurationMinutes: number;
+    // The persisted session (config.session.name) and the age of the cookies it was restored
+    // with; null cookie age means it started without cookies
+    name?: string;
+    cookieAgeMinutes?: number | null;
   };
+  // Screenshot, HTML, console and trace saved for a failed (or, in debug mode, any) request
+  artifacts?: RequestArtifacts;
+  experiment?: ExperimentTag;
 }
 
 const logFormat = winston.format.combine(
@@ -46,32 +112,79 @@ const logFormat = winston.format.combine(
   winston.format.json()
 );
 
+function fileTransports(outputDir: string): winston.transport[] {
+  return [
+    new winston.transports.File({
+      filename: path.join(outputDir, 'error.log'),
+      level: 'error',
+    }),
+    new winston.transports.File({
+      filename: path.join(outputDir, 'combined.log'),
+    }),
+    new winston.transports.File({
+      filename: path.join(outputDir, 'requests.jsonl'),
+      level: 'info',
+    }),
+  ];
+}
+
+let outputDir = config.logging.outputDir;
+let outputTransports = fileTransports(outputDir);
+
+// requests.jsonl writers of scrapers whose logging.outputDir is not the process log directory
+const requestLoggers = new Map<string, winston.Logger>();
+
 const logger = winston.createLogger({
   level: config.logging.level,
   format: logFormat,
   transports: [
+    // Logs go to stderr so exports and reports printed to stdout can be piped
     new winston.transports.Console({
+      stderrLevels: ['error', 'warn', 'info', 'debug'],
       format: winston.format.combine(
         winston.format.colorize(),
         winston.format.simple()
       ),
     }),
-    new winston.transports.File({
-      filename: path.join(config.logging.outputDir, 'error.log'),
-      level: 'error',
-    }),
-    new winston.transports.File({
-      filename: path.join(config.logging.outputDir, 'combined.log'),
-    }),
-    new winston.transports.File({
-      filename: path.join(config.logging.outputDir, 'requests.jsonl'),
-      level: 'info',
-    }),
+    ...outputTransports,
   ],
 });
 
-export function logRequest(log: RequestLog): void {
-  logger.info('request', log);
+// Re-points the log files and level, e.g. after the CLI has read --config
+export function configureLogger(logging: Pick<ScraperConfig['logging'], 'level' | 'outputDir'>): void {
+  logger.level = logging.level;
+  for (const transport of outputTransports) {
+    logger.remove(transport);
+    transport.close?.();
+  }
+  outputDir = logging.outputDir;
+  outputTransports = fileTransports(outputDir);
+  for (const transport of outputTransports) {
+    logger.add(transport);
+  }
+}
+
+function requestLoggerFor(dir: string): winston.Logger {
+  let requestLogger = requestLoggers.get(dir);
+  if (!requestLogger) {
+    requestLogger = winston.createLogger({
+      level: 'info',
+      format: logFormat,
+      transports: [new winston.transports.File({ filename: path.join(dir, 'requests.jsonl') })],
+    });
+    requestLoggers.set(dir, requestLogger);
+  }
+  return requestLogger;
+}
+
+// Written to requests.jsonl in logging.outputDir, next to the scraper's artifacts and HAR files;
+// without it, or when it is the process log directory, along with the other logs
+export function logRequest(log: RequestLog, logging?: Pick<ScraperConfig['logging'], 'outputDir'>): void {
+  if (!logging || path.resolve(logging.outputDir) === path.resolve(outputDir)) {
+    logger.info('request', log);
+    return;
+  }
+  requestLoggerFor(path.resolve(logging.outputDir)).info('request', log);
 }
 
 export function logInfo(message: string, meta?: Record<string, unknown>): void {
@@ -0,0 +1,19 @@
+import type { SiteAdapter } from './site-adapter.js';
+import { MercariScraper, MercariProduct } from './mercari-scraper.js';
+import { PRODUCT_COLUMNS } from './exporter.js';
+
+// The built-in defaults are Mercari's (Japan fingerprint, 5s interval, the registered ban rules),
+// so the adapter adds no config of its own
+export const mercariAdapter: SiteAdapter<MercariProduct> = {
+  id: 'mercari',
+  name: 'メルカリ',
+  hosts: ['jp.mercari.com'],
+  createScraper: (settings, rateLimiter) => new MercariScraper(settings, rateLimiter),
+  describe: (product) => [
+    `Title: ${product.title}`,
+    `Price: ¥${product.price?.toLocaleString()}`,
+    `Status: ${product.statusText} (confidence ${product.statusConfidence ?? 0})`,
+  ],
+  columns: PRODUCT_COLUMNS,
+  save: (store, product, runId) => store.save(product, runId),
+};
@@ -0,0 +1,290 @@
+import type { ElementHandle } from 'playwright';
+import { BaseScraper, ScrapeResult } from './scraper.js';
+import { ScrapeErrorType } from './errors.js';
+import type { ScraperConfigOverrides } from './config.js';
+import { MERCARI_SELECTORS, MercariProduct, parsePrice, extractItemId } from './mercari-scraper.js';
+import { batchScrape } from './batch.js';
+import { BrowserManager } from './browser-manager.js';
+import { mercariAdapter } from './mercari-adapter.js';
+import { logInfo, logDebug, logWarn } from './logger.js';
+
+export interface MercariListing {
+  itemId: string;
+  url: string;
+  title: string | null;
+  price: number | null;
+  thumbnailUrl: string | null;
+  isSoldOut: boolean;
+  // 1-based page the item was found on
+  page: number;
+}
+
+export interface ListingScrapeOptions {
+  // 'auto' scrolls each page until no new items appear, then follows the next-page link
+  paging?: 'auto' | 'scroll' | 'pagination';
+  maxPages?: number;
+  maxItems?: number;
+  maxScrolls?: number;
+  pageIntervalMs?: number;
+}
+
+export interface ListingWithDetails {
+  listing: ScrapeResult<MercariListing[]>;
+  details: Map<string, ScrapeResult<MercariProduct>>;
+}
+
+// Selectors for Mercari search results and category listings
+export const MERCARI_LISTING_SELECTORS = {
+  itemCell: [
+    'li[data-testid="item-cell"]',
+    '[data-testid="item-cell"]',
+    'mer-item-thumbnail',
+  ],
+  itemLink: [
+    'a[data-testid="thumbnail-link"]',
+    'a[href*="/item/m"]',
+  ],
+  thumbnail: [
+    'img',
+  ],
+  title: [
+    '[data-testid="thumbnail-item-name"]',
+    'span[class*="itemName"]',
+  ],
+  price: [
+    '.merPrice',
+    '[data-testid="price"]',
+    '[class*="price"]',
+  ],
+  nextPage: [
+    '[data-testid="pagination-next-button"] a',
+    'a[data-testid="pagination-next-button"]',
+    'a[rel="next"]',
+  ],
+};
+
+const DEFAULT_LISTING_OPTIONS: Required<ListingScrapeOptions> = {
+  paging: 'auto',
+  maxPages: 5,
+  maxItems: 500,
+  maxScrolls: 20,
+  pageIntervalMs: 3000,
+};
+
+export class MercariListingScraper extends BaseScraper<MercariListing[]> {
+  protected contentSelectors(): string[] {
+    return MERCARI_LISTING_SELECTORS.itemCell;
+  }
+
+  async scrape(url: string, options: ListingScrapeOptions = {}): Promise<ScrapeResult<MercariListing[]>> {
+    const opts = { ...DEFAULT_LISTING_OPTIONS, ...options };
+    logInfo('Starting Mercari listing scrape', { url, paging: opts.paging, maxPages: opts.maxPages });
+
+    const listings = new Map<string, MercariListing>();
+    let pageUrl: string | null = url;
+    let pageNumber = 0;
+    let lastResult: ScrapeResult<void> | null = null;
+
+    while (pageUrl && pageNumber < opts.maxPages && listings.size < opts.maxItems) {
+      if (pageNumber > 0) {
+        await new Promise((resolve) => setTimeout(resolve, opts.pageIntervalMs));
+      }
+
+      pageNumber++;
+      const navResult = await this.navigate(pageUrl);
+      lastResult = navResult;
+
+      if (!navResult.success) {
+        // Keep what earlier pages produced; the caller sees the failure and the partial list
+        return {
+          success: false,
+          data: [...listings.values()],
+          banSignals: navResult.banSignals,
+          error: navResult.error,
+          errorType: navResult.errorType,
+        };
+      }
+
+      try {
+        if (opts.paging !== 'pagination') {
+          await this.scrollUntilExhausted(opts.maxScrolls, opts.maxItems);
+        }
+
+        const pageItems = await this.extractListings(pageUrl, pageNumber);
+        let added = 0;
+        for (const item of pageItems) {
+          if (listings.size >= opts.maxItems) break;
+          if (!listings.has(item.itemId)) {
+            listings.set(item.itemId, item);
+            added++;
+          }
+        }
+        logDebug('Listing page extracted', { page: pageNumber, found: pageItems.length, added });
+
+        if (added === 0) break;
+
+        pageUrl = opts.paging === 'scroll' ? null : await this.findNextPageUrl(pageUrl);
+      } catch (error) {
+        await this.captureEvidence(`Extraction error: ${(error as Error).message}`);
+        return {
+          success: false,
+          data: [...listings.values()],
+          banSignals: navResult.banSignals,
+          error: (error as Error).message,
+          errorType: ScrapeErrorType.Extraction,
+        };
+      }
+    }
+
+    const data = [...listings.values()];
+    logInfo('Listing scrape complete', { url, pages: pageNumber, items: data.length });
+
+    if (data.length === 0) {
+      await this.captureEvidence('No listing items found');
+      return {
+        success: false,
+        data,
+        banSignals: { ...lastResult!.banSignals, contentMissing: true },
+        error: 'No listing items found - page may be blocked or empty',
+        errorType: ScrapeErrorType.Extraction,
+      };
+    }
+
+    return { success: true, data, banSignals: lastResult!.banSignals };
+  }
+
+  // Infinite scroll: keep scrolling to the bottom while new cells keep appearing
+  private async scrollUntilExhausted(maxScrolls: number, maxItems: number): Promise<void> {
+    if (!this.page) return;
+
+    let previousCount = await this.countItemCells();
+    for (let i = 0; i < maxScrolls && previousCount < maxItems; i++) {
+      await this.page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+      await this.page.waitForTimeout(800 + Math.random() * 700);
+
+      const count = await this.countItemCells();
+      if (count <= previousCount) break;
+      logDebug('Infinite scroll loaded more items', { count });
+      previousCount = count;
+    }
+  }
+
+  private async countItemCells(): Promise<number> {
+    return (await this.findItemCells()).length;
+  }
+
+  private async findItemCells(): Promise<ElementHandle[]> {
+    if (!this.page) return [];
+    for (const selector of MERCARI_LISTING_SELECTORS.itemCell) {
+      const cells = await this.page.$$(selector);
+      if (cells.length > 0) return cells;
+    }
+    return [];
+  }
+
+  private async extractListings(pageUrl: string, pageNumber: number): Promise<MercariListing[]> {
+    const cells = await this.findItemCells();
+    const listings: MercariListing[] = [];
+
+    for (const cell of cells) {
+      const href = await this.cellAttribute(cell, MERCARI_LISTING_SELECTORS.itemLink, 'href');
+      const itemId = href ? extractItemId(href) : null;
+      if (!href || !itemId) {
+        logWarn('Skipping listing cell without item link', { pageUrl });
+        continue;
+      }
+
+      const title = (await this.cellText(cell, MERCARI_LISTING_SELECTORS.title))
+        ?? (await this.cellAttribute(cell, MERCARI_LISTING_SELECTORS.thumbnail, 'alt'));
+      const priceText = await this.cellText(cell, MERCARI_LISTING_SELECTORS.price);
+
+      listings.push({
+        itemId,
+        url: new URL(href, pageUrl).toString(),
+        title,
+        price: priceText ? parsePrice(priceText) : null,
+        thumbnailUrl: await this.cellAttribute(cell, MERCARI_LISTING_SELECTORS.thumbnail, 'src'),
+        isSoldOut: await this.cellHasAny(cell, MERCARI_SELECTORS.soldOutBadge),
+        page: pageNumber,
+      });
+    }
+
+    return listings;
+  }
+
+  private async findNextPageUrl(pageUrl: string): Promise<string | null> {
+    if (!this.page) return null;
+    for (const selector of MERCARI_LISTING_SELECTORS.nextPage) {
+      const element = await this.page.$(selector);
+      const href = element ? await element.getAttribute('href') : null;
+      if (href) {
+        return new URL(href, pageUrl).toString();
+      }
+    }
+    return null;
+  }
+
+  private async cellText(cell: ElementHandle, selectors: string[]): Promise<string | null> {
+    for (const selector of selectors) {
+      const element = await cell.$(selector);
+      const text = element ? await element.textContent() : null;
+      if (text && text.trim().length > 0) {
+        return text.trim();
+      }
+    }
+    return null;
+  }
+
+  private async cellAttribute(cell: ElementHandle, selectors: string[], attribute: string): Promise<string | null> {
+    for (const selector of selectors) {
+      const element = await cell.$(selector);
+      const value = element ? await element.getAttribute(attribute) : null;
+      if (value) {
+        return value;
+      }
+    }
+    return null;
+  }
+
+  private async cellHasAny(cell: ElementHandle, selectors: string[]): Promise<boolean> {
+    for (const selector of selectors) {
+      if (await cell.$(selector)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+// Scrape a search/category listing, then optionally scrape each item's detail page
+export async function scrapeListing(
+  url: string,
+  options: ListingScrapeOptions & { details?: boolean; intervalMs?: number; config?: ScraperConfigOverrides } = {}
+): Promise<ListingWithDetails> {
+  const scraper = new MercariListingScraper(options.config);
+  // The item pages are scraped in the browser the listing was loaded in
+  const browsers = new BrowserManager(scraper.getConfig());
+  let listing: ScrapeResult<MercariListing[]>;
+  const details = new Map<string, ScrapeResult<MercariProduct>>();
+
+  try {
+    try {
+      await scraper.initialize(browsers);
+      listing = await scraper.scrape(url, options);
+    } finally {
+      await scraper.close();
+    }
+
+    if (options.details && listing.data && listing.data.length > 0) {
+      const itemUrls = listing.data.map((item) => item.url);
+      const batchOptions = { adapter: mercariAdapter, config: options.config, browsers };
+      for (const [itemUrl, result] of await batchScrape(itemUrls, options.intervalMs, batchOptions)) {
+        details.set(itemUrl, result);
+      }
+    }
+  } finally {
+    await browsers.close();
+  }
+
+  return { listing, details };
+}
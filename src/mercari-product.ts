@@ -0,0 +1,49 @@
+import type { SoldStatus, SoldStatusEvidence } from './sold-status.js';
+
+// Bumped whenever fields are added or change meaning. Observations stored before
+// versioning carry no schemaVersion and only the fields up to imageUrls.
+// 3: status/statusConfidence/statusEvidence added; statusText is 不明 when no evidence was found
+export const MERCARI_PRODUCT_SCHEMA_VERSION = 3;
+
+export interface MercariProduct {
+  schemaVersion?: number;
+  url: string;
+  title: string | null;
+  price: number | null;
+  // true for trading and sold_out
+  isSoldOut: boolean;
+  // Display text of status
+  statusText: string;
+  status?: SoldStatus;
+  statusConfidence?: number;
+  statusEvidence?: SoldStatusEvidence[];
+  seller?: string;
+  description?: string;
+  imageUrls?: string[];
+  // 商品の状態, e.g. "目立った傷や汚れなし"
+  condition?: string;
+  // 配送料の負担, e.g. "送料込み(出品者負担)"
+  shippingPayer?: string;
+  // 配送の方法, e.g. "らくらくメルカリ便"
+  shippingMethod?: string;
+  // 発送元の地域 (prefecture)
+  shippingFrom?: string;
+  // 発送までの日数, e.g. "1~2日で発送"
+  daysToShip?: string;
+  // Category breadcrumb, top level first
+  categories?: string[];
+  brand?: string;
+  size?: string;
+  likeCount?: number;
+  commentCount?: number;
+  // ISO timestamps; relative texts such as "3日前" are resolved against the scrape time
+  listedAt?: string;
+  updatedAt?: string;
+}
+
+const ITEM_ID_PATTERN = /\/item\/(m\w+)/;
+
+export function extractItemId(url: string): string | null {
+  const match = url.match(ITEM_ID_PATTERN);
+  return match ? match[1] : null;
+}
@@ -1,20 +1,99 @@
 import { BaseScraper, ScrapeResult } from './scraper.js';
+import { ScrapeErrorType } from './errors.js';
 import { checkContentPresence, BanSignals } from './ban-detector.js';
-import { logInfo, logDebug } from './logger.js';
+import { logInfo, logDebug, RequestLog } from './logger.js';
+import {
+  extractJsonLd,
+  extractNextData,
+  findInState,
+  hasJsonLdType,
+  isRecord,
+  captureJsonResponses,
+  FieldSource,
+} from './structured-data.js';
+import { assessDegradation } from './degradation.js';
+import {
+  assessSoldStatus,
+  statusEvidence,
+  isSoldStatus,
+  SoldStatus,
+  SoldStatusAssessment,
+  SoldStatusEvidence,
+  StatusSignal,
+  SOLD_STATUS_TEXT,
+  supportingEvidence,
+} from './sold-status.js';
+import { MERCARI_PRODUCT_SCHEMA_VERSION, MercariProduct, extractItemId } from './mercari-product.js';
 
-export interface MercariProduct {
-  url: string;
-  title: string | null;
-  price: number | null;
-  isSoldOut: boolean;
-  statusText: string;
-  seller?: string;
-  description?: string;
-  imageUrls?: string[];
+export { MERCARI_PRODUCT_SCHEMA_VERSION, MercariProduct, extractItemId };
+
+export const MERCARI_PRODUCT_FIELDS = [
+  'title',
+  'price',
+  'soldStatus',
+  'seller',
+  'description',
+  'imageUrls',
+  'condition',
+  'shippingPayer',
+  'shippingMethod',
+  'shippingFrom',
+  'daysToShip',
+  'categories',
+  'brand',
+  'size',
+  'likeCount',
+  'commentCount',
+  'listedAt',
+  'updatedAt',
+] as const;
+
+export type MercariProductField = (typeof MERCARI_PRODUCT_FIELDS)[number];
+
+// Whether each field was found on the page
+export type FieldReport = Record<MercariProductField, boolean>;
+
+// Which source produced each field that was found
+export type FieldSources = Partial<Record<MercariProductField, FieldSource>>;
+
+// Value of each field before it is folded into a MercariProduct
+export interface MercariFieldValues {
+  title: string;
+  price: number;
+  soldStatus: Exclude<SoldStatus, 'unknown'>;
+  seller: string;
+  description: string;
+  imageUrls: string[];
+  condition: string;
+  shippingPayer: string;
+  shippingMethod: string;
+  shippingFrom: string;
+  daysToShip: string;
+  categories: string[];
+  brand: string;
+  size: string;
+  likeCount: number;
+  commentCount: number;
+  listedAt: string;
+  updatedAt: string;
+}
+
+export type PartialFieldValues = Partial<MercariFieldValues>;
+
+// Item API the product page calls while rendering (api.mercari.jp/items/get?id=...)
+export const MERCARI_ITEM_API_PATTERN = /\/items\/get\b/;
+
+// Item detail rows are labelled in Japanese; the XPath fallback finds the value next to the label
+function detailRow(label: string, ...selectors: string[]): string[] {
+  return [
+    `[data-testid="${label}"]`,
+    ...selectors,
+    `xpath=//*[normalize-space(text())="${label}"]/following-sibling::*[1]`,
+  ];
 }
 
 // Selectors for Mercari product page
-const MERCARI_SELECTORS = {
+export const MERCARI_SELECTORS = {
   title: [
     '[data-testid="item-name"]',
     'h1[class*="ItemName"]',
@@ -43,12 +122,24 @@ const MERCARI_SELECTORS = {
     '.sold-badge',
     '[data-testid="soldout-badge"]',
   ],
+  // Item section the sold-out texts are searched in
+  itemInfo: [
+    '[data-testid="item-info"]',
+    '#item-info',
+  ],
   soldOutText: [
     '売り切れました',
     '売り切れ',
     'SOLD',
     'sold out',
   ],
+  // Page texts shown instead of the item when it was deleted or suspended
+  deletedText: [
+    'この商品は削除されました',
+    '該当する商品は削除されています',
+    '公開停止中',
+    'ページが見つかりませんでした',
+  ],
   seller: [
     '[data-testid="seller-name"]',
     '.seller-name',
@@ -57,33 +148,300 @@ const MERCARI_SELECTORS = {
     '[data-testid="item-description"]',
     '.item-description',
   ],
+  images: [
+    '[data-testid^="image-"] img',
+    '[data-testid="carousel"] img',
+    'img[src*="static.mercdn.net/item/"]',
+  ],
+  condition: detailRow('商品の状態', '[data-testid="item-condition"]'),
+  shippingPayer: detailRow('配送料の負担', '[data-testid="shipping-payer"]'),
+  shippingMethod: detailRow('配送の方法', '[data-testid="shipping-method"]'),
+  shippingFrom: detailRow('発送元の地域', '[data-testid="shipping-from-area"]'),
+  daysToShip: detailRow('発送までの日数', '[data-testid="shipping-duration"]'),
+  category: [
+    '[data-testid="item-detail-category"] a',
+    'nav[aria-label="breadcrumb"] a',
+    'xpath=//*[normalize-space(text())="カテゴリー"]/following-sibling::*[1]//a',
+  ],
+  brand: detailRow('ブランド', '[data-testid="item-brand"]'),
+  size: detailRow('商品のサイズ', '[data-testid="item-size"]'),
+  likeCount: [
+    '[data-testid="icon-heart-button"]',
+    '[data-testid="like-count"]',
+    'button[aria-label*="いいね"]',
+  ],
+  commentCount: [
+    '[data-testid="icon-comment-button"]',
+    '[data-testid="comment-count"]',
+    'button[aria-label*="コメント"]',
+  ],
+  listedAt: [
+    '[data-testid="item-created-at"]',
+    'xpath=//*[normalize-space(text())="出品日時"]/following-sibling::*[1]',
+  ],
+  updatedAt: [
+    '[data-testid="item-updated-at"]',
+    'xpath=//*[normalize-space(text())="更新日時"]/following-sibling::*[1]',
+  ],
+};
+
+export type MercariSelectorGroup = keyof typeof MERCARI_SELECTORS;
+
+// Extract the price from price text (e.g., "¥1,234" -> 1234). Only the amount after the
+// currency sign is read, so "¥1,234 (税込) 送料込み" does not pick up other numbers
+export function parsePrice(text: string): number | null {
+  const match = text.match(/[¥￥]\s*(\d[\d,]*)/) ?? text.match(/(\d[\d,]*)/);
+  return match ? parseInt(match[1].replace(/,/g, ''), 10) : null;
+}
+
+// Extract a count from like/comment button text (e.g. "いいね! 12" -> 12)
+export function parseCount(text: string): number | null {
+  const match = text.replace(/,/g, '').match(/\d+/);
+  return match ? parseInt(match[0], 10) : null;
+}
+
+const RELATIVE_UNITS_MS: Array<[RegExp, number]> = [
+  [/(\d+)\s*秒前/, 1000],
+  [/(\d+)\s*分前/, 60 * 1000],
+  [/(\d+)\s*時間前/, 60 * 60 * 1000],
+  [/(\d+)\s*日前/, 24 * 60 * 60 * 1000],
+  [/(\d+)\s*[かヶケ]月前/, 30 * 24 * 60 * 60 * 1000],
+  [/(\d+)\s*年前/, 365 * 24 * 60 * 60 * 1000],
+];
+
+const ISO_WITH_OFFSET = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/;
+
+// Resolve "3日前", "2024/05/01 12:30" or an ISO string to an ISO timestamp.
+// Relative texts are approximate: Mercari only shows the largest unit
+export function parseTimestamp(text: string, now: Date = new Date()): string | null {
+  const trimmed = text.trim();
+  if (/^(たった今|今)$/.test(trimmed)) return now.toISOString();
+
+  for (const [pattern, unitMs] of RELATIVE_UNITS_MS) {
+    const match = trimmed.match(pattern);
+    if (match) return new Date(now.getTime() - parseInt(match[1], 10) * unitMs).toISOString();
+  }
+
+  // Dates without a zone are Japan time
+  const absolute = trimmed.match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})(?:(?:\s+|T)(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (absolute) {
+    const [, year, month, day, hour = '0', minute = '0', second = '0'] = absolute;
+    return new Date(Date.UTC(+year, +month - 1, +day, +hour - 9, +minute, +second)).toISOString();
+  }
+
+  // Anything else has to be ISO 8601 with its offset; other strings are not guessed at
+  if (!ISO_WITH_OFFSET.test(trimmed)) return null;
+  const parsed = Date.parse(trimmed);
+  return Number.isNaN(parsed) ? null : new Date(parsed).toISOString();
+}
+
+// Keeps the three core flags analyzers already read and adds the full per-field breakdown
+export function summarizeExtraction(
+  fields: FieldReport,
+  sources: FieldSources = {},
+  selectors: Record<string, number | null> = {},
+  status?: SoldStatusAssessment
+): NonNullable<RequestLog['scrapedData']> {
+  return {
+    titleExtracted: fields.title,
+    priceExtracted: fields.price,
+    soldStatusExtracted: fields.soldStatus,
+    schemaVersion: MERCARI_PRODUCT_SCHEMA_VERSION,
+    fields,
+    sources,
+    selectors,
+    ...(status ? { status: status.status, statusConfidence: status.confidence } : {}),
+  };
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim().length > 0 ? value.trim() : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  const parsed = typeof value === 'string' ? Number(value.replace(/,/g, '')) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function asStrings(value: unknown): string[] | undefined {
+  const list = (Array.isArray(value) ? value : [value]).map((item) => asString(isRecord(item) ? item.url : item));
+  const strings = list.filter((item): item is string => item !== undefined);
+  return strings.length > 0 ? strings : undefined;
+}
+
+// API objects like item_condition are { id, name }; some payloads inline the name
+function nameOf(value: unknown): string | undefined {
+  return isRecord(value) ? asString(value.name) : asString(value);
+}
+
+// API timestamps are Unix seconds; state and JSON-LD may use milliseconds or date strings
+function asTimestamp(value: unknown): string | undefined {
+  const numeric = asNumber(value);
+  if (numeric !== undefined) {
+    return new Date(numeric < 1e12 ? numeric * 1000 : numeric).toISOString();
+  }
+  const text = asString(value);
+  return text ? parseTimestamp(text) ?? undefined : undefined;
+}
+
+function withoutUndefined(values: PartialFieldValues): PartialFieldValues {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as PartialFieldValues;
+}
+
+// schema.org availability values; Discontinued is what delisted items report
+const JSON_LD_AVAILABILITY: Array<[RegExp, MercariFieldValues['soldStatus']]> = [
+  [/InStock$/, 'on_sale'],
+  [/(OutOfStock|SoldOut)$/, 'sold_out'],
+  [/Discontinued$/, 'deleted'],
+];
+
+export function fieldsFromJsonLd(node: Record<string, unknown>): PartialFieldValues {
+  const offers = isRecord(node.offers) ? node.offers : Array.isArray(node.offers) && isRecord(node.offers[0]) ? node.offers[0] : {};
+  const availability = asString(offers.availability);
+  const category = asString(node.category);
+
+  return withoutUndefined({
+    title: asString(node.name),
+    price: asNumber(offers.price),
+    soldStatus: availability ? JSON_LD_AVAILABILITY.find(([pattern]) => pattern.test(availability))?.[1] : undefined,
+    seller: nameOf(offers.seller),
+    description: asString(node.description),
+    imageUrls: asStrings(node.image),
+    categories: category ? category.split(/\s*>\s*/) : undefined,
+    brand: nameOf(node.brand),
+  });
+}
+
+// Status values of the item API; "stop" is suspended and "cancel" withdrawn, neither is shown to buyers
+const ITEM_API_STATUSES: Record<string, MercariFieldValues['soldStatus']> = {
+  on_sale: 'on_sale',
+  trading: 'trading',
+  sold_out: 'sold_out',
+  stop: 'deleted',
+  cancel: 'deleted',
 };
 
-export class MercariScraper extends BaseScraper {
+// Maps the item object of the item API, which page state embeds in the same shape
+export function fieldsFromMercariItem(item: Record<string, unknown>): PartialFieldValues {
+  const category = isRecord(item.item_category) ? item.item_category : {};
+  const categories = [category.root_category_name, category.parent_category_name, category.name]
+    .map(asString)
+    .filter((name): name is string => name !== undefined);
+  const status = asString(item.status);
+  const sizes = Array.isArray(item.item_sizes) ? item.item_sizes[0] : undefined;
+
+  return withoutUndefined({
+    title: asString(item.name),
+    price: asNumber(item.price),
+    soldStatus: status !== undefined ? ITEM_API_STATUSES[status] : undefined,
+    seller: nameOf(item.seller),
+    description: asString(item.description),
+    imageUrls: asStrings(item.photos),
+    condition: nameOf(item.item_condition),
+    shippingPayer: nameOf(item.shipping_payer),
+    shippingMethod: nameOf(item.shipping_method),
+    shippingFrom: nameOf(item.shipping_from_area),
+    daysToShip: nameOf(item.shipping_duration),
+    categories: categories.length > 0 ? [...new Set(categories)] : undefined,
+    brand: nameOf(item.item_brand),
+    size: nameOf(item.item_size) ?? nameOf(sizes),
+    likeCount: asNumber(item.num_likes),
+    commentCount: asNumber(item.num_comments),
+    listedAt: asTimestamp(item.created),
+    updatedAt: asTimestamp(item.updated),
+  });
+}
+
+function isMercariItem(itemId: string | null) {
+  return (value: Record<string, unknown>): boolean =>
+    'price' in value && 'name' in value && (itemId ? value.id === itemId : 'status' in value || 'photos' in value);
+}
+
+// Structured sources on the page, most trusted first; each maps to the fields it provides
+export function structuredFields(html: string, apiBodies: unknown[], itemId: string | null): Array<[FieldSource, PartialFieldValues]> {
+  const found: Array<[FieldSource, PartialFieldValues]> = [];
+
+  // API bodies are { result, data: item }; the last one is the final attempt's
+  const apiItem = apiBodies
+    .map((body) => (isRecord(body) && isRecord(body.data) ? body.data : body))
+    .filter((body): body is Record<string, unknown> => isRecord(body) && isMercariItem(itemId)(body))
+    .pop();
+  if (apiItem) found.push(['api', fieldsFromMercariItem(apiItem)]);
+
+  const stateItem = findInState(extractNextData(html), isMercariItem(itemId));
+  if (stateItem) found.push(['next-data', fieldsFromMercariItem(stateItem)]);
+
+  const product = extractJsonLd(html).find((node) => hasJsonLdType(node, 'Product'));
+  if (product) found.push(['json-ld', fieldsFromJsonLd(product)]);
+
+  return found;
+}
+
+const STRUCTURED_STATUS_SIGNALS: Record<Exclude<FieldSource, 'dom'>, StatusSignal> = {
+  api: 'api_status',
+  'next-data': 'state_status',
+  'json-ld': 'json_ld_availability',
+};
+
+function structuredStatusEvidence(structured: Array<[FieldSource, PartialFieldValues]>): SoldStatusEvidence[] {
+  return structured.flatMap(([source, found]) =>
+    found.soldStatus && source !== 'dom' ? [statusEvidence(source, STRUCTURED_STATUS_SIGNALS[source], found.soldStatus)] : []
+  );
+}
+
+const EXTRACTION_FAILED = 'Content extraction failed - page may be blocked';
+
+export class MercariScraper extends BaseScraper<MercariProduct> {
   async scrape(url: string): Promise<ScrapeResult<MercariProduct>> {
     logInfo('Starting Mercari scrape', { url });
 
-    const navResult = await this.navigate(url);
+    const apiCapture = this.page ? captureJsonResponses(this.page, MERCARI_ITEM_API_PATTERN) : null;
+    let navResult: ScrapeResult<void>;
+    try {
+      navResult = await this.navigate(url);
+    } finally {
+      apiCapture?.stop();
+    }
     if (!navResult.success) {
       return {
         success: false,
         banSignals: navResult.banSignals,
         error: navResult.error,
+        errorType: navResult.errorType,
+        attempts: navResult.attempts,
       };
     }
 
     try {
-      const product = await this.extractProductInfo(url);
-
-      // Check if content was actually extracted
-      const contentPresent = await checkContentPresence(
-        this.page!,
-        MERCARI_SELECTORS.title
+      this.selectorHealth.takeRequestMatches();
+      const { product, fields, sources, status } = await this.extractProductInfo(
+        url,
+        (await apiCapture?.bodies()) ?? [],
+        navResult.statusCode
       );
+      const degradation = assessDegradation([
+        ...(navResult.banSignals.degradation?.signals ?? []),
+        ...this.degradation.observeContent(extractItemId(url) ?? url, product),
+      ]);
+      const selectorMatches = this.selectorHealth.takeRequestMatches();
+
+      // Check if content was actually extracted; a structured title means the item
+      // rendered even when the DOM layout no longer matches the selectors. A deleted
+      // item has no content to extract but is an answer, not a block
+      const contentPresent =
+        status.status === 'deleted' ||
+        (sources.title !== undefined && sources.title !== 'dom') ||
+        (await checkContentPresence(this.page!, MERCARI_SELECTORS.title));
+      if (!contentPresent) {
+        await this.captureEvidence(EXTRACTION_FAILED);
+      }
+      this.completeRequestLog(summarizeExtraction(fields, sources, selectorMatches, status), degradation);
 
       const banSignals: BanSignals = {
         ...navResult.banSignals,
         contentMissing: !contentPresent,
+        degradation,
       };
 
       if (!contentPresent) {
@@ -91,7 +449,9 @@ export class MercariScraper extends BaseScraper {
           success: false,
           data: product,
           banSignals,
-          error: 'Content extraction failed - page may be blocked',
+          error: EXTRACTION_FAILED,
+          errorType: ScrapeErrorType.Extraction,
+          attempts: navResult.attempts,
         };
       }
 
@@ -99,151 +459,241 @@ export class MercariScraper extends BaseScraper {
         success: true,
         data: product,
         banSignals,
+        attempts: navResult.attempts,
       };
     } catch (error) {
+      await this.captureEvidence(`Extraction error: ${(error as Error).message}`);
+      this.completeRequestLog();
       return {
         success: false,
         banSignals: navResult.banSignals,
         error: (error as Error).message,
+        errorType: ScrapeErrorType.Extraction,
+        attempts: navResult.attempts,
       };
     }
   }
 
-  private async extractProductInfo(url: string): Promise<MercariProduct> {
-    const title = await this.extractTitleFromSelectors();
-    const price = await this.extractPriceFromSelectors();
-    const isSoldOut = await this.checkSoldOutStatus();
-    const seller = await this.extractFromSelectors(MERCARI_SELECTORS.seller);
-    const description = await this.extractFromSelectors(MERCARI_SELECTORS.description);
+  // Structured sources are read first; DOM selectors only run for fields none of them provided.
+  // Sold status is the exception: every source contributes evidence and the evidence is weighed
+  private async extractProductInfo(
+    url: string,
+    apiBodies: unknown[],
+    statusCode?: number
+  ): Promise<{ product: MercariProduct; fields: FieldReport; sources: FieldSources; status: SoldStatusAssessment }> {
+    const structured = structuredFields(await this.page!.content(), apiBodies, extractItemId(url));
+    const dom = this.domExtractors(new Date());
+    const values: Record<string, unknown> = {};
+    const sources: FieldSources = {};
 
+    for (const field of MERCARI_PRODUCT_FIELDS) {
+      if (field === 'soldStatus') continue;
+      const match = structured.find(([, found]) => found[field] !== undefined);
+      if (match) {
+        values[field] = match[1][field];
+        sources[field] = match[0];
+        continue;
+      }
+      const value = await dom[field]();
+      if (value !== null) {
+        values[field] = value;
+        sources[field] = 'dom';
+      }
+    }
+
+    const status = assessSoldStatus([
+      ...structuredStatusEvidence(structured),
+      ...(statusCode === 404 || statusCode === 410 ? [statusEvidence('http', 'not_found_status', 'deleted', String(statusCode))] : []),
+      ...(await this.collectDomStatusEvidence()),
+    ]);
+    const statusSource = supportingEvidence(status).find((evidence) => evidence.source !== 'http');
+    if (statusSource) {
+      sources.soldStatus = statusSource.source as FieldSource;
+    }
+
+    const found = values as PartialFieldValues;
+    const isSoldOut = isSoldStatus(status.status);
     const product: MercariProduct = {
+      schemaVersion: MERCARI_PRODUCT_SCHEMA_VERSION,
       url,
-      title,
-      price,
+      title: found.title ?? null,
+      price: found.price ?? null,
       isSoldOut,
-      statusText: isSoldOut ? '売り切れ' : '販売中',
-      seller: seller || undefined,
-      description: description || undefined,
+      statusText: SOLD_STATUS_TEXT[status.status],
+      status: status.status,
+      statusConfidence: status.confidence,
+      statusEvidence: status.evidence,
+      seller: found.seller,
+      description: found.description,
+      imageUrls: found.imageUrls,
+      condition: found.condition,
+      shippingPayer: found.shippingPayer,
+      shippingMethod: found.shippingMethod,
+      shippingFrom: found.shippingFrom,
+      daysToShip: found.daysToShip,
+      categories: found.categories,
+      brand: found.brand,
+      size: found.size,
+      likeCount: found.likeCount,
+      commentCount: found.commentCount,
+      listedAt: found.listedAt,
+      updatedAt: found.updatedAt,
     };
 
-    logDebug('Extracted product info', { title, price, isSoldOut });
-    return product;
+    const fields = Object.fromEntries(MERCARI_PRODUCT_FIELDS.map((field) => [field, sources[field] !== undefined])) as FieldReport;
+    // A 404 alone settles the status without any page source
+    fields.soldStatus = status.status !== 'unknown';
+    const missing = MERCARI_PRODUCT_FIELDS.filter((field) => !fields[field]);
+    logDebug('Extracted product info', {
+      title: product.title,
+      price: product.price,
+      status: status.status,
+      statusConfidence: status.confidence,
+      sources,
+      missing,
+    });
+    return { product, fields, sources, status };
   }
 
-  private async extractTitleFromSelectors(): Promise<string | null> {
-    for (const selector of MERCARI_SELECTORS.title) {
-      const text = await this.extractText(selector);
-      if (text && text.trim().length > 0) {
-        return text.trim();
+  private domExtractors(
+    now: Date
+  ): { [K in Exclude<MercariProductField, 'soldStatus'>]: () => Promise<MercariFieldValues[K] | null> } {
+    const nonEmpty = (list: string[]) => (list.length > 0 ? list : null);
+    return {
+      title: () => this.extractFromSelectors('title'),
+      price: () => this.extractPriceFromSelectors(),
+      seller: () => this.extractFromSelectors('seller'),
+      description: () => this.extractFromSelectors('description'),
+      imageUrls: async () => nonEmpty(await this.extractImageUrls()),
+      condition: () => this.extractFromSelectors('condition'),
+      shippingPayer: () => this.extractFromSelectors('shippingPayer'),
+      shippingMethod: () => this.extractFromSelectors('shippingMethod'),
+      shippingFrom: () => this.extractFromSelectors('shippingFrom'),
+      daysToShip: () => this.extractFromSelectors('daysToShip'),
+      categories: async () => nonEmpty(await this.extractAllFromSelectors('category')),
+      brand: () => this.extractFromSelectors('brand'),
+      size: () => this.extractFromSelectors('size'),
+      likeCount: () => this.extractCountFromSelectors('likeCount'),
+      commentCount: () => this.extractCountFromSelectors('commentCount'),
+      listedAt: () => this.extractTimestampFromSelectors('listedAt', now),
+      updatedAt: () => this.extractTimestampFromSelectors('updatedAt', now),
+    };
+  }
+
+  // Tries each selector of the group in order and records which entry produced a value
+  private async firstMatch<T>(group: MercariSelectorGroup, read: (selector: string) => Promise<T | null>): Promise<T | null> {
+    const selectors = MERCARI_SELECTORS[group];
+    for (const [index, selector] of selectors.entries()) {
+      const value = await read(selector);
+      if (value !== null) {
+        this.selectorHealth.record(group, selectors.length, index);
+        return value;
       }
     }
+    this.selectorHealth.record(group, selectors.length, null);
     return null;
   }
 
   private async extractPriceFromSelectors(): Promise<number | null> {
-    for (const selector of MERCARI_SELECTORS.price) {
+    return this.firstMatch('price', async (selector) => {
       const text = await this.extractText(selector);
-      if (text) {
-        // Extract numbers from price text (e.g., "¥1,234" -> 1234)
-        const priceMatch = text.replace(/[^\d]/g, '');
-        if (priceMatch) {
-          return parseInt(priceMatch, 10);
-        }
-      }
-    }
-    return null;
+      return text ? parsePrice(text) : null;
+    });
   }
 
-  private async checkSoldOutStatus(): Promise<boolean> {
-    if (!this.page) return false;
-
-    // Priority 1: Check for disabled purchase button
-    for (const selector of MERCARI_SELECTORS.soldOutButton) {
-      const element = await this.page.$(selector);
-      if (element) {
-        logDebug('Sold out detected via disabled button', { selector });
-        return true;
-      }
-    }
+  // Every DOM hint about the item's state. Badges and sold texts are only looked for in the
+  // item's own section: recommendation carousels carry SOLD badges for other items
+  private async collectDomStatusEvidence(): Promise<SoldStatusEvidence[]> {
+    if (!this.page) return [];
+    const page = this.page;
+    const evidence: SoldStatusEvidence[] = [];
+    const observe = (signal: StatusSignal, status: SoldStatusEvidence['status'], detail: string): void => {
+      evidence.push(statusEvidence('dom', signal, status, detail));
+    };
 
-    // Priority 2: Check if purchase button is disabled
-    for (const selector of MERCARI_SELECTORS.purchaseButton) {
-      const element = await this.page.$(selector);
-      if (element) {
-        const isDisabled = await element.evaluate((el) => {
-          return (el as HTMLButtonElement).disabled;
-        });
-        if (isDisabled) {
-          logDebug('Sold out detected via button disabled state', { selector });
-          return true;
-        }
+    const soldButton = await this.firstMatch('soldOutButton', async (selector) => ((await page.$(selector)) ? selector : null));
+    if (soldButton) {
+      observe('disabled_purchase_button', 'sold_out', soldButton);
+    } else {
+      // A disabled purchase button matches soldOutButton too, so this only runs without one
+      const purchase = await this.firstMatch('purchaseButton', async (selector) => {
+        const element = await page.$(selector);
+        return element ? { selector, disabled: await element.evaluate((el) => (el as HTMLButtonElement).disabled) } : null;
+      });
+      if (purchase) {
+        observe(purchase.disabled ? 'disabled_purchase_button' : 'purchase_button', purchase.disabled ? 'sold_out' : 'on_sale', purchase.selector);
       }
     }
 
-    // Priority 3: Check for sold out badge
-    for (const selector of MERCARI_SELECTORS.soldOutBadge) {
-      const element = await this.page.$(selector);
-      if (element) {
-        logDebug('Sold out detected via badge', { selector });
-        return true;
-      }
-    }
+    const section = await this.firstMatch('itemInfo', (selector) => page.$(selector));
+    if (section) {
+      const badge = await this.firstMatch('soldOutBadge', async (selector) => ((await section.$(selector)) ? selector : null));
+      if (badge) observe('sold_badge', 'sold_out', badge);
 
-    // Priority 4: Check for sold out text in page
-    const pageContent = await this.page.content();
-    for (const text of MERCARI_SELECTORS.soldOutText) {
-      if (pageContent.includes(text)) {
-        logDebug('Sold out detected via text', { text });
-        return true;
-      }
+      const sectionText = (await section.textContent()) ?? '';
+      const soldText = await this.firstMatch('soldOutText', async (text) => (sectionText.includes(text) ? text : null));
+      if (soldText) observe('sold_text', 'sold_out', soldText);
+    } else {
+      // Deleted and suspended items render a notice instead of the item section
+      const pageText = (await this.extractText('body')) ?? '';
+      const deletedText = await this.firstMatch('deletedText', async (text) => (pageText.includes(text) ? text : null));
+      if (deletedText) observe('deleted_text', 'deleted', deletedText);
     }
 
-    return false;
+    logDebug('Sold status evidence from page', { signals: evidence.map((item) => item.signal) });
+    return evidence;
   }
 
-  private async extractFromSelectors(selectors: string[]): Promise<string | null> {
-    for (const selector of selectors) {
+  private async extractFromSelectors(group: MercariSelectorGroup): Promise<string | null> {
+    return this.firstMatch(group, async (selector) => {
       const text = await this.extractText(selector);
-      if (text && text.trim().length > 0) {
-        return text.trim();
-      }
-    }
-    return null;
+      return text && text.trim().length > 0 ? text.trim() : null;
+    });
   }
-}
 
-// Utility function for batch scraping with rate limiting
-export async function batchScrape(
-  urls: string[],
-  intervalMs: number = 5000
-): Promise<Map<string, ScrapeResult<MercariProduct>>> {
-  const scraper = new MercariScraper();
-  await scraper.initialize();
-
-  const results = new Map<string, ScrapeResult<MercariProduct>>();
+  // First selector that matches any non-empty elements wins, e.g. each breadcrumb link
+  private async extractAllFromSelectors(group: MercariSelectorGroup): Promise<string[]> {
+    const texts = await this.firstMatch(group, async (selector) => {
+      const found = (await this.extractAllText(selector)).map((text) => text.trim()).filter((text) => text.length > 0);
+      return found.length > 0 ? found : null;
+    });
+    return texts ?? [];
+  }
 
-  try {
-    for (let i = 0; i < urls.length; i++) {
-      const url = urls[i];
-      logInfo(`Processing URL ${i + 1}/${urls.length}`, { url });
+  // Relative sources are resolved against the page; inline data: placeholders are skipped
+  private async extractImageUrls(): Promise<string[]> {
+    const pageUrl = this.page?.url() ?? '';
+    const urls = await this.firstMatch('images', async (selector) => {
+      const found = (await this.extractAllAttributes(selector, 'src'))
+        .filter((src) => src.length > 0 && !src.startsWith('data:'))
+        .map((src) => new URL(src, pageUrl).toString());
+      return found.length > 0 ? [...new Set(found)] : null;
+    });
+    return urls ?? [];
+  }
 
-      const result = await scraper.scrape(url);
-      results.set(url, result);
+  private async extractCountFromSelectors(group: MercariSelectorGroup): Promise<number | null> {
+    return this.firstMatch(group, async (selector) => {
+      const text = (await this.extractText(selector)) || (await this.extractAttribute(selector, 'aria-label'));
+      return text ? parseCount(text) : null;
+    });
+  }
 
-      // Check if we got banned
-      if (!result.success && result.banSignals.captchaDetected) {
-        logInfo('BAN detected, stopping batch scrape');
-        break;
-      }
+  // Prefers a machine-readable datetime attribute over the displayed text
+  private async extractTimestampFromSelectors(group: MercariSelectorGroup, now: Date): Promise<string | null> {
+    return this.firstMatch(group, async (selector) => {
+      const text = (await this.extractAttribute(selector, 'datetime')) || (await this.extractText(selector));
+      return text ? parseTimestamp(text, now) : null;
+    });
+  }
 
-      // Wait before next request (except for last one)
-      if (i < urls.length - 1) {
-        await new Promise((resolve) => setTimeout(resolve, intervalMs));
-      }
-    }
-  } finally {
-    await scraper.close();
+  protected contentSelectors(): string[] {
+    return [...MERCARI_SELECTORS.title, ...MERCARI_SELECTORS.price];
   }
 
-  return results;
+  protected selectorGroups(): Record<string, string[]> {
+    // soldOutText and deletedText hold page texts, not selectors
+    const { soldOutText: _soldTexts, deletedText: _deletedTexts, ...groups } = MERCARI_SELECTORS;
+    return groups;
+  }
 }
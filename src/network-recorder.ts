@@ -0,0 +1,256 @@
+import fs from 'fs';
+import path from 'path';
+import type { Page, Request, Response } from 'playwright';
+import { logDebug } from './logger.js';
+import type { ObservedResponse } from './ban-rules.js';
+import type { BlockReason } from './resource-guard.js';
+
+export interface NetworkEntry {
+  url: string;
+  method: string;
+  resourceType: string;
+  // 0 when the request failed without a response
+  status: number;
+  statusText: string;
+  // The top-level document, as opposed to subresources and iframes
+  mainDocument: boolean;
+  requestHeaders: Record<string, string>;
+  responseHeaders: Record<string, string>;
+  // Location of a 3xx response
+  redirectUrl: string | null;
+  startedAt: number;
+  durationMs: number | null;
+  // Response headers plus body; content-length until the request finishes
+  bytes: number | null;
+  failure?: string;
+  // Aborted by the resource guard rather than failed
+  blocked?: BlockReason;
+}
+
+export interface NetworkSummary {
+  // Final top-level document after redirects
+  mainDocument: { url: string; status: number; bytes: number | null } | null;
+  // Top-level hops before the final document
+  redirectChain: Array<{ url: string; status: number }>;
+  // Subresources that failed or answered >= 400; these do not decide whether the page was blocked
+  subresourceFailures: Array<{ url: string; status: number; resourceType: string; failure?: string }>;
+  requestCount: number;
+  totalBytes: number;
+  // Requests the resource guard aborted, by resource type; the rest were loaded
+  blocked: { requests: number; byType: Record<string, number>; overBudget: number };
+  // From the main document; Retry-After falls back to any response that sent one
+  retryAfter: string | null;
+  cfRay: string | null;
+  // Names only, values are session secrets
+  setCookies: string[];
+}
+
+export function isMainDocument(page: Page, request: Request): boolean {
+  try {
+    return request.isNavigationRequest() && request.resourceType() === 'document' && request.frame() === page.mainFrame();
+  } catch {
+    // Requests of service workers have no frame
+    return false;
+  }
+}
+
+// Records the requests of one navigation. Listeners are removed by stop(), so a page that
+// navigates many times does not accumulate them
+export class NetworkRecorder {
+  private entries = new Map<Request, NetworkEntry>();
+  private pending: Promise<void>[] = [];
+  private stopped = false;
+
+  private readonly onRequest = (request: Request): void => {
+    this.entryFor(request);
+  };
+
+  private readonly onResponse = (response: Response): void => {
+    const request = response.request();
+    const headers = response.headers();
+    const contentLength = parseInt(headers['content-length'] ?? '', 10);
+    const entry = this.entryFor(request);
+    entry.status = response.status();
+    entry.statusText = response.statusText();
+    entry.responseHeaders = headers;
+    entry.redirectUrl = entry.status >= 300 && entry.status < 400 ? headers['location'] ?? null : null;
+    entry.bytes = Number.isNaN(contentLength) ? null : contentLength;
+    // headers() leaves out Set-Cookie, which Chromium reports separately; allHeaders() has it
+    this.pending.push(
+      response.allHeaders().then(
+        (allHeaders) => {
+          entry.responseHeaders = allHeaders;
+        },
+        (error: Error) => logDebug('Could not read response headers', { url: entry.url, error: error.message })
+      )
+    );
+  };
+
+  private readonly onRequestFinished = (request: Request): void => {
+    const entry = this.entryFor(request);
+    const timing = request.timing();
+    if (timing.responseEnd >= 0) entry.durationMs = Math.round(timing.responseEnd);
+    this.pending.push(
+      request.sizes().then(
+        (sizes) => {
+          entry.bytes = sizes.responseHeadersSize + sizes.responseBodySize;
+        },
+        (error: Error) => logDebug('Could not read request sizes', { url: entry.url, error: error.message })
+      )
+    );
+  };
+
+  private readonly onRequestFailed = (request: Request): void => {
+    const entry = this.entryFor(request);
+    entry.failure = request.failure()?.errorText ?? 'failed';
+    entry.blocked = this.guard?.reasonFor(request);
+  };
+
+  // guard tells which failed requests it blocked itself
+  constructor(
+    private page: Page,
+    private guard?: { reasonFor(request: Request): BlockReason | undefined }
+  ) {
+    page.on('request', this.onRequest);
+    page.on('response', this.onResponse);
+    page.on('requestfinished', this.onRequestFinished);
+    page.on('requestfailed', this.onRequestFailed);
+  }
+
+  private entryFor(request: Request): NetworkEntry {
+    let entry = this.entries.get(request);
+    if (!entry) {
+      entry = {
+        url: request.url(),
+        method: request.method(),
+        resourceType: request.resourceType(),
+        status: 0,
+        statusText: '',
+        mainDocument: isMainDocument(this.page, request),
+        requestHeaders: request.headers(),
+        responseHeaders: {},
+        redirectUrl: null,
+        startedAt: Date.now(),
+        durationMs: null,
+        bytes: null,
+      };
+      this.entries.set(request, entry);
+    }
+    return entry;
+  }
+
+  stop(): void {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.page.off('request', this.onRequest);
+    this.page.off('response', this.onResponse);
+    this.page.off('requestfinished', this.onRequestFinished);
+    this.page.off('requestfailed', this.onRequestFailed);
+  }
+
+  // Stops recording and waits for the byte counts still being read
+  async finish(): Promise<NetworkEntry[]> {
+    this.stop();
+    await Promise.all(this.pending);
+    return this.list();
+  }
+
+  list(): NetworkEntry[] {
+    return [...this.entries.values()];
+  }
+}
+
+// Error responses in the form status rules read
+export function observedResponses(entries: NetworkEntry[]): ObservedResponse[] {
+  return entries
+    .filter((entry) => entry.status >= 400)
+    .map(({ status, url, mainDocument }) => ({ status, url, mainDocument }));
+}
+
+export function summarizeNetwork(entries: NetworkEntry[]): NetworkSummary {
+  const documents = entries.filter((entry) => entry.mainDocument);
+  const blocked = entries.filter((entry) => entry.blocked !== undefined);
+  const final = documents.filter((entry) => entry.redirectUrl === null).pop() ?? null;
+  // Only the page's own Retry-After throttles the site; a CDN's or tracker's stays in the entries
+  const retryAfter = final?.responseHeaders['retry-after'] ?? null;
+
+  return {
+    mainDocument: final ? { url: final.url, status: final.status, bytes: final.bytes } : null,
+    redirectChain: documents.filter((entry) => entry.redirectUrl !== null).map(({ url, status }) => ({ url, status })),
+    subresourceFailures: entries
+      .filter((entry) => !entry.mainDocument && !entry.blocked && (entry.status >= 400 || entry.failure !== undefined))
+      .map(({ url, status, resourceType, failure }) => ({ url, status, resourceType, ...(failure ? { failure } : {}) })),
+    requestCount: entries.length,
+    totalBytes: entries.reduce((sum, entry) => sum + (entry.bytes ?? 0), 0),
+    blocked: {
+      requests: blocked.length,
+      byType: blocked.reduce<Record<string, number>>((counts, entry) => {
+        counts[entry.resourceType] = (counts[entry.resourceType] ?? 0) + 1;
+        return counts;
+      }, {}),
+      overBudget: blocked.filter((entry) => entry.blocked === 'budget').length,
+    },
+    retryAfter,
+    cfRay: final?.responseHeaders['cf-ray'] ?? null,
+    // Playwright joins repeated Set-Cookie headers with newlines
+    setCookies: (final?.responseHeaders['set-cookie'] ?? '')
+      .split('\n')
+      .map((cookie) => cookie.split('=')[0].trim())
+      .filter((name) => name.length > 0),
+  };
+}
+
+// HAR files end up in bug reports; session cookies and credentials stay out of them
+const REDACTED_HEADERS = ['cookie', 'set-cookie', 'authorization', 'proxy-authorization'];
+
+function harHeaders(headers: Record<string, string>): Array<{ name: string; value: string }> {
+  return Object.entries(headers).flatMap(([name, value]) =>
+    REDACTED_HEADERS.includes(name.toLowerCase())
+      ? [{ name, value: '[redacted]' }]
+      : value.split('\n').map((line) => ({ name, value: line }))
+  );
+}
+
+// HAR 1.2 with the fields viewers need; bodies are not stored
+export function toHar(entries: NetworkEntry[]): Record<string, unknown> {
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'playwright-ban-test', version: '1.0.0' },
+      entries: entries.map((entry) => ({
+        startedDateTime: new Date(entry.startedAt).toISOString(),
+        time: entry.durationMs ?? -1,
+        request: {
+          method: entry.method,
+          url: entry.url,
+          httpVersion: 'HTTP/1.1',
+          headers: harHeaders(entry.requestHeaders),
+          queryString: [...new URL(entry.url).searchParams].map(([name, value]) => ({ name, value })),
+          cookies: [],
+          headersSize: -1,
+          bodySize: -1,
+        },
+        response: {
+          status: entry.status,
+          statusText: entry.statusText,
+          httpVersion: 'HTTP/1.1',
+          headers: harHeaders(entry.responseHeaders),
+          cookies: [],
+          content: { size: entry.bytes ?? -1, mimeType: entry.responseHeaders['content-type'] ?? '' },
+          redirectURL: entry.redirectUrl ?? '',
+          headersSize: -1,
+          bodySize: entry.bytes ?? -1,
+          ...(entry.failure ? { _failure: entry.failure } : {}),
+        },
+        cache: {},
+        timings: { send: 0, wait: entry.durationMs ?? -1, receive: 0 },
+        _resourceType: entry.resourceType,
+      })),
+    },
+  };
+}
+
+export function writeHar(filePath: string, entries: NetworkEntry[]): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(toHar(entries), null, 2));
+}
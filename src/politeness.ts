@@ -0,0 +1,282 @@
+import { request } from 'playwright';
+import type { PolitenessConfig, ProxyConfig, ScraperConfig } from './config.js';
+import type { RateClock } from './rate-limiter.js';
+import { logInfo, logWarn, logDebug } from './logger.js';
+
+// A line of a robots.txt group. The longest matching path decides, allow winning a tie
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsGroup {
+  // Lowercased User-agent tokens, "*" for everyone else
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelaySeconds: number | null;
+}
+
+// parsed: robots.txt was read; missing: it answered 4xx, so everything is allowed;
+// unreachable: 5xx or no answer, so nothing is allowed until it is fetched again
+export type RobotsStatus = 'parsed' | 'missing' | 'unreachable';
+
+export interface RobotsTxt {
+  url: string;
+  status: RobotsStatus;
+  groups: RobotsGroup[];
+  // Why an unreachable robots.txt could not be read
+  error?: string;
+}
+
+export type RobotsFetcher = (url: string, options: { userAgent: string; proxy?: ProxyConfig }) => Promise<{ status: number; body: string }>;
+
+// What check() decided for a URL
+export interface PolitenessDecision {
+  allowed: boolean;
+  // Why robots.txt or allowPaths refuse the URL; set as well when the override visits it anyway
+  refusal: string | null;
+  overridden: boolean;
+  robots: RobotsStatus | 'off';
+  crawlDelayMs: number | null;
+}
+
+// A reserved navigation to a host; release() when the navigation is over
+export interface HostSlot {
+  waitedMs: number;
+  release: () => void;
+}
+
+const ROBOTS_TIMEOUT_MS = 10000;
+// An unreachable robots.txt is tried again sooner than robotsCacheMinutes
+const UNREACHABLE_RETRY_MS = 5 * 60 * 1000;
+
+const realClock: RateClock = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+// Groups of consecutive User-agent lines and the rules below them. Unknown lines (Sitemap,
+// Host) are skipped, an empty Disallow allows everything
+export function parseRobotsTxt(text: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let readingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === 'user-agent') {
+      if (!readingAgents || !current) {
+        current = { agents: [], rules: [], crawlDelaySeconds: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      readingAgents = true;
+      continue;
+    }
+    readingAgents = false;
+    if (!current) continue;
+
+    if ((key === 'allow' || key === 'disallow') && value) {
+      current.rules.push({ allow: key === 'allow', path: value });
+    } else if (key === 'crawl-delay') {
+      const seconds = parseFloat(value);
+      if (Number.isFinite(seconds) && seconds >= 0) current.crawlDelaySeconds = seconds;
+    }
+  }
+  return groups;
+}
+
+// The groups that apply to userAgent, combined: those naming the longest token contained in
+// userAgent, else the "*" groups. null when robots.txt has neither
+export function selectGroup(groups: RobotsGroup[], userAgent: string): RobotsGroup | null {
+  const agent = userAgent.toLowerCase();
+  const token = groups
+    .flatMap((group) => group.agents)
+    .filter((name) => name !== '*' && name !== '' && agent.includes(name))
+    .sort((a, b) => b.length - a.length)[0];
+  const matching = groups.filter((group) => group.agents.includes(token ?? '*'));
+  if (matching.length === 0) return null;
+
+  const delays = matching.map((group) => group.crawlDelaySeconds).filter((delay): delay is number => delay !== null);
+  return {
+    agents: [token ?? '*'],
+    rules: matching.flatMap((group) => group.rules),
+    crawlDelaySeconds: delays.length > 0 ? Math.max(...delays) : null,
+  };
+}
+
+// robots.txt path syntax: a prefix, "*" for any characters and a trailing "$" for the end
+export function pathMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`).test(path);
+}
+
+// The deciding rule for path, null when none matches and the path is allowed
+export function matchingRule(group: RobotsGroup, path: string): RobotsRule | null {
+  let best: RobotsRule | null = null;
+  for (const rule of group.rules) {
+    if (!pathMatches(rule.path, path)) continue;
+    if (!best || rule.path.length > best.path.length || (rule.path.length === best.path.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return best;
+}
+
+// Fetched with Playwright's API client so robots.txt goes through the same proxy as the pages
+export async function fetchRobotsTxt(url: string, options: { userAgent: string; proxy?: ProxyConfig }): Promise<{ status: number; body: string }> {
+  const api = await request.newContext({ userAgent: options.userAgent, proxy: options.proxy });
+  try {
+    const response = await api.get(url, { timeout: ROBOTS_TIMEOUT_MS, failOnStatusCode: false });
+    return { status: response.status(), body: response.ok() ? await response.text() : '' };
+  } finally {
+    await api.dispose();
+  }
+}
+
+interface HostState {
+  active: number;
+  nextStartAt: number;
+  waiters: Array<() => void>;
+}
+
+// What the README disclaimer and the BAN test plan ask of every run: robots.txt is fetched once
+// per site and cached, and URLs it or politeness.allowPaths refuse are not visited unless
+// politeness.override says so. Navigations to a host are limited in number and spaced by
+// minHostIntervalMs or the site's Crawl-delay, over every scraper that shares this instance
+export class Politeness {
+  private robotsCache = new Map<string, { robots: Promise<RobotsTxt>; expiresAt: number }>();
+  private hosts = new Map<string, HostState>();
+
+  constructor(
+    private readonly fetcher: RobotsFetcher = fetchRobotsTxt,
+    private readonly clock: RateClock = realClock
+  ) {}
+
+  // Cached robots.txt of the URL's origin; concurrent callers share one fetch
+  robotsFor(url: string, settings: ScraperConfig): Promise<RobotsTxt> {
+    const origin = new URL(url).origin;
+    const now = this.clock.now();
+    const cached = this.robotsCache.get(origin);
+    if (cached && cached.expiresAt > now) {
+      return cached.robots;
+    }
+
+    const cacheMs = settings.politeness.robotsCacheMinutes * 60 * 1000;
+    const entry = { robots: this.fetchRobots(`${origin}/robots.txt`, settings), expiresAt: now + cacheMs };
+    this.robotsCache.set(origin, entry);
+    entry.robots.then((robots) => {
+      if (robots.status === 'unreachable') entry.expiresAt = Math.min(entry.expiresAt, now + UNREACHABLE_RETRY_MS);
+    });
+    return entry.robots;
+  }
+
+  private async fetchRobots(url: string, settings: ScraperConfig): Promise<RobotsTxt> {
+    try {
+      const { status, body } = await this.fetcher(url, { userAgent: robotsUserAgent(settings), proxy: settings.proxy });
+      if (status >= 500) {
+        logWarn('robots.txt unreachable', { url, status });
+        return { url, status: 'unreachable', groups: [], error: `HTTP ${status}` };
+      }
+      if (status >= 400) {
+        logInfo('No robots.txt', { url, status });
+        return { url, status: 'missing', groups: [] };
+      }
+      const groups = parseRobotsTxt(body);
+      logDebug('robots.txt fetched', { url, groups: groups.length });
+      return { url, status: 'parsed', groups };
+    } catch (error) {
+      logWarn('robots.txt unreachable', { url, error: (error as Error).message });
+      return { url, status: 'unreachable', groups: [], error: (error as Error).message };
+    }
+  }
+
+  // Whether url may be navigated. Refusals are logged; so is every override
+  async check(url: string, settings: ScraperConfig): Promise<PolitenessDecision> {
+    const config = settings.politeness;
+    const parsed = new URL(url);
+    const path = `${parsed.pathname}${parsed.search}`;
+    let refusal: string | null = null;
+    let robots: RobotsStatus | 'off' = 'off';
+    let crawlDelayMs: number | null = null;
+
+    if (config.allowPaths.length > 0 && !config.allowPaths.some((pattern) => pathMatches(pattern, path))) {
+      refusal = `${path} is not in politeness.allowPaths`;
+    }
+
+    if (config.robotsTxt) {
+      const robotsTxt = await this.robotsFor(url, settings);
+      const userAgent = robotsUserAgent(settings);
+      const group = selectGroup(robotsTxt.groups, userAgent);
+      const rule = group ? matchingRule(group, path) : null;
+      robots = robotsTxt.status;
+      crawlDelayMs = group?.crawlDelaySeconds != null ? group.crawlDelaySeconds * 1000 : null;
+
+      if (robotsTxt.status === 'unreachable') {
+        refusal ??= `${robotsTxt.url} could not be read (${robotsTxt.error}), so nothing on the site is allowed`;
+      } else if (rule && !rule.allow && parsed.pathname !== '/robots.txt') {
+        refusal ??= `Disallowed by ${robotsTxt.url} for "${group!.agents[0]}" (Disallow: ${rule.path})`;
+      }
+    }
+
+    if (refusal && config.override) {
+      logWarn('Politeness override: visiting a refused URL', { url, refusal });
+      return { allowed: true, refusal, overridden: true, robots, crawlDelayMs };
+    }
+    if (refusal) {
+      logWarn('URL refused', { url, refusal });
+    }
+    return { allowed: refusal === null, refusal, overridden: false, robots, crawlDelayMs };
+  }
+
+  // Waits for a free slot on the URL's host and for its turn after the navigation before it.
+  // The turn is reserved before waiting, so concurrent callers are spaced out too
+  async acquire(url: string, config: PolitenessConfig, crawlDelayMs: number | null = null): Promise<HostSlot> {
+    const host = new URL(url).host;
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { active: 0, nextStartAt: 0, waiters: [] };
+      this.hosts.set(host, state);
+    }
+
+    const start = this.clock.now();
+    const limit = config.maxConcurrentPerHost;
+    while (limit > 0 && state.active >= limit) {
+      logDebug('Waiting for a free connection to the host', { host, active: state.active, maxConcurrentPerHost: limit });
+      await new Promise<void>((resolve) => state!.waiters.push(resolve));
+    }
+    state.active++;
+
+    const now = this.clock.now();
+    const startAt = Math.max(now, state.nextStartAt);
+    state.nextStartAt = startAt + Math.max(config.minHostIntervalMs, crawlDelayMs ?? 0);
+    if (startAt > now) {
+      await this.clock.sleep(startAt - now);
+    }
+
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      state!.active--;
+      state!.waiters.shift()?.();
+    };
+    return { waitedMs: this.clock.now() - start, release };
+  }
+}
+
+export function robotsUserAgent(settings: ScraperConfig): string {
+  return settings.politeness.userAgent ?? settings.fingerprint.userAgent;
+}
+
+// Shared by every scraper of the process unless one is given its own
+export const sharedPoliteness = new Politeness();
@@ -0,0 +1,365 @@
+import fs from 'fs';
+import path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import { config, ScraperConfig } from './config.js';
+import { MercariProduct, extractItemId } from './mercari-product.js';
+import { logInfo, logWarn } from './logger.js';
+
+export interface ProductObservation {
+  itemId: string;
+  observedAt: string;
+  runId: string | null;
+  product: MercariProduct;
+}
+
+export interface StoreRun {
+  runId: string;
+  startedAt: string;
+  label?: string;
+}
+
+export interface PricePoint {
+  observedAt: string;
+  price: number | null;
+}
+
+export type ProductField = 'title' | 'price' | 'isSoldOut' | 'statusText' | 'seller' | 'description';
+
+export interface ProductChange {
+  itemId: string;
+  previous: ProductObservation | null;
+  current: ProductObservation;
+  changedFields: ProductField[];
+}
+
+// Fields compared between observations; URL and image order are not treated as changes
+export const TRACKED_FIELDS: ProductField[] = ['title', 'price', 'isSoldOut', 'statusText', 'seller', 'description'];
+
+export function diffProducts(previous: MercariProduct, current: MercariProduct): ProductField[] {
+  return TRACKED_FIELDS.filter((field) => (previous[field] ?? null) !== (current[field] ?? null));
+}
+
+export function generateRunId(): string {
+  return `run-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+// Storage backends implement the primitives; history queries are shared
+export abstract class ProductStore {
+  abstract readonly kind: 'sqlite' | 'json';
+
+  abstract startRun(label?: string): Promise<StoreRun>;
+  abstract listRuns(): Promise<StoreRun[]>;
+  protected abstract append(observation: ProductObservation): Promise<void>;
+  abstract getHistory(itemId: string): Promise<ProductObservation[]>;
+  abstract getRunObservations(runId: string): Promise<ProductObservation[]>;
+  abstract listItemIds(): Promise<string[]>;
+  abstract close(): Promise<void>;
+
+  async save(product: MercariProduct, runId: string | null = null, observedAt: Date = new Date()): Promise<ProductObservation> {
+    const itemId = extractItemId(product.url);
+    if (!itemId) {
+      throw new Error(`Cannot derive item ID from ${product.url}`);
+    }
+
+    const observation: ProductObservation = {
+      itemId,
+      observedAt: observedAt.toISOString(),
+      runId,
+      product,
+    };
+    await this.append(observation);
+    return observation;
+  }
+
+  async getLatest(itemId: string): Promise<ProductObservation | null> {
+    const history = await this.getHistory(itemId);
+    return history.length > 0 ? history[history.length - 1] : null;
+  }
+
+  async getPriceHistory(itemId: string): Promise<PricePoint[]> {
+    const history = await this.getHistory(itemId);
+    const points: PricePoint[] = [];
+    for (const observation of history) {
+      const last = points[points.length - 1];
+      if (!last || last.price !== observation.product.price) {
+        points.push({ observedAt: observation.observedAt, price: observation.product.price });
+      }
+    }
+    return points;
+  }
+
+  // First observation of the latest on-sale -> sold flip (or the first observation if it was always sold)
+  async getSoldAt(itemId: string): Promise<string | null> {
+    const history = await this.getHistory(itemId);
+    let soldAt: string | null = null;
+    for (const observation of history) {
+      if (observation.product.isSoldOut) {
+        soldAt = soldAt ?? observation.observedAt;
+      } else {
+        soldAt = null;
+      }
+    }
+    return soldAt;
+  }
+
+  // Items whose observation in the given run (default: latest) differs from the one before it
+  async getChangesSinceLastRun(runId?: string): Promise<ProductChange[]> {
+    const runs = await this.listRuns();
+    const run = runId ? runs.find((r) => r.runId === runId) : runs[runs.length - 1];
+    if (!run) return [];
+
+    const latestInRun = new Map<string, ProductObservation>();
+    for (const observation of await this.getRunObservations(run.runId)) {
+      latestInRun.set(observation.itemId, observation);
+    }
+
+    const changes: ProductChange[] = [];
+    for (const [itemId, current] of latestInRun) {
+      const history = await this.getHistory(itemId);
+      const before = history.filter((observation) => observation.runId !== run.runId && observation.observedAt < run.startedAt);
+      const previous = before.length > 0 ? before[before.length - 1] : null;
+      const changedFields = previous ? diffProducts(previous.product, current.product) : [...TRACKED_FIELDS];
+
+      if (changedFields.length > 0) {
+        changes.push({ itemId, previous, current, changedFields });
+      }
+    }
+    return changes;
+  }
+}
+
+// Stores written before records were appended held the whole history in one JSON document
+interface LegacyStoreFile {
+  version: 1;
+  runs: StoreRun[];
+  observations: ProductObservation[];
+}
+
+type JsonStoreRecord = { type: 'run'; run: StoreRun } | { type: 'observation'; observation: ProductObservation };
+
+function isLegacyStoreFile(value: unknown): value is LegacyStoreFile {
+  return typeof value === 'object' && value !== null && Array.isArray((value as LegacyStoreFile).observations);
+}
+
+// One JSON record per line, appended as runs and observations come in, so a save costs one
+// line however long the history is. A legacy single-document file is converted on open
+export class JsonProductStore extends ProductStore {
+  readonly kind = 'json' as const;
+  private runs: StoreRun[] = [];
+  private observations: ProductObservation[] = [];
+
+  constructor(private readonly filePath: string) {
+    super();
+    if (fs.existsSync(filePath)) {
+      this.load(fs.readFileSync(filePath, 'utf-8'));
+    }
+  }
+
+  private load(content: string): void {
+    let whole: unknown = null;
+    try {
+      whole = JSON.parse(content);
+    } catch {
+      // Several lines: the record format
+    }
+    if (isLegacyStoreFile(whole)) {
+      this.runs = whole.runs;
+      this.observations = whole.observations;
+      this.rewrite();
+      return;
+    }
+
+    const lines = content.split('\n').filter((line) => line.trim());
+    lines.forEach((line, index) => {
+      let record: JsonStoreRecord;
+      try {
+        record = JSON.parse(line) as JsonStoreRecord;
+      } catch (error) {
+        // A crash can cut the last append short; anything else is damage worth stopping for
+        if (index < lines.length - 1) throw error;
+        logWarn('Dropping truncated product store record', { path: this.filePath });
+        // Cut it off so the next append starts on a line of its own
+        fs.truncateSync(this.filePath, Buffer.byteLength(content.slice(0, content.lastIndexOf('\n') + 1)));
+        return;
+      }
+      if (record.type === 'run') this.runs.push(record.run);
+      else this.observations.push(record.observation);
+    });
+  }
+
+  private write(record: JsonStoreRecord): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, `${JSON.stringify(record)}\n`);
+  }
+
+  // Converts a legacy file; written to a temp file first so a crash never leaves a truncated store
+  private rewrite(): void {
+    const records: JsonStoreRecord[] = [
+      ...this.runs.map((run) => ({ type: 'run' as const, run })),
+      ...this.observations.map((observation) => ({ type: 'observation' as const, observation })),
+    ];
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, records.map((record) => `${JSON.stringify(record)}\n`).join(''));
+    fs.renameSync(tmpPath, this.filePath);
+    logInfo('Product store converted to one record per line', { path: this.filePath, observations: this.observations.length });
+  }
+
+  async startRun(label?: string): Promise<StoreRun> {
+    const run: StoreRun = { runId: generateRunId(), startedAt: new Date().toISOString(), label };
+    this.runs.push(run);
+    this.write({ type: 'run', run });
+    return run;
+  }
+
+  async listRuns(): Promise<StoreRun[]> {
+    return [...this.runs];
+  }
+
+  protected async append(observation: ProductObservation): Promise<void> {
+    this.observations.push(observation);
+    this.write({ type: 'observation', observation });
+  }
+
+  async getHistory(itemId: string): Promise<ProductObservation[]> {
+    return this.observations
+      .filter((observation) => observation.itemId === itemId)
+      .sort((a, b) => a.observedAt.localeCompare(b.observedAt));
+  }
+
+  async getRunObservations(runId: string): Promise<ProductObservation[]> {
+    return this.observations.filter((observation) => observation.runId === runId);
+  }
+
+  async listItemIds(): Promise<string[]> {
+    return [...new Set(this.observations.map((observation) => observation.itemId))].sort();
+  }
+
+  async close(): Promise<void> {
+    // Every record is appended immediately
+  }
+}
+
+interface ObservationRow {
+  item_id: string;
+  observed_at: string;
+  run_id: string | null;
+  data: string;
+}
+
+interface RunRow {
+  run_id: string;
+  started_at: string;
+  label: string | null;
+}
+
+const SQLITE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS runs (
+    run_id TEXT PRIMARY KEY,
+    started_at TEXT NOT NULL,
+    label TEXT
+  );
+  CREATE TABLE IF NOT EXISTS observations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    item_id TEXT NOT NULL,
+    observed_at TEXT NOT NULL,
+    run_id TEXT,
+    price INTEGER,
+    is_sold_out INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS observations_item ON observations (item_id, observed_at);
+  CREATE INDEX IF NOT EXISTS observations_run ON observations (run_id);
+`;
+
+function toObservation(row: ObservationRow): ProductObservation {
+  return {
+    itemId: row.item_id,
+    observedAt: row.observed_at,
+    runId: row.run_id,
+    product: JSON.parse(row.data) as MercariProduct,
+  };
+}
+
+export class SqliteProductStore extends ProductStore {
+  readonly kind = 'sqlite' as const;
+
+  constructor(private readonly db: BetterSqlite3.Database) {
+    super();
+    db.pragma('journal_mode = WAL');
+    db.exec(SQLITE_SCHEMA);
+  }
+
+  async startRun(label?: string): Promise<StoreRun> {
+    const run: StoreRun = { runId: generateRunId(), startedAt: new Date().toISOString(), label };
+    this.db
+      .prepare('INSERT INTO runs (run_id, started_at, label) VALUES (?, ?, ?)')
+      .run(run.runId, run.startedAt, label ?? null);
+    return run;
+  }
+
+  async listRuns(): Promise<StoreRun[]> {
+    const rows = this.db.prepare('SELECT run_id, started_at, label FROM runs ORDER BY started_at, rowid').all() as RunRow[];
+    return rows.map((row) => ({ runId: row.run_id, startedAt: row.started_at, label: row.label ?? undefined }));
+  }
+
+  protected async append(observation: ProductObservation): Promise<void> {
+    this.db
+      .prepare(
+        'INSERT INTO observations (item_id, observed_at, run_id, price, is_sold_out, data) VALUES (?, ?, ?, ?, ?, ?)'
+      )
+      .run(
+        observation.itemId,
+        observation.observedAt,
+        observation.runId,
+        observation.product.price,
+        observation.product.isSoldOut ? 1 : 0,
+        JSON.stringify(observation.product)
+      );
+  }
+
+  async getHistory(itemId: string): Promise<ProductObservation[]> {
+    const rows = this.db
+      .prepare('SELECT item_id, observed_at, run_id, data FROM observations WHERE item_id = ? ORDER BY observed_at, id')
+      .all(itemId) as ObservationRow[];
+    return rows.map(toObservation);
+  }
+
+  async getRunObservations(runId: string): Promise<ProductObservation[]> {
+    const rows = this.db
+      .prepare('SELECT item_id, observed_at, run_id, data FROM observations WHERE run_id = ? ORDER BY observed_at, id')
+      .all(runId) as ObservationRow[];
+    return rows.map(toObservation);
+  }
+
+  async listItemIds(): Promise<string[]> {
+    const rows = this.db.prepare('SELECT DISTINCT item_id FROM observations ORDER BY item_id').all() as { item_id: string }[];
+    return rows.map((row) => row.item_id);
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
+
+export async function openProductStore(
+  storage: ScraperConfig['storage'] = config.storage,
+  outputDir: string = config.logging.outputDir
+): Promise<ProductStore> {
+  if (storage.type === 'sqlite') {
+    const dbPath = storage.path ?? path.join(outputDir, 'products.db');
+    try {
+      const { default: Database } = await import('better-sqlite3');
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+      const store = new SqliteProductStore(new Database(dbPath));
+      logInfo('Product store opened', { kind: store.kind, path: dbPath });
+      return store;
+    } catch (error) {
+      logWarn('SQLite store unavailable, falling back to JSON file', { error: (error as Error).message });
+    }
+  }
+
+  const jsonPath = storage.type === 'json' && storage.path ? storage.path : path.join(outputDir, 'products.json');
+  const store = new JsonProductStore(jsonPath);
+  logInfo('Product store opened', { kind: store.kind, path: jsonPath });
+  return store;
+}
@@ -0,0 +1,210 @@
+import { RateLimitConfig } from './config.js';
+import { logInfo, logWarn, logDebug } from './logger.js';
+
+export type RateWaitReason = 'none' | 'interval' | 'backoff' | 'hourly_budget' | 'daily_budget';
+
+export interface RateDecision {
+  waitedMs: number;
+  reason: RateWaitReason;
+  currentIntervalMs: number;
+  requestsLastHour: number;
+  requestsLastDay: number;
+}
+
+export interface RateOutcome {
+  statusCode: number | null;
+  retryAfterMs: number | null;
+  banned: boolean;
+  // Navigation threw before any response; neither healthy nor a block
+  failed?: boolean;
+}
+
+export interface RateAdjustment {
+  action: 'none' | 'backoff' | 'relax';
+  backoffMs?: number;
+  backoffUntil?: string;
+  currentIntervalMs: number;
+  consecutiveBlocks: number;
+}
+
+export interface RateClock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Statuses that mean "slow down" rather than "go away"
+const THROTTLE_STATUSES = [429, 503];
+
+const realClock: RateClock = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+// Retry-After is either delta-seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+export class RateLimiter {
+  private requestTimes: number[] = [];
+  private lastRequestStart = 0;
+  private currentIntervalMs: number;
+  private backoffUntil = 0;
+  private backoffStep = 0;
+  private consecutiveHealthy = 0;
+  private consecutiveBlocks = 0;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly config: RateLimitConfig, private readonly clock: RateClock = realClock) {
+    this.currentIntervalMs = config.minIntervalMs;
+  }
+
+  get blockStreak(): number {
+    return this.consecutiveBlocks;
+  }
+
+  get intervalMs(): number {
+    return this.currentIntervalMs;
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - DAY_MS;
+    while (this.requestTimes.length > 0 && this.requestTimes[0] <= cutoff) {
+      this.requestTimes.shift();
+    }
+  }
+
+  private countSince(since: number): number {
+    return this.requestTimes.filter((time) => time > since).length;
+  }
+
+  // Longest of all pending waits, with the constraint that caused it
+  private requiredWait(now: number): { waitMs: number; reason: RateWaitReason } {
+    const candidates: { waitMs: number; reason: RateWaitReason }[] = [];
+
+    if (this.lastRequestStart > 0) {
+      candidates.push({ waitMs: this.lastRequestStart + this.currentIntervalMs - now, reason: 'interval' });
+    }
+    candidates.push({ waitMs: this.backoffUntil - now, reason: 'backoff' });
+
+    if (this.config.maxPerHour > 0) {
+      const inHour = this.requestTimes.filter((time) => time > now - HOUR_MS);
+      if (inHour.length >= this.config.maxPerHour) {
+        const oldest = inHour[inHour.length - this.config.maxPerHour];
+        candidates.push({ waitMs: oldest + HOUR_MS - now, reason: 'hourly_budget' });
+      }
+    }
+
+    if (this.config.maxPerDay > 0 && this.requestTimes.length >= this.config.maxPerDay) {
+      const oldest = this.requestTimes[this.requestTimes.length - this.config.maxPerDay];
+      candidates.push({ waitMs: oldest + DAY_MS - now, reason: 'daily_budget' });
+    }
+
+    return candidates.reduce(
+      (longest, candidate) => (candidate.waitMs > longest.waitMs ? candidate : longest),
+      { waitMs: 0, reason: 'none' as RateWaitReason }
+    );
+  }
+
+  // Waits until the next request is allowed and reserves a slot for it. Concurrent callers
+  // (workers sharing this limiter) are served one at a time, each after the slot before it
+  acquire(): Promise<RateDecision> {
+    const decision = this.queue.then(() => this.reserve());
+    this.queue = decision.catch(() => undefined);
+    return decision;
+  }
+
+  private async reserve(): Promise<RateDecision> {
+    const start = this.clock.now();
+    this.prune(start);
+
+    const { waitMs, reason } = this.requiredWait(start);
+    if (waitMs > 0) {
+      const log = reason === 'interval' ? logDebug : logInfo;
+      log('Rate limiter waiting', { waitMs, reason, currentIntervalMs: this.currentIntervalMs });
+      await this.clock.sleep(waitMs);
+    }
+    // Another worker may have recorded a block and started a backoff meanwhile
+    for (let extra = this.requiredWait(this.clock.now()); extra.waitMs > 0; extra = this.requiredWait(this.clock.now())) {
+      logInfo('Rate limiter waiting', { waitMs: extra.waitMs, reason: extra.reason, currentIntervalMs: this.currentIntervalMs });
+      await this.clock.sleep(extra.waitMs);
+    }
+
+    const now = this.clock.now();
+    this.requestTimes.push(now);
+    this.lastRequestStart = now;
+    const waitedMs = now - start;
+
+    return {
+      waitedMs,
+      reason: waitedMs > 0 ? reason : 'none',
+      currentIntervalMs: this.currentIntervalMs,
+      requestsLastHour: this.countSince(now - HOUR_MS),
+      requestsLastDay: this.requestTimes.length,
+    };
+  }
+
+  // Feeds the result of a request back so the pace can adapt
+  record(outcome: RateOutcome): RateAdjustment {
+    const now = this.clock.now();
+    const throttled =
+      outcome.retryAfterMs !== null || (outcome.statusCode !== null && THROTTLE_STATUSES.includes(outcome.statusCode));
+
+    if (throttled || outcome.banned) {
+      this.consecutiveHealthy = 0;
+      this.consecutiveBlocks++;
+
+      const exponential = this.config.backoffBaseMs * Math.pow(this.config.backoffMultiplier, this.backoffStep);
+      const backoffMs = Math.min(this.config.backoffMaxMs, Math.max(exponential, outcome.retryAfterMs ?? 0));
+      this.backoffStep++;
+      this.backoffUntil = now + backoffMs + this.config.cooldownMs;
+      this.currentIntervalMs = Math.min(
+        this.config.backoffMaxMs,
+        Math.max(this.config.minIntervalMs, this.currentIntervalMs * this.config.backoffMultiplier)
+      );
+
+      logWarn('Rate limiter backing off', {
+        statusCode: outcome.statusCode,
+        retryAfterMs: outcome.retryAfterMs,
+        backoffMs,
+        cooldownMs: this.config.cooldownMs,
+        currentIntervalMs: this.currentIntervalMs,
+      });
+
+      return {
+        action: 'backoff',
+        backoffMs,
+        backoffUntil: new Date(this.backoffUntil).toISOString(),
+        currentIntervalMs: this.currentIntervalMs,
+        consecutiveBlocks: this.consecutiveBlocks,
+      };
+    }
+
+    if (outcome.failed) {
+      this.consecutiveHealthy = 0;
+      return { action: 'none', currentIntervalMs: this.currentIntervalMs, consecutiveBlocks: this.consecutiveBlocks };
+    }
+
+    this.consecutiveBlocks = 0;
+    this.consecutiveHealthy++;
+
+    if (this.consecutiveHealthy >= this.config.relaxAfter && this.currentIntervalMs > this.config.minIntervalMs) {
+      this.consecutiveHealthy = 0;
+      this.backoffStep = Math.max(0, this.backoffStep - 1);
+      this.currentIntervalMs = Math.max(this.config.minIntervalMs, Math.round(this.currentIntervalMs * this.config.relaxFactor));
+      logInfo('Rate limiter relaxing', { currentIntervalMs: this.currentIntervalMs });
+      return { action: 'relax', currentIntervalMs: this.currentIntervalMs, consecutiveBlocks: 0 };
+    }
+
+    return { action: 'none', currentIntervalMs: this.currentIntervalMs, consecutiveBlocks: 0 };
+  }
+}
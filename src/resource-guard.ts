@@ -0,0 +1,105 @@
+import type { Page, Request, Route } from 'playwright';
+import type { ResourceRule, ResourcesConfig } from './config.js';
+import { siteMatches } from './ban-rules.js';
+import { isMainDocument } from './network-recorder.js';
+import { logDebug } from './logger.js';
+
+// rule: a block rule matched; budget: the navigation had used up resources.maxBytesPerNavigation
+export type BlockReason = 'rule' | 'budget';
+
+function hostname(url: string): string | null {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+}
+
+// A rule matches when every criterion it sets matches; within a criterion any value will do
+export function ruleMatches(rule: ResourceRule, request: { url: string; resourceType: string }): boolean {
+  if (rule.resourceTypes?.length && !rule.resourceTypes.includes(request.resourceType)) {
+    return false;
+  }
+  if (rule.domains?.length) {
+    const host = hostname(request.url);
+    if (!host || !rule.domains.some((domain) => siteMatches(domain, host))) return false;
+  }
+  if (rule.urlPatterns?.length && !rule.urlPatterns.some((pattern) => request.url.includes(pattern))) {
+    return false;
+  }
+  return true;
+}
+
+// The first matching rule decides; requests no rule matches are loaded
+export function shouldBlock(rules: ResourceRule[], request: { url: string; resourceType: string }): boolean {
+  return rules.find((rule) => ruleMatches(rule, request))?.action === 'block';
+}
+
+// Whether the guard has anything to do. Routing turns off the HTTP cache, so it is only set up
+// when rules or a budget are configured
+export function guardEnabled(config: ResourcesConfig): boolean {
+  return config.rules.length > 0 || config.maxBytesPerNavigation > 0;
+}
+
+// Aborts the requests of a page that the resource rules block, and every subresource requested
+// after the navigation has loaded maxBytesPerNavigation. The page's own document always loads.
+// Byte counts arrive when requests finish, so a budget can be overshot by requests in flight
+export class ResourceGuard {
+  private blocked = new Map<Request, BlockReason>();
+  private loadedBytes = 0;
+
+  private readonly onRoute = (route: Route, request: Request): Promise<void> => {
+    const reason = this.decide(request);
+    if (reason === null) {
+      return route.fallback();
+    }
+    this.blocked.set(request, reason);
+    logDebug('Request blocked', { url: request.url(), resourceType: request.resourceType(), reason });
+    return route.abort('blockedbyclient');
+  };
+
+  private readonly onRequestFinished = (request: Request): void => {
+    request.sizes().then(
+      (sizes) => {
+        this.loadedBytes += sizes.responseHeadersSize + sizes.responseBodySize;
+      },
+      () => undefined
+    );
+  };
+
+  private constructor(
+    private page: Page,
+    private config: ResourcesConfig
+  ) {}
+
+  // Routes every request of the page through the guard
+  static async attach(page: Page, config: ResourcesConfig): Promise<ResourceGuard> {
+    const guard = new ResourceGuard(page, config);
+    await page.route('**/*', guard.onRoute);
+    page.on('requestfinished', guard.onRequestFinished);
+    return guard;
+  }
+
+  private decide(request: Request): BlockReason | null {
+    if (isMainDocument(this.page, request)) return null;
+    if (shouldBlock(this.config.rules, { url: request.url(), resourceType: request.resourceType() })) return 'rule';
+    const budget = this.config.maxBytesPerNavigation;
+    if (budget > 0 && this.loadedBytes >= budget) return 'budget';
+    return null;
+  }
+
+  // Starts counting a new navigation
+  reset(): void {
+    this.blocked.clear();
+    this.loadedBytes = 0;
+  }
+
+  reasonFor(request: Request): BlockReason | undefined {
+    return this.blocked.get(request);
+  }
+
+  stop(): void {
+    this.page.off('requestfinished', this.onRequestFinished);
+    this.page.unroute('**/*', this.onRoute).catch(() => undefined);
+  }
+}
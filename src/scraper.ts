@@ -1,14 +1,47 @@
-import { chromium } from 'playwright-extra';
-import StealthPlugin from 'puppeteer-extra-plugin-stealth';
-import type { Browser, BrowserContext, Page } from 'playwright';
-import { config, ScraperConfig, FingerprintConfig } from './config.js';
-import { detectBanSignals, setupResponseMonitor, isBanned, getBanReason, BanSignals } from './ban-detector.js';
+import fs from 'fs';
+import path from 'path';
+import type { Browser, BrowserContext, CDPSession, Page, Response } from 'playwright';
+import { config, mergeConfig, validateConfig, ScraperConfig, ScraperConfigOverrides, FingerprintConfig } from './config.js';
+import { detectBanSignals, isBanned, getBanReason, BanSignals } from './ban-detector.js';
+import { resolveBanRules } from './ban-rules.js';
+import { DegradationMonitor, assessDegradation, Degradation } from './degradation.js';
+import { NetworkRecorder, NetworkEntry, NetworkSummary, summarizeNetwork, observedResponses, writeHar } from './network-recorder.js';
 import { applyHumanBehavior } from './human-behavior.js';
-import { logInfo, logError, logRequest, generateRequestId, generateSessionId, RequestLog } from './logger.js';
+import { ResourceGuard, guardEnabled } from './resource-guard.js';
+import { Politeness, PolitenessDecision, sharedPoliteness } from './politeness.js';
+import { BrowserManager } from './browser-manager.js';
+import { RateLimiter, parseRetryAfter } from './rate-limiter.js';
+import { ScrapeErrorType, classifyError, isRetryable, retryDelay } from './errors.js';
+import { SelectorHealthTracker, SelectorProbe, probeSelectors } from './selector-health.js';
+import { ConsoleRecorder, RequestArtifacts, captureArtifacts, pruneArtifacts, shouldCapture } from './artifacts.js';
+import { SessionStore, StorageState, sessionStoreFor, cookieAgeMinutes, isSessionExpired } from './session-store.js';
+import { logInfo, logWarn, logError, logDebug, logRequest, generateRequestId, generateSessionId, RequestLog } from './logger.js';
 
-// Apply stealth plugin
-if (config.stealthEnabled) {
-  chromium.use(StealthPlugin());
+export { launchBrowser } from './browser-manager.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Signals of a navigation that got no page to judge
+function missingPageSignals(responseTimeMs: number): BanSignals {
+  return {
+    captchaDetected: false,
+    httpError: null,
+    unexpectedRedirect: false,
+    contentMissing: true,
+    jsChallenge: false,
+    responseTimeMs,
+    blockedUrl: null,
+  };
+}
+
+// The politeness block of a request log
+function politenessLog(decision: PolitenessDecision, hostWaitedMs: number): RequestLog['politeness'] {
+  return {
+    robots: decision.robots,
+    crawlDelayMs: decision.crawlDelayMs,
+    hostWaitedMs,
+    ...(decision.overridden ? { overridden: decision.refusal! } : {}),
+  };
 }
 
 export interface ScrapeResult<T> {
@@ -16,25 +49,69 @@ export interface ScrapeResult<T> {
   data?: T;
   banSignals: BanSignals;
   error?: string;
+  errorType?: ScrapeErrorType;
+  // Navigation attempts made, including retries
+  attempts?: number;
+  // HTTP status of the page itself, when navigation got a response
+  statusCode?: number;
 }
 
-export abstract class BaseScraper {
-  protected browser: Browser | null = null;
+// T is what scrape() extracts from a page, e.g. a MercariProduct
+export abstract class BaseScraper<T = unknown> {
+  protected browsers: BrowserManager | null = null;
+  // False when the manager was passed to initialize() and belongs to the caller
+  private ownsBrowsers = true;
   protected context: BrowserContext | null = null;
   protected page: Page | null = null;
+  // Age and use of the current context, for browser.recycleAfter*
+  private contextStartTime = 0;
+  private contextRequests = 0;
+  private pageCrashed = false;
+  private cdpSession: CDPSession | null = null;
+  // Set when resources.rules or a byte budget are configured
+  private resourceGuard: ResourceGuard | null = null;
   protected config: ScraperConfig;
   protected sessionId: string;
   protected requestCount: number = 0;
   protected sessionStartTime: number;
   protected lastRequestTime: number = 0;
+  readonly rateLimiter: RateLimiter;
+  readonly politeness: Politeness;
+  readonly selectorHealth = new SelectorHealthTracker();
+  readonly degradation: DegradationMonitor;
+  // A successful navigation's log entry waits here until the subclass reports what it extracted
+  private pendingLog: RequestLog | null = null;
+  // Evidence of the current page: its request, console output, open trace chunk and saved artifacts
+  private evidenceRequestId: string | null = null;
+  private consoleRecorder: ConsoleRecorder | null = null;
+  private traceChunkOpen = false;
+  private artifacts: RequestArtifacts | null = null;
+  // The named session of config.session: where it is saved, the state new contexts start from,
+  // requests made with it before this scraper and the age of the cookies it was restored with
+  private sessionStore: SessionStore | null = null;
+  private sessionState: StorageState | null = null;
+  private sessionRequestsBefore = 0;
+  private cookieAgeAtStart: { minutes: number; at: number } | null = null;
 
-  constructor(customConfig?: Partial<ScraperConfig>) {
-    this.config = { ...config, ...customConfig };
+  // customConfig is deep-merged over the process defaults and only affects this instance.
+  // Pass a shared RateLimiter to keep several scrapers within one budget. Robots.txt and per-host
+  // limits are shared by the whole process unless a Politeness of its own is passed
+  constructor(customConfig?: ScraperConfigOverrides, rateLimiter?: RateLimiter, politeness: Politeness = sharedPoliteness) {
+    this.config = validateConfig(mergeConfig(config, customConfig));
     this.sessionId = generateSessionId();
     this.sessionStartTime = Date.now();
+    this.rateLimiter = rateLimiter ?? new RateLimiter(this.config.rateLimit);
+    this.politeness = politeness;
+    this.degradation = new DegradationMonitor(this.config.degradation);
   }
 
-  async initialize(): Promise<void> {
+  getConfig(): Readonly<ScraperConfig> {
+    return this.config;
+  }
+
+  // A browser or BrowserManager passed in is shared: this scraper opens its own context and page
+  // in it and leaves it running on close(). Otherwise the scraper launches its own browser
+  async initialize(browser?: Browser | BrowserManager): Promise<void> {
     logInfo('Initializing scraper', {
       sessionId: this.sessionId,
       headless: this.config.headless,
@@ -42,28 +119,32 @@ export abstract class BaseScraper {
       humanBehaviorPattern: this.config.humanBehavior.pattern,
     });
 
-    const launchOptions: Parameters<typeof chromium.launch>[0] = {
-      headless: this.config.headless,
-    };
-
-    if (this.config.proxy) {
-      launchOptions.proxy = {
-        server: this.config.proxy.server,
-        username: this.config.proxy.username,
-        password: this.config.proxy.password,
-      };
+    if (this.config.logging.enabled) {
+      try {
+        pruneArtifacts(this.config.logging.outputDir, this.config.artifacts);
+      } catch (error) {
+        logWarn('Could not prune artifacts', { error: (error as Error).message });
+      }
     }
 
-    this.browser = await chromium.launch(launchOptions);
+    if (browser instanceof BrowserManager) {
+      this.browsers = browser;
+      this.ownsBrowsers = false;
+    } else {
+      // A browser of the caller stays theirs; the manager only closes what it relaunches
+      this.browsers = new BrowserManager(this.config, { browser });
+      this.ownsBrowsers = true;
+    }
+    this.restoreSession();
     await this.createContext(this.config.fingerprint);
   }
 
   protected async createContext(fingerprint: FingerprintConfig): Promise<void> {
-    if (!this.browser) {
+    if (!this.browsers) {
       throw new Error('Browser not initialized');
     }
 
-    this.context = await this.browser.newContext({
+    this.context = await this.browsers.newContext({
       userAgent: fingerprint.userAgent,
       locale: fingerprint.locale,
       timezoneId: fingerprint.timezoneId,
@@ -71,9 +152,150 @@ export abstract class BaseScraper {
       permissions: fingerprint.geolocation ? ['geolocation'] : [],
       viewport: { width: 1920, height: 1080 },
       deviceScaleFactor: 1,
+      storageState: this.sessionState ?? undefined,
     });
 
-    this.page = await this.context.newPage();
+    const page = await this.context.newPage();
+    page.once('crash', () => {
+      logWarn('Page crashed', { sessionId: this.sessionId });
+      if (this.page === page) this.pageCrashed = true;
+    });
+    this.page = page;
+    this.resourceGuard = guardEnabled(this.config.resources) ? await ResourceGuard.attach(page, this.config.resources) : null;
+    this.contextStartTime = Date.now();
+    this.contextRequests = 0;
+    this.pageCrashed = false;
+    this.cdpSession = null;
+    this.consoleRecorder = new ConsoleRecorder(this.page);
+    this.traceChunkOpen = false;
+    if (this.tracing()) {
+      await this.context.tracing.start({ screenshots: true, snapshots: true });
+    }
+  }
+
+  // Continues the saved session: its id, start time and request count carry on and new contexts
+  // get its cookies and localStorage. An expired session is deleted and started afresh
+  private restoreSession(): void {
+    const name = this.config.session.name;
+    if (!name) return;
+
+    this.sessionStore = sessionStoreFor(this.config.logging.outputDir);
+    let saved = this.sessionStore.load(name);
+    if (saved && isSessionExpired(saved.info, this.config.session.maxAgeDays)) {
+      logInfo('Session expired; starting a new one', { session: name, createdAt: saved.info.createdAt });
+      this.sessionStore.delete(name);
+      saved = null;
+    }
+    if (!saved) {
+      logInfo('Starting new session', { session: name, sessionId: this.sessionId });
+      return;
+    }
+
+    const now = Date.now();
+    const ageMinutes = cookieAgeMinutes(saved, now);
+    this.sessionId = saved.info.sessionId;
+    this.sessionStartTime = Date.parse(saved.info.createdAt);
+    this.sessionRequestsBefore = saved.info.requestCount;
+    this.sessionState = saved.state;
+    this.cookieAgeAtStart = ageMinutes === null ? null : { minutes: ageMinutes, at: now };
+    logInfo('Session restored', {
+      session: name,
+      sessionId: this.sessionId,
+      cookies: saved.state.cookies.length,
+      cookieAgeMinutes: ageMinutes,
+      requestCount: saved.info.requestCount,
+    });
+  }
+
+  // Writes the context's cookies and localStorage back to the session file
+  private async saveSession(): Promise<void> {
+    const name = this.config.session.name;
+    if (!name || !this.sessionStore || !this.context) return;
+    try {
+      const state = await this.context.storageState();
+      const info = this.sessionStore.save(name, state, {
+        sessionId: this.sessionId,
+        startedAt: this.sessionStartTime,
+        requests: this.requestCount,
+      });
+      logInfo('Session saved', { session: name, cookies: state.cookies.length, requestCount: info.requestCount });
+    } catch (error) {
+      logWarn('Could not save session', { session: name, error: (error as Error).message });
+    }
+  }
+
+  // Traces are recorded in one chunk per navigation and kept only when artifacts are saved
+  private tracing(): boolean {
+    return this.context !== null && this.config.logging.enabled && this.config.artifacts.capture !== 'off' && this.config.artifacts.trace;
+  }
+
+  // Replaces a crashed page, or the whole browser if it disconnected
+  protected async recover(): Promise<void> {
+    logWarn('Recovering browser after crash', { sessionId: this.sessionId });
+    await this.replaceContext();
+  }
+
+  // Closes the page and context and opens new ones; the browser manager relaunches the browser
+  // if it is gone. The new context continues with the cookies and storage gathered so far,
+  // as far as the old one can still tell
+  private async replaceContext(): Promise<void> {
+    if (this.context) {
+      this.sessionState = await this.context.storageState().catch(() => this.sessionState);
+    }
+    this.completeRequestLog();
+    await this.discardTraceChunk();
+    this.consoleRecorder?.stop();
+    await this.page?.close().catch(() => undefined);
+    await this.context?.close().catch(() => undefined);
+    this.page = null;
+    this.context = null;
+    await this.createContext(this.config.fingerprint);
+  }
+
+  // Run before every navigation: recovers from a crash that happened since the last one, which
+  // would otherwise fail every later request, and recycles a context past its browser limits
+  private async prepareContext(): Promise<void> {
+    if (!this.context) return;
+
+    if (this.pageCrashed || !this.context.browser()?.isConnected()) {
+      await this.recover();
+      return;
+    }
+
+    const reason = await this.recycleReason();
+    if (reason) {
+      logInfo('Recycling browser context', { sessionId: this.sessionId, reason });
+      await this.replaceContext();
+    }
+  }
+
+  private async recycleReason(): Promise<string | null> {
+    const limits = this.config.browser;
+    if (limits.recycleAfterRequests > 0 && this.contextRequests >= limits.recycleAfterRequests) {
+      return `${this.contextRequests} requests`;
+    }
+    const ageMinutes = (Date.now() - this.contextStartTime) / 60000;
+    if (limits.recycleAfterMinutes > 0 && ageMinutes >= limits.recycleAfterMinutes) {
+      return `${Math.round(ageMinutes)} minutes old`;
+    }
+    if (limits.maxHeapMb > 0) {
+      const heapMb = await this.heapUsedMb();
+      if (heapMb !== null && heapMb > limits.maxHeapMb) {
+        return `JS heap ${Math.round(heapMb)}MB`;
+      }
+    }
+    return null;
+  }
+
+  // Heap of the page's main JS context; null when the browser cannot tell
+  private async heapUsedMb(): Promise<number | null> {
+    try {
+      this.cdpSession ??= await this.context!.newCDPSession(this.page!);
+      const { usedSize } = await this.cdpSession.send('Runtime.getHeapUsage');
+      return usedSize / (1024 * 1024);
+    } catch {
+      return null;
+    }
   }
 
   async navigate(url: string): Promise<ScrapeResult<void>> {
@@ -81,93 +303,359 @@ export abstract class BaseScraper {
       throw new Error('Page not initialized');
     }
 
+    const decision = await this.politeness.check(url, this.config);
+    if (!decision.allowed) {
+      return { success: false, banSignals: missingPageSignals(0), error: decision.refusal!, errorType: ScrapeErrorType.Disallowed, attempts: 0 };
+    }
+
+    const policy = this.config.retry;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.prepareContext();
+      } catch (error) {
+        logError('Browser recovery failed', error as Error, { url });
+        const message = (error as Error).message;
+        return { success: false, banSignals: missingPageSignals(0), error: message, errorType: ScrapeErrorType.BrowserCrash, attempts: attempt };
+      }
+      const slot = await this.politeness.acquire(url, this.config.politeness, decision.crawlDelayMs);
+      const result = await this.navigateOnce(url, attempt, politenessLog(decision, slot.waitedMs)).finally(slot.release);
+      const retryable = result.errorType !== undefined && isRetryable(result.errorType, policy);
+      if (!retryable || attempt >= policy.maxAttempts) {
+        return { ...result, attempts: attempt };
+      }
+
+      const delayMs = retryDelay(attempt + 1, policy);
+      logWarn('Retrying navigation', { url, attempt, errorType: result.errorType, delayMs });
+
+      if (result.errorType === ScrapeErrorType.BrowserCrash) {
+        try {
+          await this.recover();
+        } catch (error) {
+          logError('Browser recovery failed', error as Error, { url });
+          return { ...result, attempts: attempt };
+        }
+      }
+      await sleep(delayMs);
+    }
+  }
+
+  private async navigateOnce(url: string, attempt: number, politeness: RequestLog['politeness']): Promise<ScrapeResult<void>> {
+    const page = this.page!;
+    this.completeRequestLog();
+    const rateDecision = await this.rateLimiter.acquire();
+    this.contextRequests++;
+
     const requestId = generateRequestId();
+    await this.startEvidence(requestId);
     const startTime = Date.now();
     const intervalSinceLastMs = this.lastRequestTime > 0 ? startTime - this.lastRequestTime : undefined;
 
-    const responseMonitor = setupResponseMonitor(this.page);
+    this.resourceGuard?.reset();
+    const recorder = new NetworkRecorder(page, this.resourceGuard ?? undefined);
 
     try {
-      await this.page.goto(url, { waitUntil: 'networkidle' });
+      const response = await this.load(page, url);
+      const statusCode = response?.status();
+      // responseTimeMs includes the human behavior below; latency is judged on the load alone
+      const loadTimeMs = Date.now() - startTime;
 
       // Apply human behavior if enabled
       if (this.config.humanBehavior.enabled) {
-        await applyHumanBehavior(this.page, this.config.humanBehavior);
+        await applyHumanBehavior(page, this.config.humanBehavior);
       }
 
-      const banSignals = await detectBanSignals(this.page, startTime, url);
-      banSignals.httpError = responseMonitor.getHttpError();
+      const entries = await recorder.finish();
+      const network = summarizeNetwork(entries);
+      const banSignals = await detectBanSignals(page, startTime, url, {
+        rules: resolveBanRules(this.config.banRules, url),
+        responses: observedResponses(entries),
+      });
+
+      const retryAfterMs = parseRetryAfter(network.retryAfter);
+      const rateAdjustment = this.rateLimiter.record({
+        statusCode: banSignals.httpError,
+        retryAfterMs,
+        banned: isBanned(banSignals),
+      });
 
       this.requestCount++;
       this.lastRequestTime = Date.now();
 
-      // Log request
-      if (this.config.logging.enabled) {
-        const log: RequestLog = {
-          timestamp: new Date().toISOString(),
-          requestId,
-          config: {
-            ipType: this.config.proxy ? 'proxy' : 'direct',
-            proxyProvider: this.config.proxy?.server,
-            headless: this.config.headless,
-            stealthEnabled: this.config.stealthEnabled,
-            humanBehaviorPattern: this.config.humanBehavior.pattern,
-          },
-          request: {
-            url,
-            method: 'GET',
-            intervalSinceLastMs,
-          },
-          response: {
-            statusCode: banSignals.httpError || 200,
-            loadTimeMs: banSignals.responseTimeMs,
-          },
-          banSignals: {
-            captchaDetected: banSignals.captchaDetected,
-            httpError: banSignals.httpError,
-            unexpectedRedirect: banSignals.unexpectedRedirect,
-            contentMissing: banSignals.contentMissing,
-            jsChallenge: banSignals.jsChallenge,
-          },
-          session: {
-            sessionId: this.sessionId,
-            requestCountInSession: this.requestCount,
-            sessionDurationMinutes: (Date.now() - this.sessionStartTime) / 60000,
-          },
-        };
-        logRequest(log);
+      const banned = isBanned(banSignals);
+      const error = banned ? `BAN detected: ${getBanReason(banSignals)}` : undefined;
+      banSignals.degradation = assessDegradation(this.degradation.observeResponseTime(loadTimeMs, !banned));
+      if (banned) {
+        await this.captureEvidence(error!);
       }
 
-      if (isBanned(banSignals)) {
-        return {
-          success: false,
-          banSignals,
-          error: `BAN detected: ${getBanReason(banSignals)}`,
-        };
+      this.logNavigation({
+        requestId,
+        url,
+        attempt,
+        intervalSinceLastMs,
+        statusCode: banSignals.httpError || statusCode || 200,
+        contentLength: network.mainDocument?.bytes ?? undefined,
+        network: this.networkLog(requestId, entries, network),
+        banSignals,
+        error: error ? { type: ScrapeErrorType.Blocked, message: error } : undefined,
+        politeness,
+        deferred: !banned,
+        rateControl: {
+          waitedMs: rateDecision.waitedMs,
+          waitReason: rateDecision.reason,
+          currentIntervalMs: rateAdjustment.currentIntervalMs,
+          requestsLastHour: rateDecision.requestsLastHour,
+          requestsLastDay: rateDecision.requestsLastDay,
+          retryAfterMs,
+          action: rateAdjustment.action,
+          backoffMs: rateAdjustment.backoffMs,
+          backoffUntil: rateAdjustment.backoffUntil,
+        },
+      });
+
+      if (banned) {
+        return { success: false, banSignals, error, errorType: ScrapeErrorType.Blocked };
       }
 
-      return { success: true, banSignals };
+      await this.captureEvidence('debug', false);
+      return { success: true, banSignals, statusCode };
     } catch (error) {
-      const banSignals: BanSignals = {
-        captchaDetected: false,
-        httpError: null,
-        unexpectedRedirect: false,
-        contentMissing: true,
-        jsChallenge: false,
-        responseTimeMs: Date.now() - startTime,
-        blockedUrl: null,
-      };
+      recorder.stop();
+      const rateAdjustment = this.rateLimiter.record({ statusCode: null, retryAfterMs: null, banned: false, failed: true });
+      const errorType = classifyError(error);
+      const message = (error as Error).message;
+
+      this.lastRequestTime = Date.now();
+
+      const banSignals = missingPageSignals(Date.now() - startTime);
 
-      logError('Navigation failed', error as Error, { url, requestId });
+      logError('Navigation failed', error as Error, { url, requestId, attempt, errorType });
+      await this.captureEvidence(`Navigation failed: ${message}`);
+
+      this.logNavigation({
+        requestId,
+        url,
+        attempt,
+        intervalSinceLastMs,
+        statusCode: 0,
+        network: this.networkLog(requestId, recorder.list()),
+        banSignals,
+        error: { type: errorType, message },
+        politeness,
+        rateControl: {
+          waitedMs: rateDecision.waitedMs,
+          waitReason: rateDecision.reason,
+          currentIntervalMs: rateAdjustment.currentIntervalMs,
+          requestsLastHour: rateDecision.requestsLastHour,
+          requestsLastDay: rateDecision.requestsLastDay,
+          retryAfterMs: null,
+          action: rateAdjustment.action,
+        },
+      });
 
       return {
         success: false,
         banSignals,
-        error: (error as Error).message,
+        error: message,
+        errorType,
       };
     }
   }
 
+  // Loads url as navigation.waitUntil says. content waits for the DOM, then for any of
+  // contentSelectors(); a page without them, such as a block page, is judged after the timeout
+  private async load(page: Page, url: string): Promise<Response | null> {
+    const { waitUntil, contentTimeoutMs } = this.config.navigation;
+    if (waitUntil !== 'content') {
+      return page.goto(url, { waitUntil });
+    }
+
+    const selectors = this.contentSelectors();
+    if (selectors.length === 0) {
+      return page.goto(url, { waitUntil: 'load' });
+    }
+    const response = await page.goto(url, { waitUntil: 'domcontentloaded' });
+    try {
+      await page.waitForSelector(selectors.join(', '), { timeout: contentTimeoutMs });
+    } catch (error) {
+      if ((error as Error).name !== 'TimeoutError') throw error;
+      logDebug('Content did not appear', { url, timeoutMs: contentTimeoutMs });
+    }
+    return response;
+  }
+
+  // Summary for the request log; writes the HAR when logging.har is on
+  private networkLog(
+    requestId: string,
+    entries: NetworkEntry[],
+    network: NetworkSummary = summarizeNetwork(entries)
+  ): RequestLog['network'] {
+    let harFile: string | undefined;
+    if (this.config.logging.har) {
+      harFile = path.join('har', `${requestId}.har`);
+      try {
+        writeHar(path.join(this.config.logging.outputDir, harFile), entries);
+      } catch (error) {
+        logWarn('Could not write HAR', { requestId, error: (error as Error).message });
+        harFile = undefined;
+      }
+    }
+    return {
+      requestCount: network.requestCount,
+      totalBytes: network.totalBytes,
+      redirectChain: network.redirectChain,
+      subresourceFailures: network.subresourceFailures.length,
+      cfRay: network.cfRay,
+      setCookies: network.setCookies,
+      ...(this.resourceGuard
+        ? {
+            blocking: {
+              loaded: network.requestCount - network.blocked.requests,
+              blocked: network.blocked.requests,
+              byType: network.blocked.byType,
+              overBudget: network.blocked.overBudget,
+            },
+          }
+        : {}),
+      ...(harFile ? { harFile } : {}),
+    };
+  }
+
+  private logNavigation(entry: {
+    requestId: string;
+    url: string;
+    attempt: number;
+    intervalSinceLastMs?: number;
+    statusCode: number;
+    contentLength?: number;
+    network?: RequestLog['network'];
+    banSignals: BanSignals;
+    error?: RequestLog['error'];
+    rateControl: RequestLog['rateControl'];
+    politeness?: RequestLog['politeness'];
+    deferred?: boolean;
+  }): void {
+    // Ban and navigation failure evidence is saved before its entry is written
+    if (!this.config.logging.enabled) return;
+
+    const log: RequestLog = {
+      timestamp: new Date().toISOString(),
+      requestId: entry.requestId,
+      config: {
+        ipType: this.config.proxy ? 'proxy' : 'direct',
+        proxyProvider: this.config.proxy?.server,
+        headless: this.config.headless,
+        stealthEnabled: this.config.stealthEnabled,
+        humanBehaviorPattern: this.config.humanBehavior.pattern,
+      },
+      request: {
+        url: entry.url,
+        method: 'GET',
+        intervalSinceLastMs: entry.intervalSinceLastMs,
+      },
+      response: {
+        statusCode: entry.statusCode,
+        loadTimeMs: entry.banSignals.responseTimeMs,
+        contentLength: entry.contentLength,
+      },
+      network: entry.network,
+      banSignals: {
+        captchaDetected: entry.banSignals.captchaDetected,
+        httpError: entry.banSignals.httpError,
+        unexpectedRedirect: entry.banSignals.unexpectedRedirect,
+        contentMissing: entry.banSignals.contentMissing,
+        jsChallenge: entry.banSignals.jsChallenge,
+        rules: entry.banSignals.rules,
+        degradation: entry.banSignals.degradation,
+      },
+      attempt: entry.attempt,
+      error: entry.error,
+      rateControl: entry.rateControl,
+      politeness: entry.politeness,
+      session: {
+        sessionId: this.sessionId,
+        requestCountInSession: this.sessionRequestsBefore + this.requestCount,
+        sessionDurationMinutes: (Date.now() - this.sessionStartTime) / 60000,
+        ...(this.config.session.name
+          ? {
+              name: this.config.session.name,
+              cookieAgeMinutes: this.cookieAgeAtStart
+                ? this.cookieAgeAtStart.minutes + (Date.now() - this.cookieAgeAtStart.at) / 60000
+                : null,
+            }
+          : {}),
+      },
+      artifacts: this.artifacts ?? undefined,
+      experiment: this.config.experiment,
+    };
+
+    if (entry.deferred) {
+      this.pendingLog = log;
+    } else {
+      logRequest(log, this.config.logging);
+    }
+  }
+
+  // Writes the held log entry for the last successful navigation, with extraction results if any.
+  // Entries not completed by the subclass are written before the next navigation or on close()
+  // degradation replaces the navigation's own assessment once content signals are known
+  protected completeRequestLog(scrapedData?: RequestLog['scrapedData'], degradation?: Degradation): void {
+    if (!this.pendingLog) return;
+    const banSignals = degradation ? { ...this.pendingLog.banSignals, degradation } : this.pendingLog.banSignals;
+    logRequest({ ...this.pendingLog, banSignals, scrapedData }, this.config.logging);
+    this.pendingLog = null;
+  }
+
+  private async startEvidence(requestId: string): Promise<void> {
+    this.evidenceRequestId = requestId;
+    this.artifacts = null;
+    this.consoleRecorder?.reset();
+    if (!this.tracing()) return;
+    await this.discardTraceChunk();
+    await this.context!.tracing.startChunk({ title: requestId });
+    this.traceChunkOpen = true;
+  }
+
+  private async discardTraceChunk(): Promise<void> {
+    if (!this.traceChunkOpen) return;
+    this.traceChunkOpen = false;
+    await this.context?.tracing.stopChunk().catch(() => undefined);
+  }
+
+  // Saves a screenshot, the HTML, console messages and the trace of the last navigation under
+  // <outputDir>/artifacts/<requestId> and links them from its log entry. Navigation captures bans
+  // and failures itself; subclasses call it when extraction fails. failed = false only captures
+  // with artifacts.capture "always" or debug logging. Each request is saved at most once
+  protected async captureEvidence(reason: string, failed: boolean = true): Promise<RequestArtifacts | null> {
+    const requestId = this.evidenceRequestId;
+    if (!this.page || !requestId || !this.config.logging.enabled) return null;
+    if (!shouldCapture(this.config.artifacts, failed, this.config.logging.level === 'debug')) return null;
+
+    if (this.artifacts) {
+      // Saved after navigation in debug mode; the failure is the better reason
+      if (failed) this.artifacts.reason = reason;
+      return this.artifacts;
+    }
+
+    const outputDir = this.config.logging.outputDir;
+    const artifacts = await captureArtifacts(this.page, outputDir, requestId, reason, this.consoleRecorder?.list() ?? []);
+    if (this.traceChunkOpen) {
+      this.traceChunkOpen = false;
+      try {
+        await this.context!.tracing.stopChunk({ path: path.join(outputDir, artifacts.dir, 'trace.zip') });
+        artifacts.files.push('trace.zip');
+      } catch (error) {
+        logWarn('Could not save trace', { requestId, error: (error as Error).message });
+      }
+    }
+
+    this.artifacts = artifacts;
+    if (this.pendingLog?.requestId === requestId) {
+      this.pendingLog.artifacts = artifacts;
+    }
+    return artifacts;
+  }
+
   protected async extractText(selector: string): Promise<string | null> {
     if (!this.page) return null;
     const element = await this.page.$(selector);
@@ -182,12 +670,63 @@ export abstract class BaseScraper {
     return element.getAttribute(attribute);
   }
 
+  protected async extractAllText(selector: string): Promise<string[]> {
+    if (!this.page) return [];
+    const elements = await this.page.$$(selector);
+    const texts = await Promise.all(elements.map((element) => element.textContent()));
+    return texts.filter((text): text is string => text !== null);
+  }
+
+  protected async extractAllAttributes(selector: string, attribute: string): Promise<string[]> {
+    if (!this.page) return [];
+    const elements = await this.page.$$(selector);
+    const values = await Promise.all(elements.map((element) => element.getAttribute(attribute)));
+    return values.filter((value): value is string => value !== null);
+  }
+
+  // Elements that show the page's content has rendered, for navigation.waitUntil "content".
+  // Without any, content waits for the load event
+  protected contentSelectors(): string[] {
+    return [];
+  }
+
+  // Selector groups checkSelectors() probes, e.g. title and price candidates. Only selectors:
+  // groups holding page texts rather than selectors are left out
+  protected selectorGroups(): Record<string, string[]> {
+    return {};
+  }
+
+  // Counts every selector's matches on a live URL or a saved HTML file, without extracting
+  async checkSelectors(target: string): Promise<SelectorProbe[]> {
+    if (!this.page) {
+      throw new Error('Page not initialized');
+    }
+
+    if (fs.existsSync(target)) {
+      await this.page.setContent(fs.readFileSync(target, 'utf-8'));
+    } else {
+      const navResult = await this.navigate(target);
+      this.completeRequestLog();
+      if (!navResult.success) {
+        throw new Error(`Could not load ${target}: ${navResult.error}`);
+      }
+    }
+
+    return probeSelectors(this.page, this.selectorGroups());
+  }
+
   async close(): Promise<void> {
+    this.completeRequestLog();
+    await this.discardTraceChunk();
+    this.consoleRecorder?.stop();
+    const drifted = this.selectorHealth.report().filter((group) => group.alert !== null);
     logInfo('Closing scraper', {
       sessionId: this.sessionId,
       totalRequests: this.requestCount,
       sessionDurationMinutes: (Date.now() - this.sessionStartTime) / 60000,
+      selectorDrift: drifted.length > 0 ? drifted.map((group) => `${group.group}: ${group.alert}`) : undefined,
     });
+    await this.saveSession();
 
     if (this.page) {
       await this.page.close();
@@ -197,11 +736,13 @@ export abstract class BaseScraper {
       await this.context.close();
       this.context = null;
     }
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
+    if (this.browsers) {
+      if (this.ownsBrowsers) {
+        await this.browsers.close();
+      }
+      this.browsers = null;
     }
   }
 
-  abstract scrape(url: string): Promise<ScrapeResult<unknown>>;
+  abstract scrape(url: string): Promise<ScrapeResult<T>>;
 }
@@ -0,0 +1,147 @@
+import type { Page } from 'playwright';
+import { logWarn } from './logger.js';
+
+// primary_missing: the first selector no longer matches although a fallback does.
+// fallback_dominant: the first selector still matches sometimes, but a fallback matches most pages
+export type SelectorDriftAlert = 'primary_missing' | 'fallback_dominant';
+
+export interface SelectorHealthOptions {
+  // Matched lookups needed before a group is judged
+  minSamples?: number;
+  // Share of matched lookups a fallback needs to count as dominant
+  fallbackShare?: number;
+}
+
+export interface SelectorGroupHealth {
+  group: string;
+  lookups: number;
+  misses: number;
+  // Matches per entry of the selector list, primary first
+  matches: number[];
+  // Share of matched lookups the primary selector answered
+  primaryShare: number | null;
+  alert: SelectorDriftAlert | null;
+}
+
+export interface SelectorProbe {
+  group: string;
+  entries: Array<{ selector: string; count: number }>;
+  // First entry that matched, i.e. the one extraction would use
+  matchedIndex: number | null;
+}
+
+const DEFAULT_MIN_SAMPLES = 5;
+const DEFAULT_FALLBACK_SHARE = 0.5;
+
+export function evaluateSelectorGroup(
+  group: string,
+  matches: number[],
+  misses: number,
+  options: SelectorHealthOptions = {}
+): SelectorGroupHealth {
+  const minSamples = options.minSamples ?? DEFAULT_MIN_SAMPLES;
+  const fallbackShare = options.fallbackShare ?? DEFAULT_FALLBACK_SHARE;
+  const matched = matches.reduce((sum, count) => sum + count, 0);
+  const primaryShare = matched > 0 ? matches[0] / matched : null;
+
+  let alert: SelectorDriftAlert | null = null;
+  if (matched >= minSamples) {
+    if (matches[0] === 0) {
+      alert = 'primary_missing';
+    } else if (matches.slice(1).some((count) => count / matched > fallbackShare)) {
+      alert = 'fallback_dominant';
+    }
+  }
+
+  return { group, lookups: matched + misses, misses, matches: [...matches], primaryShare, alert };
+}
+
+// Counts which entry of each selector list answered, for one scraper session
+export class SelectorHealthTracker {
+  private groups = new Map<string, { matches: number[]; misses: number }>();
+  private requestMatches: Record<string, number | null> = {};
+  private alerted = new Set<string>();
+
+  constructor(private options: SelectorHealthOptions = {}) {}
+
+  // index is the matching entry of a list of `size` selectors, null when none matched
+  record(group: string, size: number, index: number | null): void {
+    let stats = this.groups.get(group);
+    if (!stats) {
+      stats = { matches: new Array(size).fill(0), misses: 0 };
+      this.groups.set(group, stats);
+    }
+    if (index === null) {
+      stats.misses++;
+    } else {
+      stats.matches[index]++;
+    }
+    this.requestMatches[group] = index;
+
+    const health = evaluateSelectorGroup(group, stats.matches, stats.misses, this.options);
+    if (health.alert && !this.alerted.has(group)) {
+      this.alerted.add(group);
+      logWarn('Selector drift detected', {
+        group,
+        alert: health.alert,
+        matches: health.matches,
+        primaryShare: health.primaryShare,
+      });
+    }
+  }
+
+  // Entries matched since the last call, for the request log of the page just extracted
+  takeRequestMatches(): Record<string, number | null> {
+    const matches = this.requestMatches;
+    this.requestMatches = {};
+    return matches;
+  }
+
+  report(): SelectorGroupHealth[] {
+    return [...this.groups].map(([group, stats]) => evaluateSelectorGroup(group, stats.matches, stats.misses, this.options));
+  }
+}
+
+// Counts the elements every selector of every group matches on the current page
+export async function probeSelectors(page: Page, groups: Record<string, string[]>): Promise<SelectorProbe[]> {
+  const probes: SelectorProbe[] = [];
+  for (const [group, selectors] of Object.entries(groups)) {
+    const entries: SelectorProbe['entries'] = [];
+    for (const selector of selectors) {
+      entries.push({ selector, count: (await page.$$(selector)).length });
+    }
+    const matchedIndex = entries.findIndex((entry) => entry.count > 0);
+    probes.push({ group, entries, matchedIndex: matchedIndex >= 0 ? matchedIndex : null });
+  }
+  return probes;
+}
+
+// Groups that only match through a fallback; optional fields that match nothing are not drift
+export function driftedProbes(probes: SelectorProbe[]): SelectorProbe[] {
+  return probes.filter((probe) => probe.matchedIndex !== null && probe.matchedIndex > 0);
+}
+
+export function renderSelectorTable(probes: SelectorProbe[]): string {
+  const lines: string[] = [];
+  lines.push('| Group | # | Selector | Matches | |');
+  lines.push('|-------|---|----------|---------|---|');
+  for (const probe of probes) {
+    probe.entries.forEach((entry, index) => {
+      const marker = index === probe.matchedIndex ? (index === 0 ? 'used' : 'used (fallback)') : '';
+      const selector = entry.selector.replace(/\|/g, '\\|');
+      lines.push(`| ${index === 0 ? probe.group : ''} | ${index} | \`${selector}\` | ${entry.count} | ${marker} |`);
+    });
+  }
+
+  const drifted = driftedProbes(probes);
+  lines.push('');
+  if (drifted.length === 0) {
+    lines.push('No drift: every group that matched used its primary selector.');
+  } else {
+    for (const probe of drifted) {
+      lines.push(`DRIFT ${probe.group}: primary selector matched nothing, fell back to #${probe.matchedIndex}`);
+    }
+  }
+  lines.push('');
+  return lines.join('\n');
+}
@@ -0,0 +1,131 @@
+import fs from 'fs';
+import path from 'path';
+import type { BrowserContext } from 'playwright';
+import { SESSION_NAME_PATTERN } from './config.js';
+import { logInfo } from './logger.js';
+
+// Cookies and localStorage of a context, as Playwright saves and restores them
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+// What is known about a saved session besides its storage state
+export interface SessionInfo {
+  name: string;
+  // Kept across processes, so request logs and the analyzer see one session
+  sessionId: string;
+  createdAt: string;
+  lastUsedAt: string;
+  // Navigations made with the session over all runs
+  requestCount: number;
+  // When each cookie ("name@domain") was first saved; cookies age from there
+  cookieFirstSeen: Record<string, string>;
+}
+
+export interface SavedSession {
+  info: SessionInfo;
+  state: StorageState;
+}
+
+export function isValidSessionName(name: string): boolean {
+  return SESSION_NAME_PATTERN.test(name);
+}
+
+function cookieKey(cookie: { name: string; domain: string }): string {
+  return `${cookie.name}@${cookie.domain}`;
+}
+
+// Cookies still valid at now; session cookies (expires -1) count as valid
+export function liveCookies(state: StorageState, now: number = Date.now()): StorageState['cookies'] {
+  return state.cookies.filter((cookie) => cookie.expires < 0 || cookie.expires * 1000 > now);
+}
+
+// Minutes since the oldest live cookie of the session was first saved; null without cookies,
+// i.e. a first-time visitor
+export function cookieAgeMinutes(session: SavedSession, now: number = Date.now()): number | null {
+  const firstSeen = liveCookies(session.state, now)
+    .map((cookie) => Date.parse(session.info.cookieFirstSeen[cookieKey(cookie)] ?? ''))
+    .filter((time) => Number.isFinite(time));
+  return firstSeen.length > 0 ? (now - Math.min(...firstSeen)) / 60000 : null;
+}
+
+// A session is expired maxAgeDays after it was created; 0 keeps sessions forever
+export function isSessionExpired(info: SessionInfo, maxAgeDays: number, now: number = Date.now()): boolean {
+  return maxAgeDays > 0 && now - Date.parse(info.createdAt) > maxAgeDays * 24 * 60 * 60 * 1000;
+}
+
+// Named storage states under one directory (<outputDir>/sessions), one <name>.json each
+export class SessionStore {
+  constructor(readonly dir: string) {}
+
+  private filePath(name: string): string {
+    if (!isValidSessionName(name)) {
+      throw new Error(`Invalid session name "${name}" (use letters, digits, ".", "_" and "-")`);
+    }
+    return path.join(this.dir, `${name}.json`);
+  }
+
+  load(name: string): SavedSession | null {
+    const filePath = this.filePath(name);
+    return fs.existsSync(filePath) ? (JSON.parse(fs.readFileSync(filePath, 'utf-8')) as SavedSession) : null;
+  }
+
+  // Replaces the storage state and adds requests to the saved count. Scrapers sharing a session
+  // each add their own requests; the state of the last one to close is kept
+  save(name: string, state: StorageState, usage: { sessionId: string; startedAt: number; requests: number }, now: number = Date.now()): SessionInfo {
+    const filePath = this.filePath(name);
+    const previous = this.load(name)?.info;
+    const timestamp = new Date(now).toISOString();
+    const cookieFirstSeen = Object.fromEntries(
+      state.cookies.map((cookie) => [cookieKey(cookie), previous?.cookieFirstSeen[cookieKey(cookie)] ?? timestamp])
+    );
+    const info: SessionInfo = {
+      name,
+      sessionId: previous?.sessionId ?? usage.sessionId,
+      createdAt: previous?.createdAt ?? new Date(usage.startedAt).toISOString(),
+      lastUsedAt: timestamp,
+      requestCount: (previous?.requestCount ?? 0) + usage.requests,
+      cookieFirstSeen,
+    };
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify({ info, state } satisfies SavedSession, null, 2));
+    fs.renameSync(tmpPath, filePath);
+    return info;
+  }
+
+  // Most recently used first
+  list(): SavedSession[] {
+    if (!fs.existsSync(this.dir)) return [];
+    return fs
+      .readdirSync(this.dir)
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => this.load(path.basename(file, '.json')))
+      .filter((session): session is SavedSession => session !== null)
+      .sort((a, b) => b.info.lastUsedAt.localeCompare(a.info.lastUsedAt));
+  }
+
+  delete(name: string): boolean {
+    const filePath = this.filePath(name);
+    if (!fs.existsSync(filePath)) return false;
+    fs.rmSync(filePath);
+    return true;
+  }
+
+  // Deletes the sessions older than maxAgeDays and returns their names
+  expire(maxAgeDays: number, now: number = Date.now()): string[] {
+    const expired = this.list()
+      .filter((session) => isSessionExpired(session.info, maxAgeDays, now))
+      .map((session) => session.info.name);
+    for (const name of expired) {
+      this.delete(name);
+    }
+    if (expired.length > 0) {
+      logInfo('Expired sessions removed', { removed: expired });
+    }
+    return expired;
+  }
+}
+
+export function sessionStoreFor(outputDir: string): SessionStore {
+  return new SessionStore(path.join(outputDir, 'sessions'));
+}
@@ -0,0 +1,100 @@
+import type { BaseScraper } from './scraper.js';
+import type { RateLimiter } from './rate-limiter.js';
+import type { ProductStore } from './product-store.js';
+import type { ExportColumn } from './exporter.js';
+import { mergeOverrides, BanRuleDefinition, ScraperConfigOverrides } from './config.js';
+import { siteMatches } from './ban-rules.js';
+import { mercariAdapter } from './mercari-adapter.js';
+
+// Everything the CLI and batch runner need to know about one site. The scraper the adapter
+// builds holds the site's selectors and extractors; the rest is declared here
+export interface SiteAdapter<T = unknown> {
+  // Used by --site and in logs, e.g. "mercari"
+  id: string;
+  name: string;
+  // Hostnames the adapter serves; like banRules.sites, a host also covers its subdomains
+  hosts: string[];
+  // Narrows the match within those hosts, e.g. to item pages. Defaults to every URL
+  matchUrl?: (url: URL) => boolean;
+  // Site defaults such as the fingerprint and rate limits. The CLI layers them right above the
+  // built-in defaults; library callers get them under their own overrides
+  config?: ScraperConfigOverrides;
+  // Ban rules for the site's hosts, added to the registered rules like banRules.sites entries
+  banRules?: BanRuleDefinition[];
+  createScraper(settings?: ScraperConfigOverrides, rateLimiter?: RateLimiter): BaseScraper<T>;
+  // Lines the CLI prints for a successful result, e.g. "Title: ..."
+  describe(data: T): string[];
+  // Columns of --output exports
+  columns: ExportColumn<T>[];
+  // Keeps a successful result in the product history; results of adapters without it are not stored
+  save?(store: ProductStore, data: T, runId: string): Promise<unknown>;
+}
+
+// The parts of an adapter that do not depend on its result type
+type SiteMatcher = Pick<SiteAdapter, 'hosts' | 'matchUrl' | 'config' | 'banRules'>;
+
+// The adapter's config with its ban rules filed under each of its hosts
+export function siteConfig(adapter: SiteMatcher): ScraperConfigOverrides {
+  const banRules: ScraperConfigOverrides | undefined = adapter.banRules?.length
+    ? { banRules: { sites: Object.fromEntries(adapter.hosts.map((host) => [host, adapter.banRules!])) } }
+    : undefined;
+  return mergeOverrides(adapter.config, banRules);
+}
+
+export function adapterMatches(adapter: SiteMatcher, url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  return adapter.hosts.some((host) => siteMatches(host, parsed.hostname)) && (adapter.matchUrl?.(parsed) ?? true);
+}
+
+// Adapters the CLI and batchScrape choose from. The first registered adapter is the default for
+// URLs no adapter claims, such as a local mock server or a saved page
+export class SiteAdapterRegistry {
+  private adapters = new Map<string, SiteAdapter<unknown>>();
+
+  // An adapter with an existing id replaces it in place. Adapters are kept without their
+  // result type; callers that need it pass the adapter itself, as batchScrape allows
+  register<T>(adapter: SiteAdapter<T>): void {
+    this.adapters.set(adapter.id, adapter);
+  }
+
+  unregister(id: string): boolean {
+    return this.adapters.delete(id);
+  }
+
+  list(): SiteAdapter<unknown>[] {
+    return [...this.adapters.values()];
+  }
+
+  get(id: string): SiteAdapter<unknown> {
+    const adapter = this.adapters.get(id);
+    if (!adapter) {
+      throw new Error(`Unknown site "${id}" (expected ${[...this.adapters.keys()].join(', ')})`);
+    }
+    return adapter;
+  }
+
+  forUrl(url: string): SiteAdapter<unknown> | null {
+    return this.list().find((adapter) => adapterMatches(adapter, url)) ?? null;
+  }
+
+  // The adapter serving every URL in the list; one batch runs on one kind of scraper
+  resolve(urls: string[]): SiteAdapter<unknown> {
+    const fallback = this.list()[0];
+    if (!fallback) {
+      throw new Error('No site adapters registered');
+    }
+    const matched = [...new Set(urls.map((url) => this.forUrl(url) ?? fallback))];
+    if (matched.length > 1) {
+      throw new Error(`URLs belong to different sites (${matched.map((adapter) => adapter.id).join(', ')}); scrape them separately or pass --site`);
+    }
+    return matched[0] ?? fallback;
+  }
+}
+
+export const siteAdapters = new SiteAdapterRegistry();
+siteAdapters.register(mercariAdapter);
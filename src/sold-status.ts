@@ -0,0 +1,105 @@
+import type { FieldSource } from './structured-data.js';
+
+// on_sale: can be bought; trading: bought, transaction in progress; sold_out: transaction done;
+// deleted: removed or suspended (公開停止) by the seller or Mercari, the page no longer shows the item
+export type SoldStatus = 'on_sale' | 'trading' | 'sold_out' | 'deleted' | 'unknown';
+
+export const SOLD_STATUSES: SoldStatus[] = ['on_sale', 'trading', 'sold_out', 'deleted', 'unknown'];
+
+export const SOLD_STATUS_TEXT: Record<SoldStatus, string> = {
+  on_sale: '販売中',
+  trading: '取引中',
+  sold_out: '売り切れ',
+  deleted: '削除済み',
+  unknown: '不明',
+};
+
+// How far one observation is trusted on its own. Structured status fields come from the
+// same data the page renders; DOM signals are heuristics and page-wide texts the weakest
+export const STATUS_SIGNAL_WEIGHTS = {
+  api_status: 1,
+  state_status: 0.9,
+  not_found_status: 0.9,
+  deleted_text: 0.9,
+  disabled_purchase_button: 0.8,
+  purchase_button: 0.7,
+  json_ld_availability: 0.6,
+  sold_badge: 0.5,
+  sold_text: 0.4,
+} as const;
+
+export type StatusSignal = keyof typeof STATUS_SIGNAL_WEIGHTS;
+
+export interface SoldStatusEvidence {
+  // 'http' is the status code of the item page itself
+  source: FieldSource | 'http';
+  signal: StatusSignal;
+  status: Exclude<SoldStatus, 'unknown'>;
+  weight: number;
+  // What matched, e.g. the selector or text
+  detail?: string;
+}
+
+export interface SoldStatusAssessment {
+  status: SoldStatus;
+  // 0-1: share of the evidence weight that supports the status, scaled down when
+  // the supporting evidence is weak on its own (a lone sold text scores 0.4)
+  confidence: number;
+  evidence: SoldStatusEvidence[];
+}
+
+export function statusEvidence(
+  source: SoldStatusEvidence['source'],
+  signal: StatusSignal,
+  status: SoldStatusEvidence['status'],
+  detail?: string
+): SoldStatusEvidence {
+  return { source, signal, status, weight: STATUS_SIGNAL_WEIGHTS[signal], ...(detail !== undefined ? { detail } : {}) };
+}
+
+// DOM signals cannot tell trading from sold_out, so both count as "bought" when weighing
+type StatusClass = 'on_sale' | 'bought' | 'deleted';
+
+function classOf(status: Exclude<SoldStatus, 'unknown'>): StatusClass {
+  return status === 'trading' || status === 'sold_out' ? 'bought' : status;
+}
+
+// Weighs every observation instead of trusting the first one that fires. Within "bought",
+// the most trusted single observation decides between trading and sold_out
+export function assessSoldStatus(evidence: SoldStatusEvidence[]): SoldStatusAssessment {
+  if (evidence.length === 0) {
+    return { status: 'unknown', confidence: 0, evidence };
+  }
+
+  const totals = new Map<StatusClass, number>();
+  for (const item of evidence) {
+    totals.set(classOf(item.status), (totals.get(classOf(item.status)) ?? 0) + item.weight);
+  }
+  const total = [...totals.values()].reduce((sum, weight) => sum + weight, 0);
+  // Ties go to the class listed first: a deleted page outranks leftover buttons
+  const [winner, weight] = (['deleted', 'bought', 'on_sale'] as StatusClass[])
+    .map((statusClass): [StatusClass, number] => [statusClass, totals.get(statusClass) ?? 0])
+    .reduce((best, candidate) => (candidate[1] > best[1] ? candidate : best));
+
+  const status =
+    winner === 'bought'
+      ? evidence
+          .filter((item) => classOf(item.status) === 'bought')
+          .reduce((best, item) => (item.weight > best.weight ? item : best)).status
+      : winner;
+  const confidence = Math.round((weight / total) * Math.min(1, weight) * 100) / 100;
+
+  return { status, confidence, evidence };
+}
+
+// Keeps isSoldOut meaning "was bought"; deleted items are gone but were not sold
+export function isSoldStatus(status: SoldStatus): boolean {
+  return status === 'trading' || status === 'sold_out';
+}
+
+// Evidence that backs the assessed status, most trusted first
+export function supportingEvidence(assessment: SoldStatusAssessment): SoldStatusEvidence[] {
+  if (assessment.status === 'unknown') return [];
+  const target = classOf(assessment.status);
+  return assessment.evidence.filter((item) => classOf(item.status) === target).sort((a, b) => b.weight - a.weight);
+}
@@ -0,0 +1,108 @@
+import type { Page, Response } from 'playwright';
+import { logDebug } from './logger.js';
+
+// Where an extracted field came from, most trusted first
+export type FieldSource = 'api' | 'next-data' | 'json-ld' | 'dom';
+
+export const FIELD_SOURCES: FieldSource[] = ['api', 'next-data', 'json-ld', 'dom'];
+
+const JSON_LD_PATTERN = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+const NEXT_DATA_PATTERN = /<script[^>]*id=["']__NEXT_DATA__["'][^>]*>([\s\S]*?)<\/script>/i;
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text.trim());
+  } catch {
+    return undefined;
+  }
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Every JSON-LD node on the page, with arrays and @graph containers flattened
+export function extractJsonLd(html: string): Record<string, unknown>[] {
+  const nodes: Record<string, unknown>[] = [];
+  const visit = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (isRecord(value)) {
+      nodes.push(value);
+      if (Array.isArray(value['@graph'])) value['@graph'].forEach(visit);
+    }
+  };
+
+  for (const match of html.matchAll(JSON_LD_PATTERN)) {
+    const parsed = parseJson(match[1]);
+    if (parsed === undefined) {
+      logDebug('Skipping malformed JSON-LD block');
+      continue;
+    }
+    visit(parsed);
+  }
+  return nodes;
+}
+
+export function hasJsonLdType(node: Record<string, unknown>, type: string): boolean {
+  const declared = node['@type'];
+  return Array.isArray(declared) ? declared.includes(type) : declared === type;
+}
+
+// The state object a server-rendered app embeds for hydration
+export function extractNextData(html: string): unknown {
+  const match = html.match(NEXT_DATA_PATTERN);
+  return match ? parseJson(match[1]) : undefined;
+}
+
+// Depth-first search through embedded state for the first object the predicate accepts
+export function findInState(
+  state: unknown,
+  predicate: (value: Record<string, unknown>) => boolean,
+  maxDepth: number = 20
+): Record<string, unknown> | null {
+  if (maxDepth < 0) return null;
+  if (Array.isArray(state)) {
+    for (const item of state) {
+      const found = findInState(item, predicate, maxDepth - 1);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (!isRecord(state)) return null;
+  if (predicate(state)) return state;
+  for (const value of Object.values(state)) {
+    const found = findInState(value, predicate, maxDepth - 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+export interface JsonResponseCapture {
+  // Bodies of the matching JSON responses seen so far, in arrival order
+  bodies(): Promise<unknown[]>;
+  stop(): void;
+}
+
+// Collects JSON bodies of responses whose URL matches, e.g. the item API the page calls while rendering
+export function captureJsonResponses(page: Page, urlPattern: RegExp): JsonResponseCapture {
+  const pending: Promise<unknown>[] = [];
+
+  const listener = (response: Response): void => {
+    if (!urlPattern.test(response.url()) || response.status() >= 400) return;
+    pending.push(
+      response.json().catch((error: Error) => {
+        logDebug('Could not read captured response', { url: response.url(), error: error.message });
+        return undefined;
+      })
+    );
+  };
+  page.on('response', listener);
+
+  return {
+    bodies: async () => (await Promise.all(pending)).filter((body) => body !== undefined),
+    stop: () => {
+      page.off('response', listener);
+    },
+  };
+}
@@ -0,0 +1,268 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseRequestLogs,
+  analyzeRequestLogs,
+  buildIntervalCurve,
+  deriveRecommendation,
+  parseGroupBy,
+  percentile,
+  renderMarkdownReport,
+  renderJsonReport,
+} from '../analyzer.js';
+import type { RequestLog } from '../logger.js';
+
+interface LogOptions {
+  session?: string;
+  index?: number;
+  pattern?: string;
+  stealth?: boolean;
+  headless?: boolean;
+  ipType?: string;
+  intervalMs?: number;
+  loadTimeMs?: number;
+  captcha?: boolean;
+  httpError?: number | null;
+  redirect?: boolean;
+}
+
+function makeLog(options: LogOptions = {}): RequestLog {
+  const index = options.index ?? 1;
+  return {
+    timestamp: new Date(Date.UTC(2024, 0, 15, 1, 0, index)).toISOString(),
+    requestId: `req-${options.session ?? 's1'}-${index}`,
+    config: {
+      ipType: options.ipType ?? 'direct',
+      headless: options.headless ?? true,
+      stealthEnabled: options.stealth ?? true,
+      humanBehaviorPattern: options.pattern ?? 'B',
+    },
+    request: {
+      url: 'https://jp.mercari.com/item/m10000001',
+      method: 'GET',
+      intervalSinceLastMs: options.intervalMs,
+    },
+    response: {
+      statusCode: options.httpError ?? 200,
+      loadTimeMs: options.loadTimeMs ?? 1000,
+    },
+    banSignals: {
+      captchaDetected: options.captcha ?? false,
+      httpError: options.httpError ?? null,
+      unexpectedRedirect: options.redirect ?? false,
+      contentMissing: false,
+      jsChallenge: false,
+    },
+    session: {
+      sessionId: options.session ?? 's1',
+      requestCountInSession: index,
+      sessionDurationMinutes: index / 60,
+    },
+  };
+}
+
+// Emulates the winston JSON line written by logRequest
+function toLine(log: RequestLog): string {
+  return JSON.stringify({ ...log, level: 'info', message: 'request' });
+}
+
+describe('parseRequestLogs', () => {
+  it('keeps request entries and skips other log lines', () => {
+    const content = [
+      JSON.stringify({ level: 'info', message: 'Initializing scraper', sessionId: 's1' }),
+      toLine(makeLog({ index: 1 })),
+      '',
+      '{not json',
+      toLine(makeLog({ index: 2 })),
+    ].join('\n');
+
+    const logs = parseRequestLogs(content);
+
+    expect(logs.map((log) => log.requestId)).toEqual(['req-s1-1', 'req-s1-2']);
+  });
+});
+
+describe('percentile', () => {
+  it('uses the nearest-rank method', () => {
+    const values = [100, 200, 300, 400, 500, 600, 700, 800, 900, 1000];
+    expect(percentile(values, 50)).toBe(500);
+    expect(percentile(values, 90)).toBe(900);
+    expect(percentile(values, 99)).toBe(1000);
+    expect(percentile([], 50)).toBe(0);
+  });
+});
+
+describe('parseGroupBy', () => {
+  it('accepts known dimensions', () => {
+    expect(parseGroupBy('session, pattern,ipType')).toEqual(['session', 'pattern', 'ipType']);
+  });
+
+  it('rejects unknown dimensions', () => {
+    expect(() => parseGroupBy('pattern,browser')).toThrow('Unknown group dimension "browser"');
+  });
+});
+
+describe('buildIntervalCurve', () => {
+  it('buckets requests by interval and skips the first request of a session', () => {
+    const curve = buildIntervalCurve([
+      makeLog({ index: 1 }),
+      makeLog({ index: 2, intervalMs: 2000, captcha: true }),
+      makeLog({ index: 3, intervalMs: 5500 }),
+      makeLog({ index: 4, intervalMs: 9999, httpError: 429 }),
+      makeLog({ index: 5, intervalMs: 61000 }),
+    ]);
+
+    expect(curve.map((bucket) => [bucket.label, bucket.requests, bucket.bans])).toEqual([
+      ['<3s', 1, 1],
+      ['5-10s', 2, 1],
+      ['>=60s', 1, 0],
+    ]);
+    expect(curve[1].banRate).toBe(0.5);
+  });
+});
+
+describe('deriveRecommendation', () => {
+  it('takes the tightest ban-free interval above the last banned one', () => {
+    const curve = buildIntervalCurve([
+      makeLog({ index: 1, intervalMs: 3000, captcha: true }),
+      makeLog({ index: 2, intervalMs: 5000 }),
+      makeLog({ index: 3, intervalMs: 10000, httpError: 403 }),
+      makeLog({ index: 4, intervalMs: 15000 }),
+      makeLog({ index: 5, intervalMs: 30000 }),
+    ]);
+
+    const rec = deriveRecommendation(curve);
+
+    expect(rec.observedLimitMs).toBe(15000);
+    expect(rec.limitIsUpperBound).toBe(false);
+    expect(rec.recommendedIntervalMs).toEqual({ min: 30000, max: 45000 });
+    expect(rec.operationLevels).toEqual([
+      { name: '通常運用', intervalMs: 45000, maxRequestsPerHour: 72, pattern: 'B' },
+      { name: '安全運用', intervalMs: 75000, maxRequestsPerHour: 48, pattern: 'C' },
+      { name: '最安全運用', intervalMs: 150000, maxRequestsPerHour: 24, pattern: 'C + IPローテ' },
+    ]);
+  });
+
+  it('marks the limit as an upper bound when nothing was banned', () => {
+    const rec = deriveRecommendation(buildIntervalCurve([makeLog({ index: 2, intervalMs: 5000 })]));
+
+    expect(rec.observedLimitMs).toBe(5000);
+    expect(rec.limitIsUpperBound).toBe(true);
+  });
+
+  it('gives no recommendation when every interval was banned', () => {
+    const rec = deriveRecommendation(buildIntervalCurve([makeLog({ index: 2, intervalMs: 60000, captcha: true })]));
+
+    expect(rec.observedLimitMs).toBeNull();
+    expect(rec.recommendedIntervalMs).toBeNull();
+  });
+});
+
+describe('analyzeRequestLogs', () => {
+  const logs = [
+    makeLog({ session: 'a', index: 1, pattern: 'A', loadTimeMs: 800 }),
+    makeLog({ session: 'a', index: 2, pattern: 'A', intervalMs: 3000, loadTimeMs: 1200 }),
+    makeLog({ session: 'a', index: 3, pattern: 'A', intervalMs: 3000, loadTimeMs: 1500, captcha: true }),
+    makeLog({ session: 'b', index: 1, pattern: 'C', stealth: false, loadTimeMs: 2000 }),
+    makeLog({ session: 'b', index: 2, pattern: 'C', stealth: false, intervalMs: 5000, redirect: true }),
+  ];
+
+  it('groups by the requested dimensions', () => {
+    const report = analyzeRequestLogs(logs, { groupBy: ['pattern'] });
+
+    expect(report.totalRequests).toBe(5);
+    expect(report.totalBans).toBe(2);
+    expect(report.groups.map((group) => group.label)).toEqual(['pattern=A', 'pattern=C']);
+
+    const [a, c] = report.groups;
+    expect(a.requests).toBe(3);
+    expect(a.banRate).toBeCloseTo(1 / 3);
+    expect(a.firstBanRequestIndex).toBe(3);
+    expect(a.banReasons).toEqual({ CAPTCHA: 1 });
+    expect(a.latency).toMatchObject({ min: 800, p50: 1200, max: 1500 });
+    expect(c.banReasons).toEqual({ Redirect: 1 });
+    expect(c.firstBanRequestIndex).toBe(2);
+  });
+
+  it('counts the first ban within its session when sessions interleave', () => {
+    const at = (log: RequestLog, second: number): RequestLog => ({ ...log, timestamp: new Date(Date.UTC(2024, 0, 15, 2, 0, second)).toISOString() });
+    const report = analyzeRequestLogs(
+      [
+        at(makeLog({ session: 'a', index: 1 }), 1),
+        at(makeLog({ session: 'b', index: 1 }), 2),
+        at(makeLog({ session: 'a', index: 2, intervalMs: 2000 }), 3),
+        at(makeLog({ session: 'b', index: 2, intervalMs: 2000, captcha: true }), 4),
+        at(makeLog({ session: 'a', index: 3, intervalMs: 2000, captcha: true }), 5),
+      ],
+      { groupBy: ['pattern'] }
+    );
+
+    expect(report.groups[0].sessions).toBe(2);
+    expect(report.groups[0].firstBanRequestIndex).toBe(2);
+  });
+
+  it('defaults to grouping by configuration', () => {
+    const report = analyzeRequestLogs(logs);
+
+    expect(report.groups.map((group) => group.label)).toEqual([
+      'pattern=A stealth=true headless=true ipType=direct',
+      'pattern=C stealth=false headless=true ipType=direct',
+    ]);
+  });
+
+  it('can group by session', () => {
+    const report = analyzeRequestLogs(logs, { groupBy: ['session'] });
+    expect(report.groups.map((group) => [group.label, group.sessions])).toEqual([
+      ['session=a', 1],
+      ['session=b', 1],
+    ]);
+  });
+
+  it('can group by experiment run', () => {
+    const tagged = logs.map((log, i) => ({
+      ...log,
+      experiment: i < 3 ? { experimentId: 'phase3', runId: 'phase3-001', variables: { pattern: 'A' } } : undefined,
+    }));
+    const report = analyzeRequestLogs(tagged, { groupBy: ['run'] });
+    expect(report.groups.map((group) => [group.label, group.requests])).toEqual([
+      ['run=none', 2],
+      ['run=phase3-001', 3],
+    ]);
+  });
+
+  it('can group by the age of the session cookies', () => {
+    const ages = [undefined, null, 30, 2000, 20000];
+    const withCookies = logs.map((log, i) => ({
+      ...log,
+      session: { ...log.session, ...(ages[i] !== undefined ? { name: 'warm', cookieAgeMinutes: ages[i] } : {}) },
+    }));
+    const report = analyzeRequestLogs(withCookies, { groupBy: ['cookies'] });
+    expect(report.groups.map((group) => group.label).sort()).toEqual(
+      ['cookies=no-session', 'cookies=none', 'cookies=<1h', 'cookies=<7d', 'cookies=7d+'].sort()
+    );
+  });
+});
+
+describe('report rendering', () => {
+  const report = analyzeRequestLogs(
+    [
+      makeLog({ index: 1 }),
+      makeLog({ index: 2, intervalMs: 3000, captcha: true }),
+      makeLog({ index: 3, intervalMs: 10000 }),
+    ],
+    { groupBy: ['pattern'], sources: ['logs/requests.jsonl'] }
+  );
+
+  it('renders Markdown with summary, curve and operation levels', () => {
+    const markdown = renderMarkdownReport(report);
+
+    expect(markdown).toContain('| pattern=B | 1 | 3 | 1 | 33.3% | 2 |');
+    expect(markdown).toContain('| 3-5s | 1 | 1 | 100.0% |');
+    expect(markdown).toContain('| 通常運用 | 30s | 108 | パターンB |');
+    expect(markdown).toContain('`logs/requests.jsonl`');
+  });
+
+  it('renders JSON that round-trips', () => {
+    const parsed = JSON.parse(renderJsonReport(report));
+    expect(parsed.groups[0].recommendation.observedLimitMs).toBe(10000);
+  });
+});
@@ -0,0 +1,137 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Page } from 'playwright';
+import { ConsoleRecorder, captureArtifacts, pruneArtifacts, shouldCapture } from '../artifacts.js';
+import { BaseScraper, ScrapeResult } from '../scraper.js';
+import { config, ArtifactsConfig } from '../config.js';
+import { configureLogger } from '../logger.js';
+import { parseRequestLogs } from '../analyzer.js';
+import { createFakePage } from './helpers.js';
+
+const ITEM_URL = 'https://jp.mercari.com/item/m10000001';
+
+function artifactsConfig(overrides: Partial<ArtifactsConfig> = {}): ArtifactsConfig {
+  return { capture: 'failure', trace: false, retentionDays: 7, maxEntries: 500, ...overrides };
+}
+
+let outputDir: string;
+
+beforeEach(() => {
+  outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'artifacts-'));
+});
+
+afterEach(() => {
+  fs.rmSync(outputDir, { recursive: true, force: true });
+});
+
+describe('shouldCapture', () => {
+  it('captures failures, and everything when always or in debug mode', () => {
+    expect(shouldCapture(artifactsConfig(), true)).toBe(true);
+    expect(shouldCapture(artifactsConfig(), false)).toBe(false);
+    expect(shouldCapture(artifactsConfig(), false, true)).toBe(true);
+    expect(shouldCapture(artifactsConfig({ capture: 'always' }), false)).toBe(true);
+    expect(shouldCapture(artifactsConfig({ capture: 'off' }), true, true)).toBe(false);
+  });
+});
+
+describe('captureArtifacts', () => {
+  it('writes the screenshot, HTML and console output of the page', async () => {
+    const fake = createFakePage({ url: ITEM_URL, html: '<html><body>captcha</body></html>' });
+    Object.assign(fake.page, { screenshot: vi.fn(async ({ path: file }: { path: string }) => fs.writeFileSync(file, 'png')) });
+    const recorder = new ConsoleRecorder(fake.page);
+
+    fake.emitConsole('error', 'Failed to load resource');
+    const artifacts = await captureArtifacts(fake.page, outputDir, 'req-1', 'BAN detected: CAPTCHA', recorder.list());
+
+    expect(artifacts).toEqual({
+      dir: path.join('artifacts', 'req-1'),
+      files: ['screenshot.png', 'page.html', 'console.json'],
+      reason: 'BAN detected: CAPTCHA',
+    });
+    const dir = path.join(outputDir, artifacts.dir);
+    expect(fs.readFileSync(path.join(dir, 'page.html'), 'utf-8')).toContain('captcha');
+    expect(JSON.parse(fs.readFileSync(path.join(dir, 'console.json'), 'utf-8'))).toMatchObject([
+      { type: 'error', text: 'Failed to load resource', location: `${ITEM_URL}:1` },
+    ]);
+
+    recorder.reset();
+    recorder.stop();
+    fake.emitConsole('log', 'after stop');
+    expect(recorder.list()).toEqual([]);
+  });
+
+  it('keeps the files it could save when the page cannot be screenshotted', async () => {
+    const { page } = createFakePage({ url: ITEM_URL });
+    Object.assign(page, { screenshot: vi.fn(async () => Promise.reject(new Error('Target crashed'))) });
+
+    const artifacts = await captureArtifacts(page, outputDir, 'req-2', 'Navigation failed', []);
+
+    expect(artifacts.files).toEqual(['page.html', 'console.json']);
+  });
+});
+
+describe('pruneArtifacts', () => {
+  it('removes directories past the retention period, then the oldest beyond the limit', () => {
+    const now = Date.now();
+    const ages = { 'req-old': 10, 'req-a': 3, 'req-b': 2, 'req-c': 1 };
+    for (const [name, days] of Object.entries(ages)) {
+      const dir = path.join(outputDir, 'artifacts', name);
+      fs.mkdirSync(dir, { recursive: true });
+      const time = new Date(now - days * 24 * 60 * 60 * 1000);
+      fs.utimesSync(dir, time, time);
+    }
+
+    expect(pruneArtifacts(outputDir, artifactsConfig({ maxEntries: 2 }), now)).toBe(2);
+    expect(fs.readdirSync(path.join(outputDir, 'artifacts')).sort()).toEqual(['req-b', 'req-c']);
+    expect(pruneArtifacts(outputDir, artifactsConfig({ retentionDays: 0, maxEntries: 0 }), now)).toBe(0);
+  });
+});
+
+class TestScraper extends BaseScraper {
+  usePage(page: Page): void {
+    this.page = page;
+  }
+
+  async scrape(url: string): Promise<ScrapeResult<void>> {
+    return this.navigate(url);
+  }
+}
+
+describe('BaseScraper evidence', () => {
+  it('links the artifacts of a banned request from its log entry', async () => {
+    configureLogger({ level: 'info', outputDir });
+    try {
+      const { page } = createFakePage({ url: ITEM_URL, selectors: ['#captcha'] });
+      Object.assign(page, {
+        goto: vi.fn(async () => null),
+        screenshot: vi.fn(async ({ path: file }: { path: string }) => fs.writeFileSync(file, 'png')),
+      });
+      const scraper = new TestScraper({
+        humanBehavior: { enabled: false },
+        logging: { ...config.logging, enabled: true, outputDir },
+        rateLimit: { ...config.rateLimit, minIntervalMs: 0, backoffBaseMs: 0, cooldownMs: 0 },
+        artifacts: artifactsConfig(),
+        politeness: { robotsTxt: false },
+      });
+      scraper.usePage(page);
+
+      const result = await scraper.scrape(ITEM_URL);
+      expect(result.error).toBe('BAN detected: CAPTCHA');
+
+      const requestsFile = path.join(outputDir, 'requests.jsonl');
+      await vi.waitFor(() => expect(fs.existsSync(requestsFile) && fs.readFileSync(requestsFile, 'utf-8')).toContain('artifacts'));
+      const [log] = parseRequestLogs(fs.readFileSync(requestsFile, 'utf-8'));
+
+      expect(log.artifacts).toEqual({
+        dir: path.join('artifacts', log.requestId),
+        files: ['screenshot.png', 'page.html', 'console.json'],
+        reason: 'BAN detected: CAPTCHA',
+      });
+      expect(fs.existsSync(path.join(outputDir, log.artifacts!.dir, 'screenshot.png'))).toBe(true);
+    } finally {
+      configureLogger(config.logging);
+    }
+  });
+});
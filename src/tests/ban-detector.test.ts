@@ -0,0 +1,397 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { chromium } from 'playwright';
+import type { Browser, Page } from 'playwright';
+import {
+  detectBanSignals,
+  setupResponseMonitor,
+  checkContentPresence,
+  isBanned,
+  getBanReason,
+  BanSignals,
+} from '../ban-detector.js';
+import { BanRuleRegistry, resolveBanRules, banRuleRegistry, BanRule } from '../ban-rules.js';
+import type { BanRulesConfig } from '../config.js';
+import { startMockMercariServer, loadFixture, MockMercariServer } from './mock-server.js';
+import { chromiumAvailable, createFakePage } from './helpers.js';
+
+const ITEM_URL = 'https://jp.mercari.com/item/m10000001';
+
+function cleanSignals(overrides: Partial<BanSignals> = {}): BanSignals {
+  return {
+    captchaDetected: false,
+    httpError: null,
+    unexpectedRedirect: false,
+    contentMissing: false,
+    jsChallenge: false,
+    responseTimeMs: 100,
+    blockedUrl: null,
+    ...overrides,
+  };
+}
+
+describe('detectBanSignals', () => {
+  it('reports no signals for a normal item page', async () => {
+    const { page } = createFakePage({ url: ITEM_URL, html: '<h1>商品</h1>' });
+    const signals = await detectBanSignals(page, Date.now(), ITEM_URL);
+
+    expect(isBanned(signals)).toBe(false);
+    expect(signals.blockedUrl).toBeNull();
+  });
+
+  it.each([
+    'iframe[src*="recaptcha"]',
+    'iframe[src*="captcha"]',
+    'iframe[src*="hcaptcha"]',
+    '#captcha',
+    '.g-recaptcha',
+    '.h-captcha',
+    '[data-sitekey]',
+  ])('detects CAPTCHA via %s', async (selector) => {
+    const { page } = createFakePage({ url: ITEM_URL, selectors: [selector] });
+    const signals = await detectBanSignals(page, Date.now(), ITEM_URL);
+
+    expect(signals.captchaDetected).toBe(true);
+  });
+
+  it.each([
+    'Checking your browser',
+    'Please wait',
+    'Just a moment',
+    'Verify you are human',
+    'DDoS protection by',
+  ])('detects JS challenge text "%s"', async (indicator) => {
+    const { page } = createFakePage({ url: ITEM_URL, html: `<p>${indicator}...</p>` });
+    const signals = await detectBanSignals(page, Date.now(), ITEM_URL);
+
+    expect(signals.jsChallenge).toBe(true);
+  });
+
+  it.each(['/error', '/block', '/access-denied', '/forbidden'])(
+    'detects redirect to %s',
+    async (blockPath) => {
+      const blockedUrl = `https://jp.mercari.com${blockPath}`;
+      const { page } = createFakePage({ url: blockedUrl });
+      const signals = await detectBanSignals(page, Date.now(), ITEM_URL);
+
+      expect(signals.unexpectedRedirect).toBe(true);
+      expect(signals.blockedUrl).toBe(blockedUrl);
+    }
+  );
+
+  it('detects a redirect to another domain', async () => {
+    const { page } = createFakePage({ url: 'https://challenge.example.net/verify' });
+    const signals = await detectBanSignals(page, Date.now(), ITEM_URL);
+
+    expect(signals.unexpectedRedirect).toBe(true);
+    expect(signals.blockedUrl).toBe('https://challenge.example.net/verify');
+  });
+
+  it('accepts a subdomain of the expected host', async () => {
+    const { page } = createFakePage({ url: 'https://static.jp.mercari.com/item/m10000001' });
+    const signals = await detectBanSignals(page, Date.now(), ITEM_URL);
+
+    expect(signals.unexpectedRedirect).toBe(false);
+  });
+
+  it('measures response time from the given start time', async () => {
+    const { page } = createFakePage({ url: ITEM_URL });
+    const signals = await detectBanSignals(page, Date.now() - 1500, ITEM_URL);
+
+    expect(signals.responseTimeMs).toBeGreaterThanOrEqual(1500);
+  });
+});
+
+describe('setupResponseMonitor', () => {
+  it.each([403, 429, 503, 520, 521, 522, 523, 524])('flags HTTP %i', (status) => {
+    const fake = createFakePage({ url: ITEM_URL });
+    const monitor = setupResponseMonitor(fake.page);
+
+    fake.emitResponse(status);
+
+    expect(monitor.getHttpError()).toBe(status);
+  });
+
+  it.each([200, 301, 404, 500])('ignores HTTP %i', (status) => {
+    const fake = createFakePage({ url: ITEM_URL });
+    const monitor = setupResponseMonitor(fake.page);
+
+    fake.emitResponse(status);
+
+    expect(monitor.getHttpError()).toBeNull();
+  });
+
+  it('captures the Retry-After header', () => {
+    const fake = createFakePage({ url: ITEM_URL });
+    const monitor = setupResponseMonitor(fake.page);
+
+    expect(monitor.getRetryAfter()).toBeNull();
+    fake.emitResponse(429, ITEM_URL, { 'retry-after': '120' });
+
+    expect(monitor.getRetryAfter()).toBe('120');
+  });
+
+  it('keeps every error response for status rules', () => {
+    const fake = createFakePage({ url: ITEM_URL });
+    const monitor = setupResponseMonitor(fake.page);
+
+    fake.emitResponse(200);
+    fake.emitResponse(404, 'https://static.mercdn.net/missing.png');
+    fake.emitResponse(429);
+
+    expect(monitor.getResponses()).toEqual([
+      { status: 404, url: 'https://static.mercdn.net/missing.png', mainDocument: false },
+      { status: 429, url: ITEM_URL, mainDocument: true },
+    ]);
+  });
+
+  it('ignores block statuses of third-party resources and stops listening', () => {
+    const fake = createFakePage({ url: ITEM_URL });
+    const monitor = setupResponseMonitor(fake.page);
+
+    fake.emitResponse(403, 'https://tracker.example.com/pixel.gif');
+    expect(monitor.getHttpError()).toBeNull();
+
+    monitor.stop();
+    fake.emitResponse(429);
+    expect(monitor.getHttpError()).toBeNull();
+  });
+
+  it('keeps the most recent error status', () => {
+    const fake = createFakePage({ url: ITEM_URL });
+    const monitor = setupResponseMonitor(fake.page);
+
+    fake.emitResponse(429);
+    fake.emitResponse(200);
+    fake.emitResponse(503);
+
+    expect(monitor.getHttpError()).toBe(503);
+  });
+});
+
+describe('checkContentPresence', () => {
+  it('returns true when any selector has text', async () => {
+    const { page } = createFakePage({ url: ITEM_URL, selectors: ['h1'] });
+    expect(await checkContentPresence(page, ['[data-testid="item-name"]', 'h1'])).toBe(true);
+  });
+
+  it('returns false when no selector matches', async () => {
+    const { page } = createFakePage({ url: ITEM_URL });
+    expect(await checkContentPresence(page, ['[data-testid="item-name"]', 'h1'])).toBe(false);
+  });
+});
+
+describe('isBanned / getBanReason', () => {
+  it('treats missing content alone as not banned', () => {
+    const signals = cleanSignals({ contentMissing: true });
+    expect(isBanned(signals)).toBe(false);
+    expect(getBanReason(signals)).toBeNull();
+  });
+
+  it('reports reasons in priority order', () => {
+    const all = cleanSignals({
+      captchaDetected: true,
+      httpError: 429,
+      jsChallenge: true,
+      unexpectedRedirect: true,
+      blockedUrl: 'https://jp.mercari.com/block',
+    });
+
+    expect(getBanReason(all)).toBe('CAPTCHA');
+    expect(getBanReason({ ...all, captchaDetected: false })).toBe('HTTP 429');
+    expect(getBanReason({ ...all, captchaDetected: false, httpError: null })).toBe('JS Challenge');
+    expect(getBanReason({ ...all, captchaDetected: false, httpError: null, jsChallenge: false })).toBe(
+      'Redirect to https://jp.mercari.com/block'
+    );
+  });
+});
+
+describe('ban rules', () => {
+  const mercariRules: BanRulesConfig = {
+    disabled: [],
+    sites: {
+      'jp.mercari.com': [
+        { id: 'empty-results', severity: 'warn', type: 'missingSelector', patterns: ['[data-testid="item-cell"]'], reason: 'No search results' },
+        { id: 'rate-limit-banner', severity: 'block', type: 'text', patterns: ['アクセスが集中しています'], reason: 'Rate limit banner: {value}' },
+      ],
+      'example.com': [{ id: 'other-site', severity: 'block', type: 'url', patterns: ['/'] }],
+    },
+  };
+
+  it('adds the rules configured for the host, subdomains included', () => {
+    const ids = (url: string) => resolveBanRules(mercariRules, url).map((rule) => rule.id);
+
+    expect(ids(ITEM_URL)).toEqual(['captcha', 'http-status', 'js-challenge', 'block-redirect', 'domain-mismatch', 'empty-results', 'rate-limit-banner']);
+    expect(ids('https://api.jp.mercari.com/items/get')).toContain('empty-results');
+    expect(ids('https://www.example.com/')).toEqual(['captcha', 'http-status', 'js-challenge', 'block-redirect', 'domain-mismatch', 'other-site']);
+  });
+
+  it('records warnings without counting them as a ban', async () => {
+    const { page } = createFakePage({ url: ITEM_URL, html: '<h1>検索結果 0件</h1>' });
+    const signals = await detectBanSignals(page, Date.now(), ITEM_URL, { rules: resolveBanRules(mercariRules, ITEM_URL) });
+
+    expect(signals.rules).toEqual([
+      { id: 'empty-results', severity: 'warn', reason: 'No search results', evidence: '[data-testid="item-cell"]' },
+    ]);
+    expect(isBanned(signals)).toBe(false);
+  });
+
+  it('bans on a configured block rule and reports its reason', async () => {
+    const html = '<p>ただいまアクセスが集中しています</p>';
+    const { page } = createFakePage({ url: ITEM_URL, html, selectors: ['[data-testid="item-cell"]'] });
+    const signals = await detectBanSignals(page, Date.now(), ITEM_URL, { rules: resolveBanRules(mercariRules, ITEM_URL) });
+
+    expect(isBanned(signals)).toBe(true);
+    expect(getBanReason(signals)).toBe('Rate limit banner: アクセスが集中しています');
+    expect(signals.captchaDetected).toBe(false);
+  });
+
+  it('switches off disabled rules and lets config replace a built-in', async () => {
+    const rules = resolveBanRules(
+      {
+        disabled: ['captcha'],
+        sites: { '*': [{ id: 'http-status', severity: 'block', type: 'status', patterns: [403], reason: 'HTTP {value}' }] },
+      },
+      ITEM_URL
+    );
+    const { page } = createFakePage({ url: ITEM_URL, selectors: ['#captcha'] });
+    const signals = await detectBanSignals(page, Date.now(), ITEM_URL, {
+      rules,
+      responses: [
+        { status: 429, url: ITEM_URL, mainDocument: true },
+        { status: 403, url: ITEM_URL, mainDocument: true },
+      ],
+    });
+
+    expect(rules.map((rule) => rule.id)).toEqual(['http-status', 'js-challenge', 'block-redirect', 'domain-mismatch']);
+    expect(signals).toMatchObject({ captchaDetected: false, httpError: 403 });
+  });
+
+  it('does not count a built-in id downgraded to warn as a ban', async () => {
+    const rules = resolveBanRules(
+      { disabled: [], sites: { '*': [{ id: 'captcha', severity: 'warn', type: 'selector', patterns: ['#captcha'], reason: 'CAPTCHA' }] } },
+      ITEM_URL
+    );
+    const { page } = createFakePage({ url: ITEM_URL, selectors: ['#captcha'] });
+    const signals = await detectBanSignals(page, Date.now(), ITEM_URL, { rules });
+
+    expect(signals.rules).toEqual([{ id: 'captcha', severity: 'warn', reason: 'CAPTCHA', evidence: '#captcha' }]);
+    expect(signals.captchaDetected).toBe(false);
+    expect(isBanned(signals)).toBe(false);
+    expect(getBanReason(signals)).toBeNull();
+  });
+
+  it('maps status rules onto httpError from the navigation responses', async () => {
+    const { page } = createFakePage({ url: ITEM_URL });
+    const signals = await detectBanSignals(page, Date.now(), ITEM_URL, {
+      responses: [
+        { status: 404, url: 'https://static.mercdn.net/missing.png', mainDocument: false },
+        { status: 503, url: ITEM_URL, mainDocument: true },
+      ],
+    });
+
+    expect(signals.httpError).toBe(503);
+    expect(signals.rules?.map((rule) => rule.id)).toEqual(['http-status']);
+  });
+
+  it('judges statuses on the page itself unless a rule asks for any response', async () => {
+    const { page } = createFakePage({ url: ITEM_URL });
+    const responses = [{ status: 403, url: 'https://tracker.example.com/pixel.gif', mainDocument: false }];
+
+    const signals = await detectBanSignals(page, Date.now(), ITEM_URL, { responses });
+    expect(isBanned(signals)).toBe(false);
+
+    const rules = resolveBanRules(
+      {
+        disabled: [],
+        sites: { '*': [{ id: 'any-403', severity: 'warn', type: 'status', patterns: [403], scope: 'any' }] },
+      },
+      ITEM_URL
+    );
+    const scoped = await detectBanSignals(page, Date.now(), ITEM_URL, { rules, responses });
+    expect(scoped.rules?.map((rule) => rule.id)).toEqual(['any-403']);
+  });
+
+  it('runs registered plugins and skips one that throws', async () => {
+    const registry = new BanRuleRegistry(banRuleRegistry.list());
+    const interstitial: BanRule = {
+      id: 'vendor-interstitial',
+      severity: 'block',
+      reason: 'Vendor interstitial',
+      detect: ({ content }) => (content.includes('px-captcha') ? { value: 'px-captcha' } : null),
+    };
+    registry.register({ id: 'broken', severity: 'block', reason: 'broken', detect: () => { throw new Error('boom'); } });
+    registry.register(interstitial);
+
+    const { page } = createFakePage({ url: ITEM_URL, html: '<div id="px-captcha"></div>' });
+    const signals = await detectBanSignals(page, Date.now(), ITEM_URL, { rules: resolveBanRules({ disabled: [], sites: {} }, ITEM_URL, registry) });
+
+    expect(signals.rules?.map((rule) => rule.id)).toEqual(['vendor-interstitial']);
+    expect(getBanReason(signals)).toBe('Vendor interstitial');
+    expect(registry.unregister('broken')).toBe(true);
+  });
+});
+
+describe.skipIf(!chromiumAvailable)('detectBanSignals against the mock server', () => {
+  let server: MockMercariServer;
+  let browser: Browser;
+  let page: Page;
+
+  beforeAll(async () => {
+    server = await startMockMercariServer();
+    browser = await chromium.launch();
+    page = await browser.newPage();
+  }, 60000);
+
+  afterAll(async () => {
+    await browser?.close();
+    await server?.close();
+  });
+
+  async function visit(url: string): Promise<BanSignals> {
+    const monitor = setupResponseMonitor(page);
+    const startTime = Date.now();
+    await page.goto(url, { waitUntil: 'networkidle' });
+    const signals = await detectBanSignals(page, startTime, url);
+    signals.httpError = monitor.getHttpError();
+    page.removeAllListeners('response');
+    return signals;
+  }
+
+  it('passes a normal item page', async () => {
+    const signals = await visit(server.itemUrl('m10000001', 'on-sale'));
+    expect(isBanned(signals)).toBe(false);
+  });
+
+  it('detects the CAPTCHA iframe', async () => {
+    const signals = await visit(server.itemUrl('m10000001', 'captcha'));
+    expect(signals.captchaDetected).toBe(true);
+  });
+
+  it('detects the "Just a moment" interstitial', async () => {
+    const signals = await visit(server.itemUrl('m10000001', 'js-challenge'));
+    expect(signals.jsChallenge).toBe(true);
+  });
+
+  it('detects the redirect to /block', async () => {
+    const signals = await visit(server.itemUrl('m10000001', 'block-redirect'));
+    expect(signals.unexpectedRedirect).toBe(true);
+    expect(signals.blockedUrl).toBe(`${server.baseUrl}/block`);
+  });
+
+  it.each([
+    ['http-403', 403],
+    ['http-429', 429],
+    ['http-503', 503],
+  ] as const)('detects %s', async (scenario, status) => {
+    const signals = await visit(server.itemUrl('m10000001', scenario));
+    expect(signals.httpError).toBe(status);
+  });
+});
+
+describe('fixtures', () => {
+  it('keep the markers the detectors rely on', () => {
+    expect(loadFixture('captcha.html')).toContain('iframe src="/captcha/');
+    expect(loadFixture('js-challenge.html')).toContain('Just a moment');
+    expect(loadFixture('item-sold-out.html')).toContain('data-testid="disabled-purchase-button"');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Browser, BrowserContext } from 'playwright';
+import { BrowserManager } from '../browser-manager.js';
+import { mergeConfig, DEFAULT_CONFIG, BrowserConfig } from '../config.js';
+
+// Browser whose contexts fire 'close' when closed, or when crash() takes the browser down
+function fakeBrowser() {
+  const contexts = new Set<() => void>();
+  let connected = true;
+  const browser = {
+    isConnected: () => connected,
+    newContext: vi.fn(async () => {
+      let onClose: (() => void) | null = null;
+      const context = {
+        once: (_event: string, listener: () => void) => {
+          onClose = listener;
+          contexts.add(listener);
+        },
+        close: async () => {
+          if (onClose && contexts.delete(onClose)) onClose();
+        },
+      };
+      return context as unknown as BrowserContext;
+    }),
+    close: vi.fn(async () => {
+      connected = false;
+    }),
+  };
+  const crash = () => {
+    connected = false;
+    for (const listener of [...contexts]) {
+      contexts.delete(listener);
+      listener();
+    }
+  };
+  return { browser: browser as unknown as Browser, crash, close: browser.close };
+}
+
+function manager(limits: Partial<BrowserConfig> = {}, browser?: Browser) {
+  const launched: ReturnType<typeof fakeBrowser>[] = [];
+  const launch = vi.fn(async () => {
+    const fake = fakeBrowser();
+    launched.push(fake);
+    return fake.browser;
+  });
+  const settings = mergeConfig(DEFAULT_CONFIG, { logging: { enabled: false }, browser: limits });
+  return { browsers: new BrowserManager(settings, { launch, browser }), launched, launch };
+}
+
+describe('BrowserManager', () => {
+  it('launches one browser for every context', async () => {
+    const { browsers, launch } = manager();
+
+    await Promise.all([browsers.newContext(), browsers.newContext(), browsers.newContext()]);
+
+    expect(launch).toHaveBeenCalledOnce();
+    expect(browsers.openContexts).toBe(3);
+  });
+
+  it('relaunches a browser that crashed and frees its contexts', async () => {
+    const { browsers, launched } = manager();
+    await browsers.newContext();
+    launched[0].crash();
+
+    expect(browsers.openContexts).toBe(0);
+    await browsers.newContext();
+    expect(browsers.launches).toBe(2);
+    expect(launched[1].browser.isConnected()).toBe(true);
+  });
+
+  it('makes scrapers wait once maxContexts are open', async () => {
+    const { browsers } = manager({ maxContexts: 2 });
+    const first = await browsers.newContext();
+    await browsers.newContext();
+
+    let third: BrowserContext | null = null;
+    const waiting = browsers.newContext().then((context) => (third = context));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(third).toBeNull();
+
+    await first.close();
+    await waiting;
+    expect(third).not.toBeNull();
+    expect(browsers.openContexts).toBe(2);
+  });
+
+  it('leaves a browser it was given running but closes its own replacement', async () => {
+    const given = fakeBrowser();
+    const { browsers, launched } = manager({}, given.browser);
+
+    await browsers.newContext();
+    await browsers.close();
+    expect(given.close).not.toHaveBeenCalled();
+
+    const { browsers: relaunching, launched: replacements } = manager({}, given.browser);
+    given.crash();
+    await relaunching.newContext();
+    await relaunching.close();
+    expect(launched).toHaveLength(0);
+    expect(replacements[0].close).toHaveBeenCalledOnce();
+    await expect(relaunching.newContext()).rejects.toThrow('Browser manager is closed');
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  buildConfig,
+  configFromEnv,
+  loadConfigFile,
+  mergeConfig,
+  mergeOverrides,
+  toOverrides,
+  DEFAULT_CONFIG,
+  config,
+} from '../config.js';
+import { ConfigError } from '../errors.js';
+import { MercariScraper } from '../mercari-scraper.js';
+import { configureLogger, logInfo } from '../logger.js';
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('mergeConfig', () => {
+  it('merges nested sections key by key without touching the base', () => {
+    const merged = mergeConfig(DEFAULT_CONFIG, { rateLimit: { minIntervalMs: 100 }, humanBehavior: { pattern: 'C' } });
+
+    expect(merged.rateLimit).toEqual({ ...DEFAULT_CONFIG.rateLimit, minIntervalMs: 100 });
+    expect(merged.humanBehavior).toEqual({ ...DEFAULT_CONFIG.humanBehavior, pattern: 'C' });
+    expect(DEFAULT_CONFIG.rateLimit.minIntervalMs).toBe(5000);
+  });
+
+  it('replaces arrays and ignores undefined', () => {
+    const merged = mergeConfig(DEFAULT_CONFIG, { headless: undefined, retry: { retryOn: [] } });
+
+    expect(merged.headless).toBe(true);
+    expect(merged.retry.retryOn).toEqual([]);
+  });
+
+  it('clears the proxy with null', () => {
+    const withProxy = mergeConfig(DEFAULT_CONFIG, { proxy: { server: 'http://proxy:8080' } });
+
+    expect(mergeConfig(withProxy, { proxy: null }).proxy).toBeUndefined();
+    expect(mergeConfig(withProxy, toOverrides(DEFAULT_CONFIG)).proxy).toBeUndefined();
+  });
+
+  it('keeps null when combining overrides', () => {
+    expect(mergeOverrides({ proxy: { server: 'http://proxy:8080' }, headless: false }, { proxy: null })).toEqual({
+      proxy: null,
+      headless: false,
+    });
+  });
+});
+
+describe('configFromEnv', () => {
+  it('only sets the variables that are present', () => {
+    const overrides = configFromEnv({ HUMAN_BEHAVIOR_PATTERN: 'A', RATE_LIMIT_PER_HOUR: '120', STORAGE_PATH: '' });
+
+    expect(mergeConfig(DEFAULT_CONFIG, overrides)).toEqual({
+      ...DEFAULT_CONFIG,
+      humanBehavior: { ...DEFAULT_CONFIG.humanBehavior, pattern: 'A' },
+      rateLimit: { ...DEFAULT_CONFIG.rateLimit, maxPerHour: 120 },
+    });
+  });
+
+  it('rejects non-numeric values', () => {
+    expect(() => configFromEnv({ MIN_DELAY: 'fast' })).toThrow('MIN_DELAY must be an integer (got "fast")');
+  });
+});
+
+describe('buildConfig', () => {
+  it('applies defaults, file, env and overrides in that order', () => {
+    const file = path.join(tmpDir, 'scraper.yaml');
+    fs.writeFileSync(file, 'headless: false\nhumanBehavior:\n  pattern: C\n  minDelay: 500\nrateLimit:\n  minIntervalMs: 8000\n');
+
+    const built = buildConfig({
+      env: { HUMAN_BEHAVIOR_PATTERN: 'A', RATE_LIMIT_MIN_INTERVAL: '9000' },
+      file,
+      overrides: [{ rateLimit: { minIntervalMs: 10000 } }],
+    });
+
+    expect(built.headless).toBe(false);
+    expect(built.humanBehavior).toMatchObject({ pattern: 'A', minDelay: 500, maxDelay: 5000 });
+    expect(built.rateLimit.minIntervalMs).toBe(10000);
+  });
+
+  it('puts site defaults above the built-in defaults and below the file', () => {
+    const file = path.join(tmpDir, 'scraper.yaml');
+    fs.writeFileSync(file, 'rateLimit:\n  minIntervalMs: 8000\n');
+
+    const built = buildConfig({
+      env: null,
+      file,
+      site: { rateLimit: { minIntervalMs: 12000, maxPerHour: 100 }, fingerprint: { locale: 'en-US' } },
+    });
+
+    expect(built.rateLimit).toMatchObject({ minIntervalMs: 8000, maxPerHour: 100 });
+    expect(built.fingerprint.locale).toBe('en-US');
+  });
+
+  it('reads the file named by CONFIG_FILE', () => {
+    const file = path.join(tmpDir, 'scraper.json');
+    fs.writeFileSync(file, JSON.stringify({ stealthEnabled: false }));
+
+    expect(buildConfig({ env: { CONFIG_FILE: file } }).stealthEnabled).toBe(false);
+  });
+
+  it('reports every invalid value at once', () => {
+    let error: unknown;
+    try {
+      buildConfig({
+        env: { HUMAN_BEHAVIOR_PATTERN: 'D', MIN_DELAY: '6000', MAX_DELAY: '1000', LOG_LEVEL: 'verbose' },
+      });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(ConfigError);
+    expect((error as ConfigError).issues).toEqual([
+      'humanBehavior.pattern must be A, B or C (got "D")',
+      'humanBehavior.minDelay (6000) must not exceed maxDelay (1000)',
+      'logging.level must be one of debug, info, warn, error (got "verbose")',
+    ]);
+  });
+
+  it.each([
+    [{ storage: { type: 'mysql' } }, 'storage.type must be sqlite or json'],
+    [{ rateLimit: { relaxFactor: 1.5 } }, 'rateLimit.relaxFactor must be in (0, 1]'],
+    [{ retry: { maxAttempts: 0 } }, 'retry.maxAttempts must be an integer of at least 1'],
+    [{ degradation: { latencyFactor: 0.5 } }, 'degradation.latencyFactor must be at least 1'],
+    [{ artifacts: { capture: 'sometimes' } }, 'artifacts.capture must be off, failure or always'],
+    [{ pool: { workers: 3 }, browser: { maxContexts: 2 } }, 'pool.workers (3) must not exceed browser.maxContexts (2)'],
+    [{ session: { name: '../warm' } }, 'session.name may only contain letters, digits, ".", "_" and "-"'],
+    [{ resources: { rules: [{ action: 'block', resourceTypes: ['images'] }] } }, 'resources.rules[0].resourceTypes has unknown type "images"'],
+    [{ resources: { rules: [{ action: 'allow' }] } }, 'resources.rules[0] must set resourceTypes, domains or urlPatterns'],
+    [{ politeness: { allowPaths: ['item/'] } }, 'politeness.allowPaths must start with "/" or "*" (got "item/")'],
+    [{ navigation: { waitUntil: 'idle' } }, 'navigation.waitUntil must be networkidle, load, domcontentloaded or content (got "idle")'],
+    [
+      { banRules: { sites: { 'jp.mercari.com': [{ id: 'banner', severity: 'fatal', type: 'text', patterns: ['混雑'] }] } } },
+      'banRules.sites.jp.mercari.com[0].severity must be one of info, warn, block (got "fatal")',
+    ],
+    [
+      { banRules: { sites: { '*': [{ id: 'teapot', severity: 'block', type: 'status', patterns: ['418'] }] } } },
+      'banRules.sites.*[0].patterns must be HTTP status numbers for a status rule',
+    ],
+  ])('rejects %j', (override, message) => {
+    expect(() => buildConfig({ env: null, overrides: [override as never] })).toThrow(message);
+  });
+});
+
+describe('loadConfigFile', () => {
+  it('rejects unknown keys and extensions', () => {
+    const json = path.join(tmpDir, 'scraper.json');
+    fs.writeFileSync(json, JSON.stringify({ headles: true }));
+    const ini = path.join(tmpDir, 'scraper.ini');
+    fs.writeFileSync(ini, '');
+
+    expect(() => loadConfigFile(json)).toThrow('Unknown key "headles"');
+    expect(() => loadConfigFile(ini)).toThrow('Unsupported config file');
+  });
+});
+
+describe('per-instance configuration', () => {
+  it('lets two scrapers with different settings coexist', () => {
+    const a = new MercariScraper({ headless: false, humanBehavior: { pattern: 'A' } });
+    const b = new MercariScraper({ stealthEnabled: false, rateLimit: { minIntervalMs: 100 } });
+
+    expect(a.getConfig()).toMatchObject({ headless: false, stealthEnabled: config.stealthEnabled, humanBehavior: { pattern: 'A' } });
+    expect(b.getConfig()).toMatchObject({ headless: config.headless, stealthEnabled: false });
+    expect(b.getConfig().humanBehavior.pattern).toBe(config.humanBehavior.pattern);
+    expect(b.rateLimiter.intervalMs).toBe(100);
+    expect(a.getConfig().rateLimit.minIntervalMs).toBe(config.rateLimit.minIntervalMs);
+  });
+
+  it('validates the merged settings', () => {
+    expect(() => new MercariScraper({ humanBehavior: { minDelay: 9000, maxDelay: 10 } })).toThrow(ConfigError);
+  });
+});
+
+describe('configureLogger', () => {
+  afterEach(() => {
+    configureLogger(config.logging);
+  });
+
+  it('moves the log files to a new directory', async () => {
+    configureLogger({ level: 'info', outputDir: tmpDir });
+    logInfo('configured logger test');
+
+    await vi.waitFor(() => {
+      expect(fs.readFileSync(path.join(tmpDir, 'combined.log'), 'utf-8')).toContain('configured logger test');
+    });
+  });
+});
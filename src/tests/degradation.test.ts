@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { DegradationMonitor, assessDegradation } from '../degradation.js';
+
+const config = { slowResponseMs: 10000, latencyFactor: 3, baselineSamples: 3 };
+
+describe('assessDegradation', () => {
+  it('grades by the weight of the signals', () => {
+    expect(assessDegradation([]).level).toBe('none');
+    expect(assessDegradation([{ type: 'slow_response', detail: '' }]).level).toBe('mild');
+    expect(assessDegradation([{ type: 'duplicate_content', detail: '' }]).level).toBe('moderate');
+    expect(
+      assessDegradation([
+        { type: 'duplicate_content', detail: '' },
+        { type: 'partial_content', detail: '' },
+        { type: 'slow_response', detail: '' },
+      ]).level
+    ).toBe('severe');
+  });
+});
+
+describe('DegradationMonitor', () => {
+  it('flags responses over the absolute limit from the first request', () => {
+    const monitor = new DegradationMonitor(config);
+
+    expect(monitor.observeResponseTime(12000, true)).toEqual([{ type: 'slow_response', detail: '12000ms, limit 10000ms' }]);
+  });
+
+  it('learns a baseline from healthy responses only', () => {
+    const monitor = new DegradationMonitor(config);
+
+    monitor.observeResponseTime(800, true);
+    monitor.observeResponseTime(9000, false);
+    monitor.observeResponseTime(1000, true);
+    expect(monitor.baselineMs()).toBeNull();
+    expect(monitor.observeResponseTime(4000, true)).toEqual([]);
+
+    expect(monitor.baselineMs()).toBe(1000);
+    expect(monitor.observeResponseTime(3500, true)).toEqual([{ type: 'slow_response', detail: '3500ms, session baseline 1000ms' }]);
+    // The slow response did not move the baseline
+    expect(monitor.baselineMs()).toBe(1000);
+  });
+
+  it('flags an item page without price or description', () => {
+    const monitor = new DegradationMonitor(config);
+
+    expect(monitor.observeContent('m1', { title: 'A', price: null })).toEqual([
+      { type: 'partial_content', detail: 'missing price, description' },
+    ]);
+    expect(monitor.observeContent('m2', { title: null, price: null })).toEqual([]);
+  });
+
+  it('flags the same content served for different item IDs', () => {
+    const monitor = new DegradationMonitor(config);
+    const content = { title: 'A', price: 100, description: 'desc' };
+
+    expect(monitor.observeContent('m1', content)).toEqual([]);
+    expect(monitor.observeContent('m1', content)).toEqual([]);
+    expect(monitor.observeContent('m2', content)).toEqual([{ type: 'duplicate_content', detail: 'same content as m1' }]);
+  });
+
+  it('flags an update time older than one already seen for the item', () => {
+    const monitor = new DegradationMonitor(config);
+    const content = { title: 'A', price: 100, description: 'desc' };
+
+    monitor.observeContent('m1', { ...content, updatedAt: '2025-01-15T00:00:00.000Z' });
+    expect(monitor.observeContent('m1', { ...content, updatedAt: '2025-01-16T00:00:00.000Z' })).toEqual([]);
+    expect(monitor.observeContent('m1', { ...content, updatedAt: '2025-01-15T00:00:00.000Z' })).toEqual([
+      { type: 'stale_content', detail: 'updated 2025-01-15T00:00:00.000Z, 2025-01-16T00:00:00.000Z seen earlier' },
+    ]);
+  });
+});
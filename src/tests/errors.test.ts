@@ -0,0 +1,176 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { BrowserContext, Page } from 'playwright';
+import { ScrapeError, ScrapeErrorType, classifyError, isRetryable, retryDelay } from '../errors.js';
+import { BaseScraper, ScrapeResult } from '../scraper.js';
+import { config, RetryConfig } from '../config.js';
+import { Politeness } from '../politeness.js';
+import { createFakePage } from './helpers.js';
+
+const ITEM_URL = 'https://jp.mercari.com/item/m10000001';
+
+function testPolicy(overrides: Partial<RetryConfig> = {}): RetryConfig {
+  return {
+    maxAttempts: 3,
+    retryOn: [ScrapeErrorType.Network, ScrapeErrorType.Timeout, ScrapeErrorType.BrowserCrash],
+    baseDelayMs: 1000,
+    maxDelayMs: 5000,
+    ...overrides,
+  };
+}
+
+function timeoutError(): Error {
+  const error = new Error('page.goto: Timeout 30000ms exceeded.');
+  error.name = 'TimeoutError';
+  return error;
+}
+
+describe('classifyError', () => {
+  it.each([
+    ['page.goto: net::ERR_NAME_NOT_RESOLVED at https://jp.mercari.com/', ScrapeErrorType.Network],
+    ['page.goto: net::ERR_CONNECTION_RESET', ScrapeErrorType.Network],
+    ['connect ECONNREFUSED 127.0.0.1:8080', ScrapeErrorType.Network],
+    ['page.goto: net::ERR_TIMED_OUT', ScrapeErrorType.Timeout],
+    ['page.goto: Target page, context or browser has been closed', ScrapeErrorType.BrowserCrash],
+    ['page.goto: Page crashed', ScrapeErrorType.BrowserCrash],
+    ['Cannot read properties of null', ScrapeErrorType.Unknown],
+  ])('classifies "%s"', (message, type) => {
+    expect(classifyError(new Error(message))).toBe(type);
+  });
+
+  it('recognises Playwright TimeoutError by name', () => {
+    expect(classifyError(timeoutError())).toBe(ScrapeErrorType.Timeout);
+  });
+
+  it('keeps the type of a ScrapeError', () => {
+    expect(classifyError(new ScrapeError('no title', ScrapeErrorType.Extraction))).toBe(ScrapeErrorType.Extraction);
+  });
+
+  it('handles non-Error values', () => {
+    expect(classifyError('net::ERR_CONNECTION_REFUSED')).toBe(ScrapeErrorType.Network);
+  });
+});
+
+describe('isRetryable', () => {
+  it('follows the configured error types', () => {
+    const policy = testPolicy();
+    expect(isRetryable(ScrapeErrorType.Network, policy)).toBe(true);
+    expect(isRetryable(ScrapeErrorType.Blocked, policy)).toBe(false);
+    expect(isRetryable(ScrapeErrorType.Extraction, policy)).toBe(false);
+    expect(isRetryable(ScrapeErrorType.Network, testPolicy({ retryOn: [] }))).toBe(false);
+  });
+});
+
+describe('retryDelay', () => {
+  it('doubles per retry up to the cap', () => {
+    const policy = testPolicy();
+    expect([2, 3, 4, 5].map((attempt) => retryDelay(attempt, policy))).toEqual([1000, 2000, 4000, 5000]);
+  });
+});
+
+class TestScraper extends BaseScraper {
+  recover = vi.fn(async () => {});
+
+  usePage(page: Page): void {
+    this.page = page;
+  }
+
+  useContext(context: BrowserContext): void {
+    this.context = context;
+  }
+
+  async scrape(url: string): Promise<ScrapeResult<void>> {
+    return this.navigate(url);
+  }
+}
+
+// Fake page whose goto() plays back the given outcomes in order
+function scraperWithGoto(outcomes: Array<Error | null>, retry: Partial<RetryConfig> = {}) {
+  const { page } = createFakePage({ url: ITEM_URL, html: '<h1>商品</h1>', selectors: ['h1'] });
+  const goto = vi.fn(async () => {
+    const outcome = outcomes.shift();
+    if (outcome) throw outcome;
+    return null;
+  });
+  Object.assign(page, { goto });
+
+  const scraper = new TestScraper({
+    humanBehavior: { ...config.humanBehavior, enabled: false },
+    logging: { ...config.logging, enabled: false },
+    rateLimit: { ...config.rateLimit, minIntervalMs: 0, backoffBaseMs: 0, cooldownMs: 0 },
+    retry: testPolicy({ baseDelayMs: 0, ...retry }),
+    politeness: { robotsTxt: false },
+  });
+  scraper.usePage(page);
+  return { scraper, goto };
+}
+
+describe('BaseScraper.navigate politeness', () => {
+  it('refuses a URL robots.txt disallows without navigating', async () => {
+    const { page } = createFakePage({ url: ITEM_URL });
+    const goto = vi.fn(async () => null);
+    Object.assign(page, { goto });
+    const politeness = new Politeness(async () => ({ status: 200, body: 'User-agent: *\nDisallow: /item/' }));
+    const scraper = new TestScraper({ logging: { ...config.logging, enabled: false } }, undefined, politeness);
+    scraper.usePage(page);
+
+    const result = await scraper.scrape(ITEM_URL);
+
+    expect(result).toMatchObject({
+      success: false,
+      errorType: ScrapeErrorType.Disallowed,
+      error: 'Disallowed by https://jp.mercari.com/robots.txt for "*" (Disallow: /item/)',
+      attempts: 0,
+    });
+    expect(goto).not.toHaveBeenCalled();
+  });
+});
+
+describe('BaseScraper.navigate retries', () => {
+  it('retries transient failures and reports the attempt count', async () => {
+    const { scraper, goto } = scraperWithGoto([new Error('net::ERR_CONNECTION_RESET'), timeoutError(), null]);
+
+    const result = await scraper.scrape(ITEM_URL);
+
+    expect(result.success).toBe(true);
+    expect(result.attempts).toBe(3);
+    expect(goto).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after maxAttempts with the last error type', async () => {
+    const { scraper, goto } = scraperWithGoto([timeoutError(), timeoutError(), timeoutError()], { maxAttempts: 2 });
+
+    const result = await scraper.scrape(ITEM_URL);
+
+    expect(result).toMatchObject({ success: false, errorType: ScrapeErrorType.Timeout, attempts: 2 });
+    expect(goto).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry errors outside retryOn', async () => {
+    const { scraper, goto } = scraperWithGoto([new Error('Cannot read properties of null'), null]);
+
+    const result = await scraper.scrape(ITEM_URL);
+
+    expect(result).toMatchObject({ success: false, errorType: ScrapeErrorType.Unknown, attempts: 1 });
+    expect(goto).toHaveBeenCalledOnce();
+  });
+
+  it('recovers the browser before retrying a crash', async () => {
+    const { scraper } = scraperWithGoto([new Error('page.goto: Page crashed'), null]);
+
+    const result = await scraper.scrape(ITEM_URL);
+
+    expect(result.success).toBe(true);
+    expect(scraper.recover).toHaveBeenCalledOnce();
+  });
+
+  it('recovers before navigating when the browser died since the last request', async () => {
+    const { scraper, goto } = scraperWithGoto([null]);
+    scraper.useContext({ browser: () => ({ isConnected: () => false }) } as unknown as BrowserContext);
+
+    const result = await scraper.scrape(ITEM_URL);
+
+    expect(result.success).toBe(true);
+    expect(scraper.recover).toHaveBeenCalledOnce();
+    expect(goto).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,248 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  parseExperimentDefinition,
+  loadExperimentFile,
+  expandExperiment,
+  buildRunConfig,
+  runExperiment,
+  loadExperimentState,
+  ExperimentScraper,
+} from '../experiment.js';
+import { config, usFingerprint, ScraperConfigOverrides } from '../config.js';
+import type { ScrapeResult } from '../scraper.js';
+import type { BanSignals } from '../ban-detector.js';
+
+const ITEM_URL = 'https://jp.mercari.com/item/m10000001';
+
+const cleanSignals: BanSignals = {
+  captchaDetected: false,
+  httpError: null,
+  unexpectedRedirect: false,
+  contentMissing: false,
+  jsChallenge: false,
+  responseTimeMs: 10,
+  blockedUrl: null,
+};
+
+function definition(overrides: Record<string, unknown> = {}) {
+  return parseExperimentDefinition({
+    id: 'test-exp',
+    urls: [ITEM_URL],
+    requestsPerRun: 3,
+    cooldownMs: 0,
+    matrix: { intervalMs: [10000, 5000] },
+    ...overrides,
+  });
+}
+
+type Outcome = 'ok' | 'captcha' | 'fail';
+
+// Scrapers record the config they were built with and play back outcomes per interval
+function fakeFactory(outcomes: (runConfig: ScraperConfigOverrides, request: number) => Outcome) {
+  const configs: ScraperConfigOverrides[] = [];
+  const createScraper = vi.fn((runConfig: ScraperConfigOverrides): ExperimentScraper => {
+    configs.push(runConfig);
+    let request = 0;
+    return {
+      initialize: vi.fn(async () => {}),
+      close: vi.fn(async () => {}),
+      scrape: vi.fn(async (): Promise<ScrapeResult<unknown>> => {
+        const outcome = outcomes(runConfig, ++request);
+        if (outcome === 'captcha') {
+          return { success: false, banSignals: { ...cleanSignals, captchaDetected: true }, error: 'BAN detected: CAPTCHA' };
+        }
+        if (outcome === 'fail') {
+          return { success: false, banSignals: { ...cleanSignals, contentMissing: true }, error: 'timeout' };
+        }
+        return { success: true, banSignals: cleanSignals };
+      }),
+    };
+  });
+  return { createScraper, configs };
+}
+
+let tmpDir: string;
+let statePath: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'experiment-'));
+  statePath = path.join(tmpDir, 'state.json');
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('parseExperimentDefinition', () => {
+  it('fills in defaults', () => {
+    const parsed = parseExperimentDefinition({ id: 'x', urls: [ITEM_URL] });
+    expect(parsed).toMatchObject({
+      requestsPerRun: 10,
+      repetitions: 1,
+      cooldownMs: 30000,
+      matrix: {},
+      stop: { onBan: 'run', maxConsecutiveFailures: 3, maxTotalBans: 0 },
+    });
+  });
+
+  it('accepts a single value in place of a list', () => {
+    expect(definition({ matrix: { headless: false } }).matrix).toEqual({ headless: [false] });
+  });
+
+  it.each([
+    [{ id: 'has space' }, 'Experiment "id"'],
+    [{ urls: [] }, 'Experiment "urls"'],
+    [{ requestsPerRun: 0 }, '"requestsPerRun" must be a number >= 1'],
+    [{ matrix: { browser: ['firefox'] } }, 'Unknown experiment variable "browser"'],
+    [{ matrix: { pattern: ['D'] } }, 'Invalid value "D" for "pattern" (expected A, B or C)'],
+    [{ matrix: { stealth: ['yes'] } }, 'Invalid value "yes" for "stealth"'],
+    [{ matrix: { fingerprint: ['fr'] } }, 'Invalid value "fr" for "fingerprint" (expected one of jp, us)'],
+    [{ matrix: { proxy: ['mobile'] } }, 'Invalid value "mobile" for "proxy"'],
+    [{ stop: { onBan: 'pause' } }, '"stop.onBan"'],
+  ])('rejects %j', (overrides, message) => {
+    expect(() => definition(overrides)).toThrow(message);
+  });
+});
+
+describe('loadExperimentFile', () => {
+  it('reads YAML and JSON files', () => {
+    const yamlPath = path.join(tmpDir, 'exp.yaml');
+    fs.writeFileSync(yamlPath, `id: yaml-exp\nurls:\n  - ${ITEM_URL}\nmatrix:\n  pattern: [A, C]\n`);
+    const jsonPath = path.join(tmpDir, 'exp.json');
+    fs.writeFileSync(jsonPath, JSON.stringify({ id: 'json-exp', urls: [ITEM_URL] }));
+
+    expect(loadExperimentFile(yamlPath).matrix).toEqual({ pattern: ['A', 'C'] });
+    expect(loadExperimentFile(jsonPath).id).toBe('json-exp');
+  });
+
+  it('rejects other extensions', () => {
+    const filePath = path.join(tmpDir, 'exp.txt');
+    fs.writeFileSync(filePath, '');
+    expect(() => loadExperimentFile(filePath)).toThrow('Unsupported experiment file');
+  });
+});
+
+describe('expandExperiment / buildRunConfig', () => {
+  it('expands the matrix once per repetition', () => {
+    const runs = expandExperiment(definition({ matrix: { stealth: [false, true], headless: [true, false] }, repetitions: 2 }));
+
+    expect(runs).toHaveLength(8);
+    expect(runs.slice(0, 4).map((run) => run.variables)).toEqual([
+      { stealth: false, headless: true },
+      { stealth: false, headless: false },
+      { stealth: true, headless: true },
+      { stealth: true, headless: false },
+    ]);
+    expect(runs.map((run) => run.repetition)).toEqual([1, 1, 1, 1, 2, 2, 2, 2]);
+    expect(runs[7].runId).toBe('test-exp-008');
+  });
+
+  it('applies the variables and tags the config without touching the base', () => {
+    const def = definition({
+      matrix: { intervalMs: 3000, pattern: 'C', fingerprint: 'us', proxy: 'resi' },
+      proxies: { resi: { server: 'http://proxy.example.com:8080' } },
+    });
+    const [run] = expandExperiment(def);
+    const runConfig = buildRunConfig(def, run);
+
+    expect(runConfig.rateLimit?.minIntervalMs).toBe(3000);
+    expect(runConfig.humanBehavior?.pattern).toBe('C');
+    expect(runConfig.fingerprint).toEqual(usFingerprint);
+    expect(runConfig.proxy).toEqual({ server: 'http://proxy.example.com:8080' });
+    expect(runConfig.experiment).toEqual({
+      experimentId: 'test-exp',
+      runId: 'test-exp-001',
+      variables: { intervalMs: 3000, pattern: 'C', fingerprint: 'us', proxy: 'resi', repetition: 1 },
+    });
+    expect(config.experiment).toBeUndefined();
+    expect(config.rateLimit.minIntervalMs).not.toBe(3000);
+  });
+
+  it('turns an inherited proxy off for direct runs and keeps the shared base', () => {
+    const def = definition({ matrix: { proxy: 'direct' } });
+    const [run] = expandExperiment(def);
+    const runConfig = buildRunConfig(def, run, { headless: false, proxy: { server: 'http://env-proxy:8080' } });
+
+    expect(runConfig.proxy).toBeNull();
+    expect(runConfig.headless).toBe(false);
+  });
+});
+
+describe('runExperiment', () => {
+  it('runs every combination and records progress', async () => {
+    const { createScraper, configs } = fakeFactory(() => 'ok');
+
+    const summary = await runExperiment(definition(), { statePath, createScraper });
+
+    expect(summary.completed).toBe(true);
+    expect(configs.map((c) => c.rateLimit?.minIntervalMs)).toEqual([10000, 5000]);
+    expect(loadExperimentState(statePath)?.runs['test-exp-002']).toMatchObject({ status: 'done', requests: 3, successes: 3 });
+  });
+
+  it('stops the whole experiment on a ban when configured', async () => {
+    const { createScraper } = fakeFactory((runConfig, request) =>
+      runConfig.rateLimit?.minIntervalMs === 5000 && request === 2 ? 'captcha' : 'ok'
+    );
+    const def = definition({ matrix: { intervalMs: [10000, 5000, 3000] }, stop: { onBan: 'experiment' } });
+
+    const summary = await runExperiment(def, { statePath, createScraper });
+
+    expect(createScraper).toHaveBeenCalledTimes(2);
+    expect(summary.state.runs['test-exp-002']).toMatchObject({ status: 'stopped', requests: 2, bans: 1, stopReason: 'BAN: CAPTCHA' });
+    expect(summary.state.stopReason).toBe('test-exp-002 BAN: CAPTCHA');
+    expect(summary.completed).toBe(true);
+  });
+
+  it('ends a run after consecutive failures', async () => {
+    const { createScraper } = fakeFactory(() => 'fail');
+
+    const summary = await runExperiment(definition({ stop: { maxConsecutiveFailures: 2 } }), { statePath, createScraper });
+
+    expect(summary.state.runs['test-exp-001']).toMatchObject({ status: 'stopped', requests: 2, stopReason: '2 consecutive failures' });
+  });
+
+  it('waits the cooldown between runs', async () => {
+    const { createScraper } = fakeFactory(() => 'ok');
+    const sleep = vi.fn(async () => {});
+
+    await runExperiment(definition({ cooldownMs: 60000 }), { statePath, createScraper, sleep });
+
+    expect(sleep).toHaveBeenCalledOnce();
+    expect(sleep).toHaveBeenCalledWith(60000, undefined);
+  });
+
+  it('resumes an interrupted run where it left off', async () => {
+    const controller = new AbortController();
+    const first = fakeFactory((runConfig, request) => {
+      if (request === 2) controller.abort();
+      return 'ok';
+    });
+
+    const interrupted = await runExperiment(definition(), { statePath, createScraper: first.createScraper, signal: controller.signal });
+    expect(interrupted.completed).toBe(false);
+    expect(interrupted.state.runs['test-exp-001']).toMatchObject({ status: 'running', requests: 2 });
+
+    const second = fakeFactory(() => 'ok');
+    const resumed = await runExperiment(definition(), { statePath, createScraper: second.createScraper });
+
+    expect(resumed.completed).toBe(true);
+    expect(resumed.state.runs['test-exp-001']).toMatchObject({ status: 'done', requests: 3 });
+    // One request left in run 1, then all of run 2
+    const scrapers = second.createScraper.mock.results.map((result) => result.value as ExperimentScraper);
+    expect(scrapers.map((scraper) => (scraper.scrape as ReturnType<typeof vi.fn>).mock.calls.length)).toEqual([1, 3]);
+  });
+
+  it('refuses to resume a changed definition unless restarted', async () => {
+    const { createScraper } = fakeFactory(() => 'ok');
+    await runExperiment(definition(), { statePath, createScraper });
+
+    const changed = definition({ requestsPerRun: 5 });
+    await expect(runExperiment(changed, { statePath, createScraper })).rejects.toThrow('changed since it was started');
+
+    const restarted = await runExperiment(changed, { statePath, createScraper, restart: true });
+    expect(restarted.state.runs['test-exp-001'].requests).toBe(5);
+  });
+});
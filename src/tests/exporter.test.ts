@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  renderExport,
+  writeExport,
+  escapeCsvField,
+  escapeMarkdownCell,
+  resolveExportFormat,
+  listingRecords,
+  ExportRecord,
+  PRODUCT_COLUMNS,
+  LISTING_COLUMNS,
+} from '../exporter.js';
+import { ScrapeErrorType } from '../errors.js';
+import type { MercariProduct } from '../mercari-scraper.js';
+import type { BanSignals } from '../ban-detector.js';
+
+const ITEM_URL = 'https://jp.mercari.com/item/m10000001';
+const BLOCKED_URL = 'https://jp.mercari.com/item/m10000002';
+
+const cleanSignals: BanSignals = {
+  captchaDetected: false,
+  httpError: null,
+  unexpectedRedirect: false,
+  contentMissing: false,
+  jsChallenge: false,
+  responseTimeMs: 812,
+  blockedUrl: null,
+};
+
+const records: ExportRecord<MercariProduct>[] = [
+  {
+    url: ITEM_URL,
+    result: {
+      success: true,
+      attempts: 1,
+      banSignals: cleanSignals,
+      data: {
+        url: ITEM_URL,
+        title: 'ニンテンドースイッチ 本体, "美品"',
+        price: 25000,
+        isSoldOut: false,
+        statusText: '販売中',
+        seller: 'めるかり太郎',
+        description: '動作確認済み。\n箱 | 説明書あり',
+        imageUrls: ['https://static.mercdn.net/item/1.jpg', 'https://static.mercdn.net/item/2.jpg'],
+      },
+    },
+  },
+  {
+    url: BLOCKED_URL,
+    result: {
+      success: false,
+      attempts: 1,
+      error: 'BAN detected: HTTP 403',
+      errorType: ScrapeErrorType.Blocked,
+      banSignals: { ...cleanSignals, httpError: 403, responseTimeMs: 120 },
+    },
+  },
+];
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'exporter-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('escaping', () => {
+  it('quotes CSV fields with separators, quotes or line breaks', () => {
+    expect(escapeCsvField('ニンテンドー')).toBe('ニンテンドー');
+    expect(escapeCsvField('a, "b"')).toBe('"a, ""b"""');
+    expect(escapeCsvField('line1\nline2')).toBe('"line1\nline2"');
+    expect(escapeCsvField(null)).toBe('');
+    expect(escapeCsvField(false)).toBe('false');
+  });
+
+  it('keeps Markdown table cells on one line', () => {
+    expect(escapeMarkdownCell('箱 | 説明書\nあり')).toBe('箱 \\| 説明書<br>あり');
+  });
+});
+
+describe('renderExport', () => {
+  it('writes a UTF-8 CSV with a BOM and a fixed header', () => {
+    const csv = renderExport(records, 'csv', PRODUCT_COLUMNS);
+    const [header, first, second] = csv.slice(1).split('\r\n');
+
+    expect(csv.startsWith('\uFEFF')).toBe(true);
+    expect(header.split(',')).toEqual(PRODUCT_COLUMNS.map((column) => column.header));
+    expect(first).toContain('"ニンテンドースイッチ 本体, ""美品"""');
+    expect(first).toContain('https://static.mercdn.net/item/1.jpg https://static.mercdn.net/item/2.jpg');
+    expect(second).toContain('BAN detected: HTTP 403,blocked,1,120,true,HTTP 403,false,403');
+  });
+
+  it('serializes the full result as JSON and NDJSON', () => {
+    const json = JSON.parse(renderExport(records, 'json', PRODUCT_COLUMNS));
+    const ndjson = renderExport(records, 'ndjson', PRODUCT_COLUMNS).trim().split('\n').map((line) => JSON.parse(line));
+
+    expect(Object.keys(json[0])).toEqual(['url', 'success', 'data', 'error', 'errorType', 'attempts', 'banned', 'banReason', 'banSignals']);
+    expect(json[0].data.description).toBe('動作確認済み。\n箱 | 説明書あり');
+    expect(json[1]).toMatchObject({ data: null, banned: true, banReason: 'HTTP 403', banSignals: { httpError: 403 } });
+    expect(ndjson).toEqual(json);
+  });
+
+  it('renders a Markdown table with one row per record', () => {
+    const lines = renderExport(records, 'md', PRODUCT_COLUMNS).trim().split('\n');
+
+    expect(lines).toHaveLength(4);
+    expect(lines[0].startsWith('| url | success | title |')).toBe(true);
+    expect(lines[2]).toContain('動作確認済み。<br>箱 \\| 説明書あり');
+  });
+
+  it('flattens listings into one row per item', () => {
+    const listing = listingRecords({
+      success: true,
+      banSignals: cleanSignals,
+      data: [
+        { itemId: 'm1', url: ITEM_URL, title: 'A', price: 100, thumbnailUrl: null, isSoldOut: true, page: 1 },
+        { itemId: 'm2', url: BLOCKED_URL, title: 'B', price: 200, thumbnailUrl: null, isSoldOut: false, page: 2 },
+      ],
+    });
+    const csv = renderExport(listing, 'csv', LISTING_COLUMNS).slice(1).split('\r\n');
+
+    expect(csv[1].startsWith(`${ITEM_URL},true,m1,A,100,true,,1,`)).toBe(true);
+    expect(csv[2].startsWith(`${BLOCKED_URL},true,m2,B,200,false,,2,`)).toBe(true);
+  });
+});
+
+describe('resolveExportFormat', () => {
+  it('prefers --format, then the output extension, then JSON', () => {
+    expect(resolveExportFormat('md', 'out.csv')).toBe('md');
+    expect(resolveExportFormat(undefined, 'out.jsonl')).toBe('ndjson');
+    expect(resolveExportFormat(undefined, 'out.txt')).toBe('json');
+    expect(() => resolveExportFormat('xlsx', undefined)).toThrow('Unknown export format "xlsx"');
+  });
+});
+
+describe('writeExport', () => {
+  it('creates the output directory', () => {
+    const output = path.join(tmpDir, 'nested', 'results.ndjson');
+
+    writeExport(records, PRODUCT_COLUMNS, { format: 'ndjson', output });
+
+    expect(fs.readFileSync(output, 'utf-8').trim().split('\n')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,111 @@
+import fs from 'fs';
+import { chromium } from 'playwright';
+import type { Page, Request, Response } from 'playwright';
+
+// Browser-driven suites are skipped when no Chromium build is installed
+// (`npx playwright install chromium`), so the rest still runs in CI
+export const chromiumAvailable = (() => {
+  try {
+    return fs.existsSync(chromium.executablePath());
+  } catch {
+    return false;
+  }
+})();
+
+export interface FakePageOptions {
+  url: string;
+  html?: string;
+  selectors?: string[];
+}
+
+export interface FakePage {
+  page: Page;
+  // A full exchange: request, response and requestfinished. resourceType defaults to
+  // 'document' for the page URL and 'image' otherwise; documents belong to the main frame
+  emitResponse(status: number, url?: string, headers?: Record<string, string>, body?: unknown, resourceType?: string): void;
+  emitFailure(url: string, errorText: string, resourceType?: string): void;
+  emitConsole(type: string, text: string): void;
+}
+
+// Minimal stand-in for the parts of Page the detectors touch: `$` and `$$` resolve
+// only the selectors listed in `selectors`, `content()` returns `html`
+export function createFakePage(options: FakePageOptions): FakePage {
+  const listeners = new Map<string, Array<(payload: unknown) => void>>();
+  const present = new Set(options.selectors ?? []);
+  const mainFrame = {};
+
+  const page = {
+    url: () => options.url,
+    content: async () => options.html ?? '<html><body></body></html>',
+    $: async (selector: string) => (present.has(selector) ? { textContent: async () => 'text' } : null),
+    $$: async (selector: string) => (present.has(selector) ? [{ textContent: async () => 'text' }] : []),
+    mainFrame: () => mainFrame,
+    on: (event: string, listener: (payload: unknown) => void) => {
+      listeners.set(event, [...(listeners.get(event) ?? []), listener]);
+      return page;
+    },
+    off: (event: string, listener: (payload: unknown) => void) => {
+      listeners.set(
+        event,
+        (listeners.get(event) ?? []).filter((registered) => registered !== listener)
+      );
+      return page;
+    },
+  };
+
+  const emit = (event: string, payload: unknown): void => {
+    for (const listener of [...(listeners.get(event) ?? [])]) listener(payload);
+  };
+
+  const fakeRequest = (url: string, resourceType: string, errorText?: string): Request =>
+    ({
+      url: () => url,
+      method: () => 'GET',
+      headers: () => ({ 'user-agent': 'test' }),
+      resourceType: () => resourceType,
+      isNavigationRequest: () => resourceType === 'document',
+      frame: () => mainFrame,
+      timing: () => ({ responseEnd: 120 }),
+      sizes: async () => ({ responseHeadersSize: 100, responseBodySize: 1000 }),
+      failure: () => (errorText ? { errorText } : null),
+    }) as unknown as Request;
+
+  const defaultType = (url: string) => (url === options.url ? 'document' : 'image');
+
+  return {
+    page: page as unknown as Page,
+    emitResponse(
+      status: number,
+      url: string = options.url,
+      headers: Record<string, string> = {},
+      body?: unknown,
+      resourceType: string = defaultType(url)
+    ): void {
+      const request = fakeRequest(url, resourceType);
+      const response = {
+        status: () => status,
+        statusText: () => '',
+        url: () => url,
+        // Like Playwright, headers() leaves out Set-Cookie and allHeaders() joins its values with newlines
+        headers: () => Object.fromEntries(Object.entries(headers).filter(([name]) => name !== 'set-cookie')),
+        allHeaders: async () => headers,
+        request: () => request,
+        json: async () => {
+          if (body === undefined) throw new Error('Response body is not JSON');
+          return body;
+        },
+      } as unknown as Response;
+      emit('request', request);
+      emit('response', response);
+      emit('requestfinished', request);
+    },
+    emitFailure(url: string, errorText: string, resourceType: string = defaultType(url)): void {
+      const request = fakeRequest(url, resourceType, errorText);
+      emit('request', request);
+      emit('requestfailed', request);
+    },
+    emitConsole(type: string, text: string): void {
+      emit('console', { type: () => type, text: () => text, location: () => ({ url: options.url, lineNumber: 1, columnNumber: 1 }) });
+    },
+  };
+}
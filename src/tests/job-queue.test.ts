@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { JobQueue, JsonJobQueue, SqliteJobQueue, openJobQueue, defaultJobId } from '../job-queue.js';
+import { ScrapeErrorType } from '../errors.js';
+
+const URLS = ['https://jp.mercari.com/item/m1', 'https://jp.mercari.com/item/m2', 'https://jp.mercari.com/item/m3'];
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'job-queue-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('defaultJobId', () => {
+  it('identifies the same URL list regardless of order and duplicates', () => {
+    expect(defaultJobId([URLS[1], URLS[0], URLS[1]])).toBe(defaultJobId(URLS.slice(0, 2)));
+    expect(defaultJobId(URLS)).not.toBe(defaultJobId(URLS.slice(0, 2)));
+  });
+});
+
+const backends: Array<[string, () => JobQueue]> = [
+  ['JsonJobQueue', () => new JsonJobQueue(path.join(tmpDir, 'jobs.json'))],
+  ['SqliteJobQueue', () => new SqliteJobQueue(new Database(':memory:'))],
+];
+
+describe.each(backends)('%s', (_name, createQueue) => {
+  let queue: JobQueue;
+
+  beforeEach(() => {
+    queue = createQueue();
+  });
+
+  afterEach(async () => {
+    await queue.close();
+  });
+
+  it('adds each URL once, in order', async () => {
+    expect(await queue.addItems('job', [URLS[0], URLS[1], URLS[0]])).toBe(2);
+    expect(await queue.addItems('job', URLS)).toBe(1);
+
+    const items = await queue.listItems('job');
+    expect(items.map((item) => [item.url, item.position, item.status, item.attempts])).toEqual([
+      [URLS[0], 0, 'pending', 0],
+      [URLS[1], 1, 'pending', 0],
+      [URLS[2], 2, 'pending', 0],
+    ]);
+    expect(await queue.listItems('other')).toEqual([]);
+  });
+
+  it('tracks attempts and outcomes and summarizes them', async () => {
+    await queue.addItems('job', URLS);
+    await queue.markStarted('job', URLS[0]);
+    await queue.markFinished('job', URLS[0], { status: 'done' });
+    await queue.markStarted('job', URLS[1]);
+    await queue.markFinished('job', URLS[1], { status: 'failed', error: 'BAN detected: HTTP 403', errorType: ScrapeErrorType.Blocked });
+    await queue.markStarted('job', URLS[2]);
+
+    expect(await queue.summarize('job')).toMatchObject({ jobId: 'job', total: 3, pending: 0, in_progress: 1, done: 1, failed: 1 });
+    expect(await queue.listItems('job', 'failed')).toMatchObject([
+      { url: URLS[1], attempts: 1, lastError: 'BAN detected: HTTP 403', errorType: ScrapeErrorType.Blocked },
+    ]);
+    expect(await queue.summarize('missing')).toBeNull();
+    expect((await queue.listJobs()).map((job) => job.jobId)).toEqual(['job']);
+  });
+
+  it('resumes with the pending URLs and the ones an interrupted run left in progress', async () => {
+    await queue.addItems('job', URLS);
+    await queue.markStarted('job', URLS[0]);
+    await queue.markFinished('job', URLS[0], { status: 'done' });
+    await queue.markStarted('job', URLS[1]);
+
+    const pending = await queue.resume('job', URLS);
+
+    expect(pending.map((item) => [item.url, item.attempts])).toEqual([
+      [URLS[1], 1],
+      [URLS[2], 0],
+    ]);
+  });
+
+  it('starts a finished job again when its URLs are given, and leaves it alone when only resumed', async () => {
+    await queue.addItems('job', URLS);
+    await queue.markFinished('job', URLS[0], { status: 'done' });
+    await queue.markFinished('job', URLS[1], { status: 'failed', error: 'Navigation timeout' });
+    await queue.markFinished('job', URLS[2], { status: 'done' });
+
+    expect(await queue.resume('job')).toEqual([]);
+    expect((await queue.resume('job', URLS)).map((item) => item.url)).toEqual(URLS);
+  });
+
+  it('requeues failed URLs for a retry', async () => {
+    await queue.addItems('job', URLS);
+    await queue.markFinished('job', URLS[0], { status: 'failed', error: 'Navigation timeout' });
+    await queue.markFinished('job', URLS[1], { status: 'done' });
+
+    expect(await queue.requeue('job', ['failed'])).toBe(1);
+    expect((await queue.listItems('job', 'pending')).map((item) => item.url)).toEqual([URLS[0], URLS[2]]);
+    expect(await queue.requeue('job', [])).toBe(0);
+  });
+});
+
+describe('JsonJobQueue', () => {
+  it('keeps progress across instances', async () => {
+    const filePath = path.join(tmpDir, 'jobs.json');
+    const first = new JsonJobQueue(filePath);
+    await first.addItems('job', URLS);
+    await first.markFinished('job', URLS[0], { status: 'done' });
+
+    const second = new JsonJobQueue(filePath);
+    expect(await second.summarize('job')).toMatchObject({ total: 3, done: 1, pending: 2 });
+  });
+});
+
+describe('openJobQueue', () => {
+  it('opens SQLite next to the product store', async () => {
+    const queue = await openJobQueue({ enabled: true, type: 'sqlite' }, tmpDir);
+    await queue.addItems('job', URLS);
+    await queue.close();
+
+    expect(queue.kind).toBe('sqlite');
+    const reopened = await openJobQueue({ enabled: true, type: 'sqlite' }, tmpDir);
+    expect(await reopened.summarize('job')).toMatchObject({ total: 3, pending: 3 });
+    await reopened.close();
+  });
+
+  it('opens a JSON file when the store is JSON', async () => {
+    const queue = await openJobQueue({ enabled: true, type: 'json' }, tmpDir);
+    await queue.addItems('job', URLS);
+    await queue.close();
+
+    expect(queue.kind).toBe('json');
+    expect(fs.existsSync(path.join(tmpDir, 'jobs.json'))).toBe(true);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { MercariListingScraper } from '../mercari-listing-scraper.js';
+import { extractItemId } from '../mercari-scraper.js';
+import { config } from '../config.js';
+import { startMockMercariServer, MockMercariServer } from './mock-server.js';
+import { chromiumAvailable } from './helpers.js';
+
+describe('extractItemId', () => {
+  it('reads the item ID from relative and absolute links', () => {
+    expect(extractItemId('/item/m12345678')).toBe('m12345678');
+    expect(extractItemId('https://jp.mercari.com/item/m98765?source=search')).toBe('m98765');
+    expect(extractItemId('/shops/product/abc')).toBeNull();
+  });
+});
+
+describe.skipIf(!chromiumAvailable)('MercariListingScraper.scrape', () => {
+  let server: MockMercariServer;
+  let scraper: MercariListingScraper;
+
+  beforeAll(async () => {
+    server = await startMockMercariServer();
+    scraper = new MercariListingScraper({
+      headless: true,
+      humanBehavior: { ...config.humanBehavior, enabled: false },
+      logging: { ...config.logging, enabled: false },
+      rateLimit: { ...config.rateLimit, minIntervalMs: 0, backoffBaseMs: 0, cooldownMs: 0 },
+    });
+    await scraper.initialize();
+  }, 60000);
+
+  afterAll(async () => {
+    await scraper?.close();
+    await server?.close();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it('follows pagination and collects every item', async () => {
+    const result = await scraper.scrape(server.searchUrl('テスト'), { paging: 'pagination', pageIntervalMs: 0 });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.map((item) => [item.itemId, item.page])).toEqual([
+      ['m10000001', 1],
+      ['m10000002', 1],
+      ['m10000003', 2],
+    ]);
+    expect(result.data?.[0]).toMatchObject({
+      url: `${server.baseUrl}/item/m10000001`,
+      title: 'ニンテンドースイッチ 本体 有機ELモデル',
+      price: 32800,
+      thumbnailUrl: '/thumb/item/m10000001_1.jpg',
+      isSoldOut: false,
+    });
+    expect(result.data?.[1].isSoldOut).toBe(true);
+  });
+
+  it('loads infinite-scroll results', async () => {
+    const result = await scraper.scrape(server.searchUrl('テスト', 'scroll'), { paging: 'scroll' });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toHaveLength(3);
+  });
+
+  it('stops at maxPages', async () => {
+    const result = await scraper.scrape(server.searchUrl('テスト'), { paging: 'pagination', maxPages: 1 });
+
+    expect(result.data?.map((item) => item.itemId)).toEqual(['m10000001', 'm10000002']);
+  });
+
+  it('stops at maxItems', async () => {
+    const result = await scraper.scrape(server.searchUrl('テスト'), { maxItems: 1 });
+
+    expect(result.data).toHaveLength(1);
+  });
+}, 60000);
@@ -0,0 +1,276 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Page } from 'playwright';
+import {
+  MercariScraper,
+  MERCARI_PRODUCT_SCHEMA_VERSION,
+  MERCARI_PRODUCT_FIELDS,
+  FieldReport,
+  parseCount,
+  parseTimestamp,
+  summarizeExtraction,
+} from '../mercari-scraper.js';
+import { BaseScraper, ScrapeResult } from '../scraper.js';
+import { configureLogger } from '../logger.js';
+import { parseRequestLogs } from '../analyzer.js';
+import { config } from '../config.js';
+import { startMockMercariServer, MockMercariServer } from './mock-server.js';
+import { chromiumAvailable, createFakePage } from './helpers.js';
+
+describe.skipIf(!chromiumAvailable)('MercariScraper.scrape', () => {
+  let server: MockMercariServer;
+  let scraper: MercariScraper;
+
+  beforeAll(async () => {
+    server = await startMockMercariServer();
+    scraper = new MercariScraper({
+      headless: true,
+      humanBehavior: { ...config.humanBehavior, enabled: false },
+      logging: { ...config.logging, enabled: false },
+      rateLimit: { ...config.rateLimit, minIntervalMs: 0, backoffBaseMs: 0, cooldownMs: 0 },
+    });
+    await scraper.initialize();
+  }, 60000);
+
+  afterAll(async () => {
+    await scraper?.close();
+    await server?.close();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it('extracts an on-sale item', async () => {
+    const url = server.itemUrl('m10000001');
+    const result = await scraper.scrape(url);
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({
+      schemaVersion: MERCARI_PRODUCT_SCHEMA_VERSION,
+      url,
+      title: 'ニンテンドースイッチ 本体 有機ELモデル',
+      price: 32800,
+      isSoldOut: false,
+      statusText: '販売中',
+      status: 'on_sale',
+      statusConfidence: 0.7,
+      statusEvidence: [
+        { source: 'dom', signal: 'purchase_button', status: 'on_sale', weight: 0.7, detail: 'button[data-testid="purchase-button"]' },
+      ],
+      seller: 'テスト出品者',
+      description: '動作確認済みです。箱・付属品すべて揃っています。',
+      imageUrls: [`${server.baseUrl}/thumb/m10000001_1.jpg`, `${server.baseUrl}/thumb/m10000001_2.jpg`],
+      condition: '目立った傷や汚れなし',
+      shippingPayer: '送料込み(出品者負担)',
+      shippingMethod: 'らくらくメルカリ便',
+      shippingFrom: '東京都',
+      daysToShip: '1~2日で発送',
+      categories: ['おもちゃ・ホビー・グッズ', 'テレビゲーム'],
+      brand: 'ニンテンドー',
+      likeCount: 12,
+      commentCount: 3,
+      listedAt: '2025-01-10T00:00:00.000Z',
+      updatedAt: '2025-01-15T03:00:00.000Z',
+    });
+  });
+
+  it('logs per-field extraction results', async () => {
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mercari-log-'));
+    configureLogger({ level: 'info', outputDir });
+    const logging = new MercariScraper({
+      logging: { outputDir },
+      humanBehavior: { enabled: false },
+      rateLimit: { minIntervalMs: 0, backoffBaseMs: 0, cooldownMs: 0 },
+    });
+
+    try {
+      await logging.initialize();
+      await logging.scrape(server.itemUrl('m10000001'));
+      await logging.close();
+
+      const requestsFile = path.join(outputDir, 'requests.jsonl');
+      await vi.waitFor(() => expect(fs.existsSync(requestsFile) && fs.readFileSync(requestsFile, 'utf-8')).toContain('scrapedData'));
+      const [log] = parseRequestLogs(fs.readFileSync(requestsFile, 'utf-8'));
+
+      expect(log.scrapedData).toMatchObject({
+        titleExtracted: true,
+        priceExtracted: true,
+        soldStatusExtracted: true,
+        schemaVersion: MERCARI_PRODUCT_SCHEMA_VERSION,
+        fields: { condition: true, categories: true, size: false },
+        status: 'on_sale',
+        statusConfidence: 0.7,
+      });
+    } finally {
+      configureLogger(config.logging);
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  });
+
+  it('marks a sold-out item', async () => {
+    const result = await scraper.scrape(server.itemUrl('m10000002', 'sold-out'));
+
+    expect(result.success).toBe(true);
+    expect(result.data?.isSoldOut).toBe(true);
+    expect(result.data?.statusText).toBe('売り切れ');
+    expect(result.data?.statusConfidence).toBe(1);
+    expect(result.data?.statusEvidence?.map((evidence) => evidence.signal)).toEqual(['disabled_purchase_button', 'sold_text']);
+  });
+
+  it('reports a deleted item instead of a blocked page', async () => {
+    const result = await scraper.scrape(server.itemUrl('m10000001', 'deleted'));
+
+    expect(result.success).toBe(true);
+    expect(result.banSignals.contentMissing).toBe(false);
+    expect(result.data).toMatchObject({ status: 'deleted', statusText: '削除済み', isSoldOut: false, title: null });
+    // The related items' SOLD badge is outside the item section and is not evidence
+    expect(result.data?.statusEvidence?.map((evidence) => evidence.signal)).toEqual(['not_found_status', 'deleted_text']);
+  });
+
+  it('fails with contentMissing on an empty page', async () => {
+    const result = await scraper.scrape(server.itemUrl('m10000001', 'empty'));
+
+    expect(result.success).toBe(false);
+    expect(result.banSignals.contentMissing).toBe(true);
+  });
+
+  it.each([
+    ['captcha', 'BAN detected: CAPTCHA'],
+    ['js-challenge', 'BAN detected: JS Challenge'],
+    ['http-429', 'BAN detected: HTTP 429'],
+  ] as const)('reports a ban for %s', async (scenario, error) => {
+    const result = await scraper.scrape(server.itemUrl('m10000001', scenario));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(error);
+  });
+
+  it('reports a ban for the /block redirect', async () => {
+    const result = await scraper.scrape(server.itemUrl('m10000001', 'block-redirect'));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(`BAN detected: Redirect to ${server.baseUrl}/block`);
+  });
+}, 60000);
+
+describe('field parsers', () => {
+  const now = new Date('2025-01-17T03:00:00Z');
+
+  it.each([
+    ['12', 12],
+    ['いいね! 1,024', 1024],
+    ['コメント', null],
+  ])('parseCount(%j)', (text, count) => {
+    expect(parseCount(text)).toBe(count);
+  });
+
+  it.each([
+    ['2日前', '2025-01-15T03:00:00.000Z'],
+    ['3時間前', '2025-01-17T00:00:00.000Z'],
+    ['1ヶ月前', '2024-12-18T03:00:00.000Z'],
+    ['たった今', '2025-01-17T03:00:00.000Z'],
+    ['2025/01/10 09:00', '2025-01-10T00:00:00.000Z'],
+    ['2025-01-10T00:00:00Z', '2025-01-10T00:00:00.000Z'],
+    ['2025-01-10T12:00:00.500+09:00', '2025-01-10T03:00:00.500Z'],
+    ['2025-01-10T09:00:30', '2025-01-10T00:00:30.000Z'],
+    ['不明', null],
+    ['1', null],
+    ['May 3', null],
+    ['Fri, 10 Jan 2025 00:00:00', null],
+  ])('parseTimestamp(%j)', (text, iso) => {
+    expect(parseTimestamp(text, now)).toBe(iso);
+  });
+
+  it('keeps the core flags in the extraction summary', () => {
+    const fields = Object.fromEntries(MERCARI_PRODUCT_FIELDS.map((field) => [field, field !== 'price'])) as FieldReport;
+
+    expect(summarizeExtraction(fields, { title: 'json-ld' }, { price: null })).toEqual({
+      titleExtracted: true,
+      priceExtracted: false,
+      soldStatusExtracted: true,
+      schemaVersion: MERCARI_PRODUCT_SCHEMA_VERSION,
+      fields,
+      sources: { title: 'json-ld' },
+      selectors: { price: null },
+    });
+  });
+});
+
+class ReportingScraper extends BaseScraper {
+  usePage(page: Page): void {
+    this.page = page;
+  }
+
+  async scrape(url: string, report = true): Promise<ScrapeResult<void>> {
+    const result = await this.navigate(url);
+    if (report) {
+      this.completeRequestLog({ titleExtracted: true, priceExtracted: false, soldStatusExtracted: true });
+    }
+    return result;
+  }
+}
+
+describe('request log completion', () => {
+  let outputDir: string;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scraped-data-'));
+    configureLogger({ level: 'info', outputDir });
+  });
+
+  afterEach(() => {
+    configureLogger(config.logging);
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('writes the navigation log once the extraction is reported', async () => {
+    const url = 'https://jp.mercari.com/item/m10000001';
+    const { page } = createFakePage({ url, html: '<h1>商品</h1>', selectors: ['h1'] });
+    Object.assign(page, { goto: vi.fn(async () => null) });
+    const scraper = new ReportingScraper({
+      logging: { outputDir },
+      humanBehavior: { enabled: false },
+      rateLimit: { minIntervalMs: 0, backoffBaseMs: 0, cooldownMs: 0 },
+      politeness: { robotsTxt: false },
+    });
+    scraper.usePage(page);
+
+    await scraper.scrape(url);
+    await scraper.scrape(url, false);
+    // The unreported entry is written before the next navigation
+    await scraper.scrape(url);
+
+    const requestsFile = path.join(outputDir, 'requests.jsonl');
+    await vi.waitFor(() => {
+      expect(parseRequestLogs(fs.existsSync(requestsFile) ? fs.readFileSync(requestsFile, 'utf-8') : '')).toHaveLength(3);
+    });
+    const logs = parseRequestLogs(fs.readFileSync(requestsFile, 'utf-8'));
+    expect(logs.map((log) => log.scrapedData?.priceExtracted ?? null)).toEqual([false, null, false]);
+  });
+
+  it('writes to the log directory of the scraper rather than the process', async () => {
+    const url = 'https://jp.mercari.com/item/m10000001';
+    const ownDir = path.join(outputDir, 'own');
+    const { page } = createFakePage({ url, html: '<h1>商品</h1>', selectors: ['h1'] });
+    Object.assign(page, { goto: vi.fn(async () => null) });
+    const scraper = new ReportingScraper({
+      logging: { outputDir: ownDir },
+      humanBehavior: { enabled: false },
+      rateLimit: { minIntervalMs: 0, backoffBaseMs: 0, cooldownMs: 0 },
+      politeness: { robotsTxt: false },
+    });
+    scraper.usePage(page);
+
+    await scraper.scrape(url);
+
+    const requestsFile = path.join(ownDir, 'requests.jsonl');
+    await vi.waitFor(() => {
+      expect(parseRequestLogs(fs.existsSync(requestsFile) ? fs.readFileSync(requestsFile, 'utf-8') : '')).toHaveLength(1);
+    });
+    const processFile = path.join(outputDir, 'requests.jsonl');
+    expect(parseRequestLogs(fs.existsSync(processFile) ? fs.readFileSync(processFile, 'utf-8') : '')).toEqual([]);
+  });
+});
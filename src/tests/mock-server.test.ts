@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { startMockMercariServer, MockMercariServer } from './mock-server.js';
+
+describe('mock Mercari server', () => {
+  let server: MockMercariServer;
+
+  beforeAll(async () => {
+    server = await startMockMercariServer({ retryAfterSeconds: 120 });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it('serves a recorded item page with the item data filled in', async () => {
+    const response = await fetch(server.itemUrl('m10000001'));
+    const html = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(html).toContain('data-testid="item-name">ニンテンドースイッチ 本体 有機ELモデル<');
+    expect(html).toContain('32,800');
+    expect(html).toContain('data-testid="purchase-button"');
+  });
+
+  it('serves the sold-out variant', async () => {
+    const html = await (await fetch(server.itemUrl('m10000002', 'sold-out'))).text();
+    expect(html).toContain('data-testid="disabled-purchase-button"');
+  });
+
+  it('serves a deleted notice with 404', async () => {
+    const response = await fetch(server.itemUrl('m10000001', 'deleted'));
+    expect(response.status).toBe(404);
+    expect(await response.text()).toContain('この商品は削除されました');
+  });
+
+  it('returns 404 for unknown items', async () => {
+    const response = await fetch(server.itemUrl('m99999999'));
+    expect(response.status).toBe(404);
+  });
+
+  it.each([
+    ['http-403', 403],
+    ['http-429', 429],
+    ['http-503', 503],
+  ] as const)('returns %s on demand', async (scenario, status) => {
+    const response = await fetch(server.itemUrl('m10000001', scenario));
+    expect(response.status).toBe(status);
+  });
+
+  it('sends Retry-After with 429 responses', async () => {
+    const response = await fetch(server.itemUrl('m10000001', 'http-429'));
+    expect(response.headers.get('retry-after')).toBe('120');
+  });
+
+  it('redirects to /block', async () => {
+    const response = await fetch(server.itemUrl('m10000001', 'block-redirect'), { redirect: 'manual' });
+    expect(response.status).toBe(302);
+    expect(response.headers.get('location')).toBe('/block');
+  });
+
+  it('plays queued scenarios in order before falling back to the default', async () => {
+    server.enqueue('on-sale', 'captcha');
+
+    const statuses: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      await (await fetch(server.itemUrl('m10000001'))).text();
+    }
+    for (const request of server.requests) {
+      statuses.push(request.scenario ?? 'none');
+    }
+
+    expect(statuses).toEqual(['on-sale', 'captcha', 'on-sale']);
+  });
+
+  it('uses the default scenario set at runtime', async () => {
+    server.setScenario('js-challenge');
+    const html = await (await fetch(server.itemUrl('m10000001'))).text();
+    expect(html).toContain('Just a moment');
+  });
+
+  it('paginates search results with a next-page link', async () => {
+    const first = await (await fetch(server.searchUrl('スイッチ'))).text();
+    const second = await (await fetch(`${server.baseUrl}/search?keyword=x&page_token=v1:1`)).text();
+
+    expect(first.match(/<li data-testid="item-cell">/g)).toHaveLength(2);
+    expect(first).toContain('data-testid="pagination-next-button"');
+    expect(second.match(/<li data-testid="item-cell">/g)).toHaveLength(1);
+    expect(second).not.toContain('data-testid="pagination-next-button"');
+  });
+
+  it('marks sold items in search results', async () => {
+    const html = await (await fetch(server.searchUrl('カード'))).text();
+    expect(html.match(/data-testid="soldout-badge"/g)).toHaveLength(1);
+  });
+
+  it('defers the remaining cells to the scroll handler in scroll mode', async () => {
+    const html = await (await fetch(server.searchUrl('スイッチ', 'scroll'))).text();
+
+    expect(html.match(/<li data-testid="item-cell">/g)).toHaveLength(2);
+    expect(html).toContain('const pending = [');
+    expect(html).not.toContain('pagination-next-button');
+  });
+});
@@ -0,0 +1,295 @@
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import type { AddressInfo } from 'net';
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures');
+
+// Responses the mock server can be told to produce for an item page
+export type MockScenario =
+  | 'on-sale'
+  | 'sold-out'
+  | 'http-403'
+  | 'http-429'
+  | 'http-503'
+  | 'block-redirect'
+  | 'captcha'
+  | 'js-challenge'
+  | 'empty'
+  | 'deleted';
+
+export const MOCK_SCENARIOS: MockScenario[] = [
+  'on-sale',
+  'sold-out',
+  'http-403',
+  'http-429',
+  'http-503',
+  'block-redirect',
+  'captcha',
+  'js-challenge',
+  'empty',
+  'deleted',
+];
+
+export interface MockItem {
+  title: string;
+  price: number;
+  description: string;
+  seller: string;
+  // Shown with a sold badge in search results
+  soldOut?: boolean;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  scenario: MockScenario | null;
+  timestamp: number;
+}
+
+export interface MockServerOptions {
+  port?: number;
+  items?: Record<string, MockItem>;
+  defaultScenario?: MockScenario;
+  retryAfterSeconds?: number;
+  searchPageSize?: number;
+}
+
+export interface MockMercariServer {
+  baseUrl: string;
+  requests: RecordedRequest[];
+  itemUrl(itemId: string, scenario?: MockScenario): string;
+  searchUrl(keyword: string, mode?: 'pagination' | 'scroll'): string;
+  setScenario(scenario: MockScenario): void;
+  enqueue(...scenarios: MockScenario[]): void;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+export const DEFAULT_MOCK_ITEMS: Record<string, MockItem> = {
+  m10000001: {
+    title: 'ニンテンドースイッチ 本体 有機ELモデル',
+    price: 32800,
+    description: '動作確認済みです。箱・付属品すべて揃っています。',
+    seller: 'テスト出品者',
+  },
+  m10000002: {
+    title: 'ポケモンカード 151 BOX シュリンク付き',
+    price: 12500,
+    description: '未開封品です。',
+    seller: 'カード屋さん',
+    soldOut: true,
+  },
+  m10000003: {
+    title: 'ユニクロ ウルトラライトダウン Mサイズ',
+    price: 2980,
+    description: '数回着用しました。目立った傷や汚れはありません。',
+    seller: 'クローゼット整理中',
+  },
+};
+
+const TRANSPARENT_GIF = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+const fixtureCache = new Map<string, string>();
+
+export function loadFixture(name: string): string {
+  let html = fixtureCache.get(name);
+  if (html === undefined) {
+    html = fs.readFileSync(path.join(FIXTURE_DIR, name), 'utf-8');
+    fixtureCache.set(name, html);
+  }
+  return html;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function renderItemFixture(name: string, item: MockItem, itemId: string = 'm00000000'): string {
+  return loadFixture(name)
+    .replace(/{{itemId}}/g, itemId)
+    .replace(/{{title}}/g, escapeHtml(item.title))
+    .replace(/{{price}}/g, item.price.toLocaleString('ja-JP'))
+    .replace(/{{description}}/g, escapeHtml(item.description))
+    .replace(/{{seller}}/g, escapeHtml(item.seller));
+}
+
+function renderSearchCell(itemId: string, item: MockItem): string {
+  return loadFixture('search-cell.html')
+    .replace(/{{itemId}}/g, itemId)
+    .replace(/{{title}}/g, escapeHtml(item.title))
+    .replace(/{{price}}/g, item.price.toLocaleString('ja-JP'))
+    .replace(/{{badge}}/g, item.soldOut ? '<div data-testid="soldout-badge">SOLD</div>' : '');
+}
+
+// Search results either paginate with a next-page link ("pagination") or
+// append the remaining cells when the page is scrolled to the bottom ("scroll")
+export function renderSearchPage(
+  items: Record<string, MockItem>,
+  keyword: string,
+  pageIndex: number,
+  pageSize: number,
+  mode: 'pagination' | 'scroll'
+): string {
+  const cells = Object.entries(items).map(([itemId, item]) => renderSearchCell(itemId, item));
+  let visible: string[];
+  let pagination = '';
+  let script = '';
+
+  if (mode === 'scroll') {
+    visible = cells.slice(0, pageSize);
+    const pending = cells.slice(pageSize);
+    script = `<script>
+  const pending = ${JSON.stringify(pending)};
+  window.addEventListener('scroll', () => {
+    if (pending.length > 0 && window.innerHeight + window.scrollY >= document.body.scrollHeight - 50) {
+      document.querySelector('#item-grid ul').insertAdjacentHTML('beforeend', pending.shift());
+    }
+  });
+</script>`;
+  } else {
+    visible = cells.slice(pageIndex * pageSize, (pageIndex + 1) * pageSize);
+    if ((pageIndex + 1) * pageSize < cells.length) {
+      const next = `/search?keyword=${encodeURIComponent(keyword)}&amp;page_token=v1:${pageIndex + 1}`;
+      pagination = `    <div data-testid="pagination-next-button"><a href="${next}">次へ</a></div>`;
+    }
+  }
+
+  return loadFixture('search.html')
+    .replace(/{{keyword}}/g, escapeHtml(keyword))
+    .replace('{{cells}}', visible.join('\n'))
+    .replace('{{pagination}}', pagination)
+    .replace('{{script}}', script);
+}
+
+function isScenario(value: string | null): value is MockScenario {
+  return value !== null && (MOCK_SCENARIOS as string[]).includes(value);
+}
+
+function sendHtml(res: http.ServerResponse, status: number, html: string, headers: http.OutgoingHttpHeaders = {}): void {
+  res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8', ...headers });
+  res.end(html);
+}
+
+// Local stand-in for jp.mercari.com that serves recorded item pages and
+// reproduces the block responses the detectors are expected to catch
+export async function startMockMercariServer(options: MockServerOptions = {}): Promise<MockMercariServer> {
+  const items = options.items ?? DEFAULT_MOCK_ITEMS;
+  const retryAfterSeconds = options.retryAfterSeconds ?? 60;
+  const searchPageSize = options.searchPageSize ?? 2;
+  let defaultScenario: MockScenario = options.defaultScenario ?? 'on-sale';
+  let queue: MockScenario[] = [];
+  const requests: RecordedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const itemMatch = url.pathname.match(/^\/item\/(m\w+)$/);
+
+    if (!itemMatch) {
+      requests.push({ method: req.method ?? 'GET', path: url.pathname, scenario: null, timestamp: Date.now() });
+
+      if (url.pathname === '/search') {
+        const keyword = url.searchParams.get('keyword') ?? '';
+        const pageIndex = parseInt((url.searchParams.get('page_token') ?? 'v1:0').split(':')[1], 10) || 0;
+        const mode = url.searchParams.get('mode') === 'scroll' ? 'scroll' : 'pagination';
+        sendHtml(res, 200, renderSearchPage(items, keyword, pageIndex, searchPageSize, mode));
+      } else if (url.pathname.startsWith('/thumb/')) {
+        res.writeHead(200, { 'Content-Type': 'image/gif' });
+        res.end(TRANSPARENT_GIF);
+      } else if (url.pathname === '/block') {
+        sendHtml(res, 200, loadFixture('block.html'));
+      } else if (url.pathname === '/captcha/frame') {
+        sendHtml(res, 200, '<!DOCTYPE html><html><body><div class="g-recaptcha" data-sitekey="mock"></div></body></html>');
+      } else if (url.pathname === '/favicon.ico') {
+        res.writeHead(204);
+        res.end();
+      } else {
+        sendHtml(res, 404, '<!DOCTYPE html><html><body><h1>Not Found</h1></body></html>');
+      }
+      return;
+    }
+
+    const itemId = itemMatch[1];
+    const override = url.searchParams.get('mock');
+    const scenario: MockScenario = isScenario(override) ? override : (queue.shift() ?? defaultScenario);
+    requests.push({ method: req.method ?? 'GET', path: url.pathname, scenario, timestamp: Date.now() });
+
+    const item = items[itemId];
+    if (!item && (scenario === 'on-sale' || scenario === 'sold-out')) {
+      sendHtml(res, 404, loadFixture('empty.html'));
+      return;
+    }
+
+    switch (scenario) {
+      case 'on-sale':
+        sendHtml(res, 200, renderItemFixture('item-on-sale.html', item, itemId));
+        break;
+      case 'sold-out':
+        sendHtml(res, 200, renderItemFixture('item-sold-out.html', item, itemId));
+        break;
+      case 'http-403':
+        sendHtml(res, 403, loadFixture('block.html'));
+        break;
+      case 'http-429':
+        sendHtml(res, 429, loadFixture('block.html'), { 'Retry-After': String(retryAfterSeconds) });
+        break;
+      case 'http-503':
+        sendHtml(res, 503, loadFixture('block.html'), { 'Retry-After': String(retryAfterSeconds) });
+        break;
+      case 'block-redirect':
+        res.writeHead(302, { Location: '/block' });
+        res.end();
+        break;
+      case 'captcha':
+        sendHtml(res, 200, loadFixture('captcha.html'));
+        break;
+      case 'js-challenge':
+        sendHtml(res, 200, loadFixture('js-challenge.html'));
+        break;
+      case 'empty':
+        sendHtml(res, 200, loadFixture('empty.html'));
+        break;
+      // Mercari answers deleted items with a 404 notice page
+      case 'deleted':
+        sendHtml(res, 404, loadFixture('item-deleted.html'));
+        break;
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const baseUrl = `http://127.0.0.1:${port}`;
+
+  return {
+    baseUrl,
+    requests,
+    itemUrl(itemId: string, scenario?: MockScenario): string {
+      return scenario ? `${baseUrl}/item/${itemId}?mock=${scenario}` : `${baseUrl}/item/${itemId}`;
+    },
+    searchUrl(keyword: string, mode: 'pagination' | 'scroll' = 'pagination'): string {
+      const query = `keyword=${encodeURIComponent(keyword)}`;
+      return mode === 'scroll' ? `${baseUrl}/search?${query}&mode=scroll` : `${baseUrl}/search?${query}`;
+    },
+    setScenario(scenario: MockScenario): void {
+      defaultScenario = scenario;
+    },
+    enqueue(...scenarios: MockScenario[]): void {
+      queue.push(...scenarios);
+    },
+    reset(): void {
+      defaultScenario = options.defaultScenario ?? 'on-sale';
+      queue = [];
+      requests.length = 0;
+    },
+    close(): Promise<void> {
+      return new Promise((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      });
+    },
+  };
+}
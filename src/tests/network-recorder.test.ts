@@ -0,0 +1,119 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect } from 'vitest';
+import type { Request } from 'playwright';
+import { NetworkRecorder, summarizeNetwork, observedResponses, toHar, writeHar } from '../network-recorder.js';
+import { createFakePage } from './helpers.js';
+
+const ITEM_URL = 'https://jp.mercari.com/item/m10000001';
+const OLD_URL = 'https://jp.mercari.com/item/m10000001?ref=share';
+
+async function recordNavigation() {
+  const fake = createFakePage({ url: ITEM_URL });
+  const recorder = new NetworkRecorder(fake.page);
+
+  fake.emitResponse(301, OLD_URL, { location: ITEM_URL }, undefined, 'document');
+  fake.emitResponse(200, ITEM_URL, {
+    'content-length': '5000',
+    'cf-ray': '8a1b2c3d4e5f-NRT',
+    'set-cookie': 'session=abc; Path=/\n__cf_bm=xyz; HttpOnly',
+  });
+  fake.emitResponse(403, 'https://tracker.example.com/pixel.gif');
+  fake.emitFailure('https://static.mercdn.net/thumb.jpg', 'net::ERR_ABORTED');
+
+  return { fake, entries: await recorder.finish() };
+}
+
+describe('NetworkRecorder', () => {
+  it('records every request with status, sizes and timing', async () => {
+    const { entries } = await recordNavigation();
+
+    expect(entries.map((entry) => [entry.url, entry.status, entry.mainDocument])).toEqual([
+      [OLD_URL, 301, true],
+      [ITEM_URL, 200, true],
+      ['https://tracker.example.com/pixel.gif', 403, false],
+      ['https://static.mercdn.net/thumb.jpg', 0, false],
+    ]);
+    expect(entries[0].redirectUrl).toBe(ITEM_URL);
+    expect(entries[1]).toMatchObject({ bytes: 1100, durationMs: 120 });
+    expect(entries[3].failure).toBe('net::ERR_ABORTED');
+  });
+
+  it('stops listening once finished', async () => {
+    const { fake, entries } = await recordNavigation();
+
+    fake.emitResponse(200, 'https://static.mercdn.net/late.js');
+
+    expect(entries).toHaveLength(4);
+  });
+});
+
+describe('summarizeNetwork', () => {
+  it('separates the page status from subresource failures', async () => {
+    const { entries } = await recordNavigation();
+    const summary = summarizeNetwork(entries);
+
+    expect(summary).toMatchObject({
+      mainDocument: { url: ITEM_URL, status: 200, bytes: 1100 },
+      redirectChain: [{ url: OLD_URL, status: 301 }],
+      requestCount: 4,
+      totalBytes: 3300,
+      retryAfter: null,
+      cfRay: '8a1b2c3d4e5f-NRT',
+      setCookies: ['session', '__cf_bm'],
+    });
+    expect(summary.subresourceFailures.map((failure) => failure.url)).toEqual([
+      'https://tracker.example.com/pixel.gif',
+      'https://static.mercdn.net/thumb.jpg',
+    ]);
+    expect(observedResponses(entries)).toEqual([
+      { status: 403, url: 'https://tracker.example.com/pixel.gif', mainDocument: false },
+    ]);
+  });
+
+  it('takes Retry-After from the page itself, not from a third party', async () => {
+    const fake = createFakePage({ url: ITEM_URL });
+    const recorder = new NetworkRecorder(fake.page);
+
+    fake.emitResponse(200);
+    fake.emitResponse(429, 'https://www.google-analytics.com/collect', { 'retry-after': '600' });
+    const entries = await recorder.finish();
+
+    expect(summarizeNetwork(entries).retryAfter).toBeNull();
+    expect(entries[1].responseHeaders['retry-after']).toBe('600');
+  });
+
+  it('counts requests the resource guard blocked instead of reporting them as failures', async () => {
+    const fake = createFakePage({ url: ITEM_URL });
+    const guard = { reasonFor: (request: Request) => (request.url().endsWith('.woff2') ? ('budget' as const) : ('rule' as const)) };
+    const recorder = new NetworkRecorder(fake.page, guard);
+
+    fake.emitResponse(200);
+    fake.emitFailure('https://static.mercdn.net/thumb.jpg', 'net::ERR_BLOCKED_BY_CLIENT');
+    fake.emitFailure('https://www.google-analytics.com/analytics.js', 'net::ERR_BLOCKED_BY_CLIENT', 'script');
+    fake.emitFailure('https://static.mercdn.net/font.woff2', 'net::ERR_BLOCKED_BY_CLIENT', 'font');
+    const summary = summarizeNetwork(await recorder.finish());
+
+    expect(summary.subresourceFailures).toEqual([]);
+    expect(summary.blocked).toEqual({ requests: 3, byType: { image: 1, script: 1, font: 1 }, overBudget: 1 });
+  });
+});
+
+describe('toHar', () => {
+  it('writes a HAR 1.2 log without cookie values', async () => {
+    const { entries } = await recordNavigation();
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'har-')), 'har', 'req-1.har');
+
+    writeHar(file, entries);
+    const har = JSON.parse(fs.readFileSync(file, 'utf-8'));
+
+    expect(har).toEqual(JSON.parse(JSON.stringify(toHar(entries))));
+    expect(har.log.version).toBe('1.2');
+    expect(har.log.entries).toHaveLength(4);
+    expect(har.log.entries[0].response).toMatchObject({ status: 301, redirectURL: ITEM_URL });
+    expect(har.log.entries[1].request.queryString).toEqual([]);
+    expect(har.log.entries[1].response.headers).toContainEqual({ name: 'set-cookie', value: '[redacted]' });
+    expect(JSON.stringify(har)).not.toContain('session=abc');
+  });
+});
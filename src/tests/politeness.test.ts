@@ -0,0 +1,179 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Politeness, RobotsFetcher, matchingRule, parseRobotsTxt, pathMatches, selectGroup } from '../politeness.js';
+import { mergeConfig, DEFAULT_CONFIG, PolitenessConfig } from '../config.js';
+import type { RateClock } from '../rate-limiter.js';
+
+const ITEM_URL = 'https://jp.mercari.com/item/m10000001';
+const CHROME_UA = DEFAULT_CONFIG.fingerprint.userAgent;
+
+const ROBOTS_TXT = `
+# Everyone
+User-agent: *
+Disallow: /search
+Allow: /search/popular
+Disallow: /*.json$
+Crawl-delay: 2
+
+User-agent: BadBot
+User-agent: EvilBot
+Disallow: /
+
+Sitemap: https://jp.mercari.com/sitemap.xml
+`;
+
+function settings(politeness: Partial<PolitenessConfig> = {}) {
+  return mergeConfig(DEFAULT_CONFIG, { logging: { enabled: false }, politeness });
+}
+
+function fetcherFor(...answers: Array<{ status: number; body?: string } | Error>) {
+  return vi.fn<RobotsFetcher>(async () => {
+    const answer = answers.length > 1 ? answers.shift()! : answers[0];
+    if (answer instanceof Error) throw answer;
+    return { status: answer.status, body: answer.body ?? '' };
+  });
+}
+
+// Clock that only moves when sleep() is called
+function fakeClock(): RateClock & { slept: number[] } {
+  let now = 1_000_000;
+  const slept: number[] = [];
+  return {
+    slept,
+    now: () => now,
+    sleep: async (ms) => {
+      slept.push(ms);
+      now += ms;
+    },
+  };
+}
+
+describe('parseRobotsTxt', () => {
+  it('groups consecutive user agents with the rules below them', () => {
+    const groups = parseRobotsTxt(ROBOTS_TXT);
+
+    expect(groups).toEqual([
+      {
+        agents: ['*'],
+        rules: [
+          { allow: false, path: '/search' },
+          { allow: true, path: '/search/popular' },
+          { allow: false, path: '/*.json$' },
+        ],
+        crawlDelaySeconds: 2,
+      },
+      { agents: ['badbot', 'evilbot'], rules: [{ allow: false, path: '/' }], crawlDelaySeconds: null },
+    ]);
+  });
+
+  it('picks the group naming the configured user agent over "*"', () => {
+    const groups = parseRobotsTxt(ROBOTS_TXT);
+
+    expect(selectGroup(groups, 'Mozilla/5.0 (compatible; EvilBot/1.0)')?.rules).toEqual([{ allow: false, path: '/' }]);
+    expect(selectGroup(groups, CHROME_UA)?.crawlDelaySeconds).toBe(2);
+    expect(selectGroup(parseRobotsTxt('User-agent: BadBot\nDisallow: /'), CHROME_UA)).toBeNull();
+  });
+});
+
+describe('matchingRule', () => {
+  it('lets the longest path decide, with wildcards and end anchors', () => {
+    const [group] = parseRobotsTxt(ROBOTS_TXT);
+
+    expect(matchingRule(group, '/search?keyword=camera')?.allow).toBe(false);
+    expect(matchingRule(group, '/search/popular')?.allow).toBe(true);
+    expect(matchingRule(group, '/item/m1.json')?.allow).toBe(false);
+    expect(matchingRule(group, '/item/m1.json?x=1')).toBeNull();
+    expect(matchingRule(group, '/item/m10000001')).toBeNull();
+    expect(pathMatches('/item/*/photos', '/item/m1/photos/2')).toBe(true);
+  });
+});
+
+describe('Politeness.check', () => {
+  it('refuses what robots.txt disallows and reports its crawl delay', async () => {
+    const fetcher = fetcherFor({ status: 200, body: ROBOTS_TXT });
+    const politeness = new Politeness(fetcher);
+
+    expect(await politeness.check(ITEM_URL, settings())).toEqual({
+      allowed: true,
+      refusal: null,
+      overridden: false,
+      robots: 'parsed',
+      crawlDelayMs: 2000,
+    });
+    const refused = await politeness.check('https://jp.mercari.com/search?keyword=camera', settings());
+    expect(refused.allowed).toBe(false);
+    expect(refused.refusal).toBe('Disallowed by https://jp.mercari.com/robots.txt for "*" (Disallow: /search)');
+
+    expect(fetcher).toHaveBeenCalledOnce();
+    expect(fetcher).toHaveBeenCalledWith('https://jp.mercari.com/robots.txt', { userAgent: CHROME_UA, proxy: undefined });
+  });
+
+  it('visits a refused URL when the override is set', async () => {
+    const politeness = new Politeness(fetcherFor({ status: 200, body: ROBOTS_TXT }));
+
+    const decision = await politeness.check('https://jp.mercari.com/search', settings({ override: true }));
+
+    expect(decision).toMatchObject({ allowed: true, overridden: true, refusal: expect.stringContaining('Disallow: /search') });
+  });
+
+  it('allows everything without a robots.txt and nothing while it is unreachable', async () => {
+    const missing = new Politeness(fetcherFor({ status: 404 }));
+    expect(await missing.check(ITEM_URL, settings())).toMatchObject({ allowed: true, robots: 'missing' });
+
+    const clock = fakeClock();
+    const fetcher = fetcherFor(new Error('net::ERR_CONNECTION_RESET'), { status: 200, body: ROBOTS_TXT });
+    const unreachable = new Politeness(fetcher, clock);
+    expect(await unreachable.check(ITEM_URL, settings())).toMatchObject({ allowed: false, robots: 'unreachable' });
+
+    // Tried again after a few minutes rather than after robotsCacheMinutes
+    await clock.sleep(6 * 60 * 1000);
+    expect(await unreachable.check(ITEM_URL, settings())).toMatchObject({ allowed: true, robots: 'parsed' });
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps to allowPaths', async () => {
+    const politeness = new Politeness(fetcherFor({ status: 404 }));
+    const scoped = settings({ allowPaths: ['/item/', '/shops/product/'] });
+
+    expect((await politeness.check(ITEM_URL, scoped)).allowed).toBe(true);
+    expect(await politeness.check('https://jp.mercari.com/mypage', scoped)).toMatchObject({
+      allowed: false,
+      refusal: '/mypage is not in politeness.allowPaths',
+    });
+  });
+});
+
+describe('Politeness.acquire', () => {
+  it('spaces navigations to a host by the larger of the gap and the crawl delay', async () => {
+    const clock = fakeClock();
+    const politeness = new Politeness(fetcherFor({ status: 404 }), clock);
+    const config = settings({ minHostIntervalMs: 1000 }).politeness;
+
+    (await politeness.acquire(ITEM_URL, config)).release();
+    (await politeness.acquire(ITEM_URL, config, 3000)).release();
+    const third = await politeness.acquire(ITEM_URL, config);
+    const otherHost = await politeness.acquire('https://www.mercari.com/', config);
+
+    expect(clock.slept).toEqual([1000, 3000]);
+    expect(third.waitedMs).toBe(3000);
+    expect(otherHost.waitedMs).toBe(0);
+  });
+
+  it('holds navigations beyond maxConcurrentPerHost until one is released', async () => {
+    const politeness = new Politeness(fetcherFor({ status: 404 }), fakeClock());
+    const config = settings({ maxConcurrentPerHost: 1 }).politeness;
+
+    const first = await politeness.acquire(ITEM_URL, config);
+    let second = false;
+    const waiting = politeness.acquire(ITEM_URL, config).then((slot) => {
+      second = true;
+      return slot;
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(second).toBe(false);
+
+    first.release();
+    first.release();
+    (await waiting).release();
+    expect(second).toBe(true);
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import {
+  ProductStore,
+  JsonProductStore,
+  SqliteProductStore,
+  openProductStore,
+  diffProducts,
+} from '../product-store.js';
+import type { MercariProduct } from '../mercari-scraper.js';
+
+function product(overrides: Partial<MercariProduct> = {}): MercariProduct {
+  return {
+    url: 'https://jp.mercari.com/item/m123',
+    title: 'テスト商品',
+    price: 1000,
+    isSoldOut: false,
+    statusText: '販売中',
+    ...overrides,
+  };
+}
+
+function minutesAgo(minutes: number): Date {
+  return new Date(Date.now() - minutes * 60000);
+}
+
+describe('diffProducts', () => {
+  it('reports changed tracked fields', () => {
+    const changed = diffProducts(product(), product({ price: 900, isSoldOut: true, statusText: '売り切れ' }));
+    expect(changed).toEqual(['price', 'isSoldOut', 'statusText']);
+  });
+
+  it('treats missing and undefined optional fields as equal', () => {
+    expect(diffProducts(product(), product({ seller: undefined }))).toEqual([]);
+  });
+});
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'product-store-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+const backends: Array<[string, () => ProductStore]> = [
+  ['JsonProductStore', () => new JsonProductStore(path.join(tmpDir, 'products.json'))],
+  ['SqliteProductStore', () => new SqliteProductStore(new Database(':memory:'))],
+];
+
+describe.each(backends)('%s', (_name, createStore) => {
+  let store: ProductStore;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  it('keys observations by item ID in time order', async () => {
+    await store.save(product({ price: 1200 }), null, minutesAgo(10));
+    await store.save(product({ price: 1000 }), null, minutesAgo(20));
+    await store.save(product({ url: 'https://jp.mercari.com/item/m456' }), null, minutesAgo(5));
+
+    const history = await store.getHistory('m123');
+    expect(history.map((observation) => observation.product.price)).toEqual([1000, 1200]);
+    expect(await store.listItemIds()).toEqual(['m123', 'm456']);
+    expect((await store.getLatest('m123'))?.product.price).toBe(1200);
+    expect(await store.getLatest('m999')).toBeNull();
+  });
+
+  it('rejects products without an item ID', async () => {
+    await expect(store.save(product({ url: 'https://jp.mercari.com/search' }))).rejects.toThrow('Cannot derive item ID');
+  });
+
+  it('collapses unchanged prices in the price history', async () => {
+    const at = [40, 30, 20, 10].map(minutesAgo);
+    await store.save(product({ price: 1000 }), null, at[0]);
+    await store.save(product({ price: 1000 }), null, at[1]);
+    await store.save(product({ price: 800 }), null, at[2]);
+    await store.save(product({ price: 800 }), null, at[3]);
+
+    expect(await store.getPriceHistory('m123')).toEqual([
+      { observedAt: at[0].toISOString(), price: 1000 },
+      { observedAt: at[2].toISOString(), price: 800 },
+    ]);
+  });
+
+  it('reports when an item was first seen sold', async () => {
+    const at = [30, 20, 10].map(minutesAgo);
+    await store.save(product(), null, at[0]);
+    await store.save(product({ isSoldOut: true }), null, at[1]);
+    await store.save(product({ isSoldOut: true }), null, at[2]);
+
+    expect(await store.getSoldAt('m123')).toBe(at[1].toISOString());
+  });
+
+  it('returns null for items that are back on sale', async () => {
+    await store.save(product({ isSoldOut: true }), null, minutesAgo(20));
+    await store.save(product(), null, minutesAgo(10));
+
+    expect(await store.getSoldAt('m123')).toBeNull();
+  });
+
+  it('lists items that changed in the latest run', async () => {
+    await store.save(product(), null, minutesAgo(60));
+    await store.save(product({ url: 'https://jp.mercari.com/item/m456' }), null, minutesAgo(60));
+
+    const run = await store.startRun('test');
+    await store.save(product({ price: 900 }), run.runId);
+    await store.save(product({ url: 'https://jp.mercari.com/item/m456' }), run.runId);
+    await store.save(product({ url: 'https://jp.mercari.com/item/m789' }), run.runId);
+
+    const changes = await store.getChangesSinceLastRun();
+    expect(changes.map((change) => [change.itemId, change.changedFields])).toEqual([
+      ['m123', ['price']],
+      ['m789', ['title', 'price', 'isSoldOut', 'statusText', 'seller', 'description']],
+    ]);
+    expect(changes[0].previous?.product.price).toBe(1000);
+    expect(changes[1].previous).toBeNull();
+    expect((await store.listRuns()).map((r) => r.label)).toEqual(['test']);
+  });
+});
+
+describe('JsonProductStore persistence', () => {
+  it('reloads saved observations from disk', async () => {
+    const filePath = path.join(tmpDir, 'nested', 'products.json');
+    const first = new JsonProductStore(filePath);
+    await first.save(product());
+    await first.close();
+
+    const second = new JsonProductStore(filePath);
+    expect(await second.listItemIds()).toEqual(['m123']);
+  });
+
+  it('appends one line per run and observation', async () => {
+    const filePath = path.join(tmpDir, 'products.json');
+    const store = new JsonProductStore(filePath);
+    const run = await store.startRun('watch');
+    await store.save(product(), run.runId);
+    await store.save(product({ price: 900 }), run.runId);
+
+    const lines = fs.readFileSync(filePath, 'utf-8').trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).type)).toEqual(['run', 'observation', 'observation']);
+
+    // A crash in the middle of an append loses only that record
+    fs.appendFileSync(filePath, '{"type":"observation","observ');
+    const reopened = new JsonProductStore(filePath);
+    expect((await reopened.getHistory('m123')).map((observation) => observation.product.price)).toEqual([1000, 900]);
+    await reopened.save(product({ price: 800 }));
+    expect(await new JsonProductStore(filePath).getHistory('m123')).toHaveLength(3);
+  });
+
+  it('converts a store written as one JSON document', async () => {
+    const filePath = path.join(tmpDir, 'products.json');
+    const observation = { itemId: 'm123', observedAt: new Date().toISOString(), runId: null, product: product() };
+    fs.writeFileSync(filePath, JSON.stringify({ version: 1, runs: [], observations: [observation] }));
+
+    const store = new JsonProductStore(filePath);
+    await store.save(product({ price: 800 }));
+
+    expect((await store.getHistory('m123')).map((saved) => saved.product.price)).toEqual([1000, 800]);
+    expect(fs.readFileSync(filePath, 'utf-8').trim().split('\n')).toHaveLength(2);
+  });
+});
+
+describe('openProductStore', () => {
+  it('opens SQLite by default', async () => {
+    const store = await openProductStore({ enabled: true, type: 'sqlite' }, tmpDir);
+    expect(store.kind).toBe('sqlite');
+    await store.close();
+    expect(fs.existsSync(path.join(tmpDir, 'products.db'))).toBe(true);
+  });
+
+  it('opens the JSON store when configured', async () => {
+    const filePath = path.join(tmpDir, 'custom.json');
+    const store = await openProductStore({ enabled: true, type: 'json', path: filePath }, tmpDir);
+    await store.save(product());
+    await store.close();
+
+    expect(store.kind).toBe('json');
+    expect(fs.existsSync(filePath)).toBe(true);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { batchScrape } from '../batch.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { config } from '../config.js';
+import { JsonProductStore } from '../product-store.js';
+import { startMockMercariServer, MockMercariServer } from './mock-server.js';
+import { chromiumAvailable } from './helpers.js';
+
+describe.skipIf(!chromiumAvailable)('batchScrape', () => {
+  let server: MockMercariServer;
+  const saved = {
+    humanBehavior: config.humanBehavior.enabled,
+    logging: config.logging.enabled,
+    storage: config.storage.enabled,
+    rateLimit: { ...config.rateLimit },
+  };
+
+  beforeAll(async () => {
+    server = await startMockMercariServer({ retryAfterSeconds: 0 });
+    // batchScrape builds its scraper from the shared config
+    config.humanBehavior.enabled = false;
+    config.logging.enabled = false;
+    config.storage.enabled = false;
+    Object.assign(config.rateLimit, { backoffBaseMs: 0, cooldownMs: 0 });
+  });
+
+  afterAll(async () => {
+    config.humanBehavior.enabled = saved.humanBehavior;
+    config.logging.enabled = saved.logging;
+    config.storage.enabled = saved.storage;
+    Object.assign(config.rateLimit, saved.rateLimit);
+    await server?.close();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it('scrapes every URL in order', async () => {
+    const urls = ['m10000001', 'm10000002', 'm10000003'].map((id) => server.itemUrl(id));
+    const results = await batchScrape(urls, 100);
+
+    expect([...results.keys()]).toEqual(urls);
+    expect([...results.values()].every((result) => result.success)).toBe(true);
+  });
+
+  it('waits at least the interval between requests', async () => {
+    const urls = ['m10000001', 'm10000002'].map((id) => server.itemUrl(id));
+    await batchScrape(urls, 1000);
+
+    const itemRequests = server.requests.filter((request) => request.scenario !== null);
+    expect(itemRequests).toHaveLength(2);
+    expect(itemRequests[1].timestamp - itemRequests[0].timestamp).toBeGreaterThanOrEqual(1000);
+  });
+
+  it('backs off on 429 and keeps going', async () => {
+    server.enqueue('on-sale', 'http-429', 'on-sale');
+    const urls = ['m10000001', 'm10000002', 'm10000003'].map((id) => server.itemUrl(id));
+    const results = await batchScrape(urls, 100);
+
+    expect(results.size).toBe(3);
+    expect(results.get(urls[1])?.banSignals.httpError).toBe(429);
+    expect(results.get(urls[2])?.success).toBe(true);
+  });
+
+  it('stops after repeated blocks', async () => {
+    server.setScenario('http-503');
+    const urls = ['m10000001', 'm10000002', 'm10000003', 'm10000004'].map((id) => server.itemUrl(id));
+    const results = await batchScrape(urls, 100);
+
+    expect(results.size).toBe(config.rateLimit.stopAfterConsecutiveBlocks);
+  });
+
+  it('stops at the first CAPTCHA', async () => {
+    server.enqueue('on-sale', 'captcha');
+    const urls = ['m10000001', 'm10000002', 'm10000003'].map((id) => server.itemUrl(id));
+    const results = await batchScrape(urls, 100);
+
+    expect(results.size).toBe(2);
+    expect(results.get(urls[1])?.banSignals.captchaDetected).toBe(true);
+    expect(results.has(urls[2])).toBe(false);
+  });
+
+  it('writes successful results through the given store', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'batch-store-'));
+    const store = new JsonProductStore(path.join(tmpDir, 'products.json'));
+    server.enqueue('on-sale', 'captcha');
+
+    try {
+      const urls = ['m10000001', 'm10000002'].map((id) => server.itemUrl(id));
+      await batchScrape(urls, 100, { store, runLabel: 'test' });
+
+      expect(await store.listItemIds()).toEqual(['m10000001']);
+      expect((await store.listRuns()).map((run) => run.label)).toEqual(['test']);
+    } finally {
+      await store.close();
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+}, 120000);
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { RateLimiter, RateClock, parseRetryAfter } from '../rate-limiter.js';
+import type { RateLimitConfig } from '../config.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function testConfig(overrides: Partial<RateLimitConfig> = {}): RateLimitConfig {
+  return {
+    minIntervalMs: 1000,
+    maxPerHour: 0,
+    maxPerDay: 0,
+    backoffBaseMs: 10000,
+    backoffMaxMs: 120000,
+    backoffMultiplier: 2,
+    cooldownMs: 5000,
+    relaxAfter: 3,
+    relaxFactor: 0.5,
+    stopAfterConsecutiveBlocks: 3,
+    ...overrides,
+  };
+}
+
+// Sleeping advances the fake time instantly and records each wait
+function fakeClock(start: number = 1_700_000_000_000): RateClock & { time: number; sleeps: number[] } {
+  const clock = {
+    time: start,
+    sleeps: [] as number[],
+    now: () => clock.time,
+    sleep: async (ms: number) => {
+      clock.sleeps.push(ms);
+      clock.time += ms;
+    },
+  };
+  return clock;
+}
+
+const healthy = { statusCode: null, retryAfterMs: null, banned: false };
+
+describe('parseRetryAfter', () => {
+  it('parses delta-seconds', () => {
+    expect(parseRetryAfter('120')).toBe(120000);
+    expect(parseRetryAfter(' 0 ')).toBe(0);
+  });
+
+  it('parses an HTTP date relative to now', () => {
+    const now = Date.parse('Mon, 15 Jan 2024 10:00:00 GMT');
+    expect(parseRetryAfter('Mon, 15 Jan 2024 10:01:30 GMT', now)).toBe(90000);
+    expect(parseRetryAfter('Mon, 15 Jan 2024 09:00:00 GMT', now)).toBe(0);
+  });
+
+  it('ignores missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('RateLimiter', () => {
+  it('does not wait for the first request', async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter(testConfig(), clock);
+
+    const decision = await limiter.acquire();
+
+    expect(decision).toMatchObject({ waitedMs: 0, reason: 'none', requestsLastHour: 1, requestsLastDay: 1 });
+    expect(clock.sleeps).toEqual([]);
+  });
+
+  it('enforces the minimum interval between request starts', async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter(testConfig(), clock);
+
+    await limiter.acquire();
+    clock.time += 300;
+    const decision = await limiter.acquire();
+
+    expect(decision).toMatchObject({ waitedMs: 700, reason: 'interval' });
+  });
+
+  it('spaces out concurrent callers sharing the limiter', async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter(testConfig(), clock);
+
+    const decisions = await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+
+    expect(decisions.map((decision) => decision.waitedMs)).toEqual([0, 1000, 1000]);
+    expect(clock.sleeps).toEqual([1000, 1000]);
+  });
+
+  it('enforces the hourly budget over a sliding window', async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter(testConfig({ minIntervalMs: 0, maxPerHour: 2 }), clock);
+
+    await limiter.acquire();
+    clock.time += 1000;
+    await limiter.acquire();
+    const decision = await limiter.acquire();
+
+    expect(decision.reason).toBe('hourly_budget');
+    expect(decision.waitedMs).toBe(HOUR_MS - 1000);
+    expect(decision.requestsLastHour).toBe(2);
+  });
+
+  it('enforces the daily budget', async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter(testConfig({ minIntervalMs: 0, maxPerDay: 1 }), clock);
+
+    await limiter.acquire();
+    const decision = await limiter.acquire();
+
+    expect(decision.reason).toBe('daily_budget');
+    expect(decision.waitedMs).toBe(24 * HOUR_MS);
+  });
+
+  it('backs off exponentially on 429/503 and cools down before resuming', async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter(testConfig(), clock);
+
+    await limiter.acquire();
+    const first = limiter.record({ statusCode: 429, retryAfterMs: null, banned: true });
+    expect(first).toMatchObject({ action: 'backoff', backoffMs: 10000, currentIntervalMs: 2000, consecutiveBlocks: 1 });
+
+    const resumed = await limiter.acquire();
+    expect(resumed).toMatchObject({ reason: 'backoff', waitedMs: 15000 });
+
+    const second = limiter.record({ statusCode: 503, retryAfterMs: null, banned: true });
+    expect(second).toMatchObject({ backoffMs: 20000, currentIntervalMs: 4000, consecutiveBlocks: 2 });
+    expect(limiter.blockStreak).toBe(2);
+  });
+
+  it('honours a longer Retry-After', async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter(testConfig(), clock);
+
+    await limiter.acquire();
+    const adjustment = limiter.record({ statusCode: 200, retryAfterMs: 90000, banned: false });
+    const decision = await limiter.acquire();
+
+    expect(adjustment.backoffMs).toBe(90000);
+    expect(decision.waitedMs).toBe(95000);
+  });
+
+  it('caps the backoff', () => {
+    const limiter = new RateLimiter(testConfig({ backoffMaxMs: 15000 }), fakeClock());
+
+    limiter.record({ statusCode: 429, retryAfterMs: null, banned: true });
+    const adjustment = limiter.record({ statusCode: 429, retryAfterMs: 600000, banned: true });
+
+    expect(adjustment.backoffMs).toBe(15000);
+    expect(adjustment.currentIntervalMs).toBeLessThanOrEqual(15000);
+  });
+
+  it('relaxes slowly after a healthy streak, never below the minimum', () => {
+    const limiter = new RateLimiter(testConfig(), fakeClock());
+    limiter.record({ statusCode: 429, retryAfterMs: null, banned: true });
+    limiter.record({ statusCode: 429, retryAfterMs: null, banned: true });
+    expect(limiter.intervalMs).toBe(4000);
+
+    const actions = Array.from({ length: 9 }, () => limiter.record(healthy).action);
+
+    expect(actions).toEqual(['none', 'none', 'relax', 'none', 'none', 'relax', 'none', 'none', 'none']);
+    expect(limiter.intervalMs).toBe(1000);
+    expect(limiter.blockStreak).toBe(0);
+  });
+
+  it('treats navigation failures as neither healthy nor blocked', () => {
+    const limiter = new RateLimiter(testConfig(), fakeClock());
+    limiter.record({ statusCode: 429, retryAfterMs: null, banned: true });
+
+    const adjustment = limiter.record({ ...healthy, failed: true });
+
+    expect(adjustment.action).toBe('none');
+    expect(limiter.blockStreak).toBe(1);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Page, Request, Route } from 'playwright';
+import { ResourceGuard, ruleMatches, shouldBlock } from '../resource-guard.js';
+import type { ResourceRule } from '../config.js';
+
+const ITEM_URL = 'https://jp.mercari.com/item/m10000001';
+
+// Page that hands the guard's route handler to the test and fires requestfinished on demand
+function routedPage() {
+  const mainFrame = {};
+  let handler: ((route: Route, request: Request) => Promise<void>) | null = null;
+  const finished: Array<(request: Request) => void> = [];
+  const page = {
+    mainFrame: () => mainFrame,
+    route: vi.fn(async (_url: string, registered: typeof handler) => {
+      handler = registered;
+    }),
+    unroute: vi.fn(async () => {
+      handler = null;
+    }),
+    on: (_event: string, listener: (request: Request) => void) => finished.push(listener),
+    off: (_event: string, listener: (request: Request) => void) => finished.splice(finished.indexOf(listener), 1),
+  };
+
+  // Routes one request and reports what the guard did with it
+  const request = async (url: string, resourceType: string, bodySize = 1000) => {
+    const req = {
+      url: () => url,
+      resourceType: () => resourceType,
+      isNavigationRequest: () => resourceType === 'document',
+      frame: () => mainFrame,
+      sizes: async () => ({ responseHeadersSize: 0, responseBodySize: bodySize }),
+    } as unknown as Request;
+    let outcome = 'pending';
+    const route = {
+      fallback: async () => void (outcome = 'loaded'),
+      abort: async () => void (outcome = 'aborted'),
+    } as unknown as Route;
+    await handler?.(route, req);
+    if (outcome === 'loaded') {
+      for (const listener of [...finished]) listener(req);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    return { outcome, request: req };
+  };
+
+  return { page: page as unknown as Page, request, handlers: () => ({ handler, finished: finished.length }) };
+}
+
+describe('ruleMatches', () => {
+  it('requires every criterion a rule sets', () => {
+    const rule: ResourceRule = { action: 'block', resourceTypes: ['script'], domains: ['google-analytics.com'] };
+
+    expect(ruleMatches(rule, { url: 'https://www.google-analytics.com/analytics.js', resourceType: 'script' })).toBe(true);
+    expect(ruleMatches(rule, { url: 'https://www.google-analytics.com/collect', resourceType: 'xhr' })).toBe(false);
+    expect(ruleMatches(rule, { url: 'https://static.mercdn.net/app.js', resourceType: 'script' })).toBe(false);
+    expect(ruleMatches({ action: 'block', urlPatterns: ['/ads/'] }, { url: 'https://cdn.example.com/ads/banner.js', resourceType: 'script' })).toBe(
+      true
+    );
+  });
+});
+
+describe('shouldBlock', () => {
+  it('lets the first matching rule decide', () => {
+    const rules: ResourceRule[] = [
+      { action: 'allow', domains: ['static.mercdn.net'], urlPatterns: ['/item/'] },
+      { action: 'block', resourceTypes: ['image', 'font'] },
+    ];
+
+    expect(shouldBlock(rules, { url: 'https://static.mercdn.net/item/detail/orig/photos/m1_1.jpg', resourceType: 'image' })).toBe(false);
+    expect(shouldBlock(rules, { url: 'https://static.mercdn.net/thumb/banner.jpg', resourceType: 'image' })).toBe(true);
+    expect(shouldBlock(rules, { url: 'https://static.mercdn.net/app.js', resourceType: 'script' })).toBe(false);
+  });
+});
+
+describe('ResourceGuard', () => {
+  it('aborts blocked requests but always loads the page itself', async () => {
+    const fake = routedPage();
+    const guard = await ResourceGuard.attach(fake.page, { rules: [{ action: 'block', resourceTypes: ['image', 'document'] }], maxBytesPerNavigation: 0 });
+
+    expect((await fake.request(ITEM_URL, 'document')).outcome).toBe('loaded');
+    const image = await fake.request('https://static.mercdn.net/thumb.jpg', 'image');
+    expect(image.outcome).toBe('aborted');
+    expect(guard.reasonFor(image.request)).toBe('rule');
+    expect((await fake.request('https://static.mercdn.net/app.js', 'script')).outcome).toBe('loaded');
+  });
+
+  it('blocks subresources once the navigation used up its byte budget', async () => {
+    const fake = routedPage();
+    const guard = await ResourceGuard.attach(fake.page, { rules: [], maxBytesPerNavigation: 1500 });
+
+    expect((await fake.request(ITEM_URL, 'document')).outcome).toBe('loaded');
+    expect((await fake.request('https://static.mercdn.net/app.js', 'script')).outcome).toBe('loaded');
+    const late = await fake.request('https://static.mercdn.net/thumb.jpg', 'image');
+    expect(late.outcome).toBe('aborted');
+    expect(guard.reasonFor(late.request)).toBe('budget');
+
+    guard.reset();
+    expect((await fake.request('https://static.mercdn.net/thumb.jpg', 'image')).outcome).toBe('loaded');
+  });
+
+  it('stops routing and counting', async () => {
+    const fake = routedPage();
+    const guard = await ResourceGuard.attach(fake.page, { rules: [], maxBytesPerNavigation: 1 });
+
+    guard.stop();
+
+    expect(fake.handlers()).toEqual({ handler: null, finished: 0 });
+  });
+});
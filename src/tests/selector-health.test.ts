@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SelectorHealthTracker,
+  evaluateSelectorGroup,
+  probeSelectors,
+  driftedProbes,
+  renderSelectorTable,
+} from '../selector-health.js';
+import { MERCARI_SELECTORS } from '../mercari-scraper.js';
+import { createFakePage } from './helpers.js';
+
+const ITEM_URL = 'https://jp.mercari.com/item/m10000001';
+
+describe('evaluateSelectorGroup', () => {
+  it('waits for enough matched lookups', () => {
+    expect(evaluateSelectorGroup('title', [0, 4], 10).alert).toBeNull();
+  });
+
+  it('flags a primary selector that stopped matching', () => {
+    expect(evaluateSelectorGroup('title', [0, 0, 0, 5], 0)).toMatchObject({ alert: 'primary_missing', primaryShare: 0 });
+  });
+
+  it('flags a fallback that answers most lookups', () => {
+    expect(evaluateSelectorGroup('price', [2, 6, 0], 0)).toMatchObject({ alert: 'fallback_dominant', primaryShare: 0.25 });
+    expect(evaluateSelectorGroup('price', [5, 3, 0], 0).alert).toBeNull();
+  });
+
+  it('does not count misses as drift', () => {
+    expect(evaluateSelectorGroup('brand', [0, 0], 20)).toMatchObject({ alert: null, lookups: 20, primaryShare: null });
+  });
+});
+
+describe('SelectorHealthTracker', () => {
+  it('tracks matches per group and per request', () => {
+    const tracker = new SelectorHealthTracker({ minSamples: 2 });
+
+    tracker.record('title', 4, 0);
+    tracker.record('brand', 3, null);
+    expect(tracker.takeRequestMatches()).toEqual({ title: 0, brand: null });
+    expect(tracker.takeRequestMatches()).toEqual({});
+
+    tracker.record('title', 4, 3);
+    tracker.record('title', 4, 3);
+    expect(tracker.report()).toEqual([
+      { group: 'title', lookups: 3, misses: 0, matches: [1, 0, 0, 2], primaryShare: 1 / 3, alert: 'fallback_dominant' },
+      { group: 'brand', lookups: 1, misses: 1, matches: [0, 0, 0], primaryShare: null, alert: null },
+    ]);
+  });
+});
+
+describe('probeSelectors', () => {
+  it('reports the entry extraction would use and flags fallbacks', async () => {
+    const { page } = createFakePage({
+      url: ITEM_URL,
+      selectors: ['h1', '[data-testid="price"]', '[class*="ItemPrice"]'],
+    });
+
+    const probes = await probeSelectors(page, {
+      title: MERCARI_SELECTORS.title,
+      price: MERCARI_SELECTORS.price,
+      brand: MERCARI_SELECTORS.brand,
+    });
+
+    expect(probes.map((probe) => [probe.group, probe.matchedIndex])).toEqual([
+      ['title', 3],
+      ['price', 0],
+      ['brand', null],
+    ]);
+    expect(driftedProbes(probes).map((probe) => probe.group)).toEqual(['title']);
+
+    const table = renderSelectorTable(probes);
+    expect(table).toContain('| title | 0 | `[data-testid="item-name"]` | 0 |  |');
+    expect(table).toContain('|  | 3 | `h1` | 1 | used (fallback) |');
+    expect(table).toContain('| price | 0 | `[data-testid="price"]` | 1 | used |');
+    expect(table).toContain('DRIFT title: primary selector matched nothing, fell back to #3');
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SessionStore, StorageState, cookieAgeMinutes, isSessionExpired, sessionStoreFor } from '../session-store.js';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 15, 0, 0, 0);
+
+function cookie(name: string, expires: number = -1): StorageState['cookies'][number] {
+  return { name, value: 'x', domain: '.mercari.com', path: '/', expires, httpOnly: false, secure: true, sameSite: 'Lax' };
+}
+
+function state(...cookies: StorageState['cookies']): StorageState {
+  return { cookies, origins: [{ origin: 'https://jp.mercari.com', localStorage: [{ name: 'consent', value: '1' }] }] };
+}
+
+let tmpDir: string;
+let store: SessionStore;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-store-'));
+  store = sessionStoreFor(tmpDir);
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('SessionStore', () => {
+  it('saves the storage state under <outputDir>/sessions and accumulates usage', () => {
+    store.save('warm', state(cookie('consent')), { sessionId: 'sess-1', startedAt: START, requests: 3 }, START + HOUR);
+    const info = store.save('warm', state(cookie('consent')), { sessionId: 'sess-2', startedAt: START + 2 * HOUR, requests: 2 }, START + 3 * HOUR);
+
+    expect(fs.existsSync(path.join(tmpDir, 'sessions', 'warm.json'))).toBe(true);
+    expect(info).toMatchObject({
+      name: 'warm',
+      sessionId: 'sess-1',
+      createdAt: new Date(START).toISOString(),
+      lastUsedAt: new Date(START + 3 * HOUR).toISOString(),
+      requestCount: 5,
+    });
+    expect(store.load('warm')?.state.origins[0].localStorage).toEqual([{ name: 'consent', value: '1' }]);
+    expect(store.load('cold')).toBeNull();
+  });
+
+  it('ages each cookie from when it was first saved', () => {
+    store.save('warm', state(cookie('consent')), { sessionId: 's', startedAt: START, requests: 1 }, START);
+    store.save('warm', state(cookie('consent'), cookie('tracking')), { sessionId: 's', startedAt: START, requests: 1 }, START + HOUR);
+
+    const session = store.load('warm')!;
+    expect(cookieAgeMinutes(session, START + 2 * HOUR)).toBe(120);
+
+    // Without the oldest cookie the session is as old as the newer one
+    store.save('warm', state(cookie('tracking')), { sessionId: 's', startedAt: START, requests: 1 }, START + 2 * HOUR);
+    expect(cookieAgeMinutes(store.load('warm')!, START + 2 * HOUR)).toBe(60);
+  });
+
+  it('ignores expired cookies and reports no age without cookies', () => {
+    const expiresAt = (START + HOUR) / 1000;
+    store.save('warm', state(cookie('short', expiresAt)), { sessionId: 's', startedAt: START, requests: 1 }, START);
+
+    expect(cookieAgeMinutes(store.load('warm')!, START + 30 * 60 * 1000)).toBe(30);
+    expect(cookieAgeMinutes(store.load('warm')!, START + 2 * HOUR)).toBeNull();
+  });
+
+  it('lists the most recently used first and deletes by name', () => {
+    store.save('old', state(), { sessionId: 's1', startedAt: START, requests: 1 }, START);
+    store.save('new', state(), { sessionId: 's2', startedAt: START, requests: 1 }, START + HOUR);
+
+    expect(store.list().map((session) => session.info.name)).toEqual(['new', 'old']);
+    expect(store.delete('old')).toBe(true);
+    expect(store.delete('old')).toBe(false);
+    expect(store.list().map((session) => session.info.name)).toEqual(['new']);
+  });
+
+  it('expires sessions by creation time', () => {
+    const day = 24 * HOUR;
+    store.save('month', state(), { sessionId: 's1', startedAt: START, requests: 1 }, START + 40 * day);
+    store.save('week', state(), { sessionId: 's2', startedAt: START + 33 * day, requests: 1 }, START + 40 * day);
+
+    expect(isSessionExpired(store.load('month')!.info, 30, START + 40 * day)).toBe(true);
+    expect(isSessionExpired(store.load('month')!.info, 0, START + 40 * day)).toBe(false);
+    expect(store.expire(30, START + 40 * day)).toEqual(['month']);
+    expect(store.list().map((session) => session.info.name)).toEqual(['week']);
+  });
+
+  it('rejects names that are not plain file names', () => {
+    expect(() => store.load('../products')).toThrow('Invalid session name "../products"');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { SiteAdapter, SiteAdapterRegistry, siteAdapters, siteConfig, adapterMatches } from '../site-adapter.js';
+import { mercariAdapter } from '../mercari-adapter.js';
+import { MercariScraper } from '../mercari-scraper.js';
+import { resolveBanRules } from '../ban-rules.js';
+import { mergeConfig, DEFAULT_CONFIG } from '../config.js';
+import { resultColumns } from '../exporter.js';
+import { scrapeStream } from '../batch.js';
+import type { PoolResult } from '../worker-pool.js';
+
+interface Listing {
+  title: string;
+}
+
+const rakuma: SiteAdapter<Listing> = {
+  id: 'rakuma',
+  name: 'ラクマ',
+  hosts: ['fril.jp'],
+  matchUrl: (url) => url.pathname.length > 1,
+  config: { rateLimit: { minIntervalMs: 8000 } },
+  banRules: [{ id: 'rakuma-maintenance', severity: 'warn', type: 'text', patterns: ['メンテナンス中'] }],
+  createScraper: () => {
+    throw new Error('not used');
+  },
+  describe: (listing) => [`Title: ${listing.title}`],
+  columns: [{ header: 'title', value: ({ result }) => result.data?.title }, ...resultColumns<Listing>()],
+};
+
+function registry(): SiteAdapterRegistry {
+  const adapters = new SiteAdapterRegistry();
+  adapters.register(mercariAdapter);
+  adapters.register(rakuma);
+  return adapters;
+}
+
+describe('adapterMatches', () => {
+  it('matches the adapter hosts and their subdomains, narrowed by matchUrl', () => {
+    expect(adapterMatches(rakuma, 'https://item.fril.jp/abc')).toBe(true);
+    expect(adapterMatches(rakuma, 'https://fril.jp/')).toBe(false);
+    expect(adapterMatches(rakuma, 'https://notfril.jp/abc')).toBe(false);
+    expect(adapterMatches(rakuma, 'fixtures/item.html')).toBe(false);
+  });
+});
+
+describe('SiteAdapterRegistry', () => {
+  it('picks the adapter from the URLs and falls back to the first one', () => {
+    const adapters = registry();
+
+    expect(adapters.resolve(['https://item.fril.jp/abc', 'https://fril.jp/def']).id).toBe('rakuma');
+    expect(adapters.resolve(['https://jp.mercari.com/item/m1']).id).toBe('mercari');
+    expect(adapters.resolve(['http://127.0.0.1:3000/item/m1']).id).toBe('mercari');
+    expect(adapters.resolve([]).id).toBe('mercari');
+    expect(adapters.forUrl('http://127.0.0.1:3000/item/m1')).toBeNull();
+  });
+
+  it('refuses a batch spanning several sites', () => {
+    expect(() => registry().resolve(['https://jp.mercari.com/item/m1', 'https://fril.jp/abc'])).toThrow(
+      'URLs belong to different sites (mercari, rakuma)'
+    );
+  });
+
+  it('looks adapters up by id', () => {
+    const adapters = registry();
+    expect(adapters.get('rakuma').name).toBe('ラクマ');
+    expect(() => adapters.get('yahoo')).toThrow('Unknown site "yahoo" (expected mercari, rakuma)');
+    expect(adapters.unregister('rakuma')).toBe(true);
+    expect(adapters.list().map((adapter) => adapter.id)).toEqual(['mercari']);
+  });
+
+  it('types batch results by the adapter passed in, and as unknown otherwise', () => {
+    const urls = ['https://item.fril.jp/abc'];
+
+    expectTypeOf(scrapeStream(urls, 0, { adapter: rakuma })).toEqualTypeOf<AsyncGenerator<PoolResult<Listing>>>();
+    expectTypeOf(scrapeStream(urls)).toEqualTypeOf<AsyncGenerator<PoolResult<unknown>>>();
+  });
+
+  it('ships the Mercari adapter', () => {
+    expect(siteAdapters.resolve(['https://jp.mercari.com/item/m1'])).toBe(mercariAdapter);
+    expect(mercariAdapter.createScraper({ logging: { enabled: false } })).toBeInstanceOf(MercariScraper);
+    expect(mercariAdapter.describe({ url: 'u', title: 'Switch', price: 1200, isSoldOut: false, statusText: '販売中' })).toEqual([
+      'Title: Switch',
+      'Price: ¥1,200',
+      'Status: 販売中 (confidence 0)',
+    ]);
+  });
+});
+
+describe('siteConfig', () => {
+  it('files the adapter ban rules under its hosts', () => {
+    const settings = mergeConfig(DEFAULT_CONFIG, siteConfig(rakuma));
+
+    expect(settings.rateLimit.minIntervalMs).toBe(8000);
+    expect(resolveBanRules(settings.banRules, 'https://item.fril.jp/abc').map((rule) => rule.id)).toContain('rakuma-maintenance');
+    expect(resolveBanRules(settings.banRules, 'https://jp.mercari.com/item/m1').map((rule) => rule.id)).not.toContain(
+      'rakuma-maintenance'
+    );
+  });
+});
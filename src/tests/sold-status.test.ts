@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { assessSoldStatus, statusEvidence, supportingEvidence, isSoldStatus, SOLD_STATUS_TEXT } from '../sold-status.js';
+
+describe('assessSoldStatus', () => {
+  it('is unknown without evidence', () => {
+    expect(assessSoldStatus([])).toEqual({ status: 'unknown', confidence: 0, evidence: [] });
+    expect(SOLD_STATUS_TEXT.unknown).toBe('不明');
+  });
+
+  it('scores a lone weak signal low', () => {
+    const assessment = assessSoldStatus([statusEvidence('dom', 'sold_text', 'sold_out', 'SOLD')]);
+
+    expect(assessment).toMatchObject({ status: 'sold_out', confidence: 0.4 });
+  });
+
+  it('is certain when strong signals agree', () => {
+    const assessment = assessSoldStatus([
+      statusEvidence('dom', 'disabled_purchase_button', 'sold_out'),
+      statusEvidence('dom', 'sold_badge', 'sold_out'),
+    ]);
+
+    expect(assessment).toMatchObject({ status: 'sold_out', confidence: 1 });
+  });
+
+  it('lets the API tell trading from sold_out while DOM signals agree that it was bought', () => {
+    const assessment = assessSoldStatus([
+      statusEvidence('api', 'api_status', 'trading'),
+      statusEvidence('json-ld', 'json_ld_availability', 'sold_out'),
+      statusEvidence('dom', 'disabled_purchase_button', 'sold_out'),
+    ]);
+
+    expect(assessment).toMatchObject({ status: 'trading', confidence: 1 });
+    expect(isSoldStatus(assessment.status)).toBe(true);
+    expect(supportingEvidence(assessment).map((evidence) => evidence.source)).toEqual(['api', 'dom', 'json-ld']);
+  });
+
+  it('lowers confidence when signals conflict', () => {
+    const assessment = assessSoldStatus([
+      statusEvidence('dom', 'purchase_button', 'on_sale'),
+      statusEvidence('dom', 'sold_text', 'sold_out'),
+    ]);
+
+    expect(assessment).toMatchObject({ status: 'on_sale', confidence: 0.45 });
+  });
+
+  it('treats a 404 with a deleted notice as deleted, not sold', () => {
+    const assessment = assessSoldStatus([
+      statusEvidence('http', 'not_found_status', 'deleted', '404'),
+      statusEvidence('dom', 'deleted_text', 'deleted', 'この商品は削除されました'),
+    ]);
+
+    expect(assessment).toMatchObject({ status: 'deleted', confidence: 1 });
+    expect(isSoldStatus(assessment.status)).toBe(false);
+  });
+});
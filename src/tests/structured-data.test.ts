@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { extractJsonLd, extractNextData, findInState, hasJsonLdType, captureJsonResponses } from '../structured-data.js';
+import {
+  structuredFields,
+  fieldsFromJsonLd,
+  fieldsFromMercariItem,
+  parsePrice,
+  MERCARI_ITEM_API_PATTERN,
+} from '../mercari-scraper.js';
+import { loadFixture } from './mock-server.js';
+import { createFakePage } from './helpers.js';
+
+const ITEM_URL = 'https://jp.mercari.com/item/m10000001';
+const API_URL = 'https://api.mercari.jp/items/get?id=m10000001';
+
+const apiItem = {
+  id: 'm10000001',
+  name: 'ニンテンドースイッチ 本体 有機ELモデル',
+  price: 32800,
+  status: 'sold_out',
+  description: '動作確認済みです。',
+  seller: { id: 123456789, name: 'テスト出品者' },
+  photos: ['https://static.mercdn.net/item/detail/orig/photos/m10000001_1.jpg'],
+  item_condition: { id: 2, name: '未使用に近い' },
+  shipping_payer: { id: 2, name: '送料込み(出品者負担)' },
+  shipping_method: { id: 14, name: 'らくらくメルカリ便' },
+  shipping_from_area: { id: 13, name: '東京都' },
+  shipping_duration: { id: 2, name: '2~3日で発送' },
+  item_category: { name: 'テレビゲーム', parent_category_name: 'ゲーム', root_category_name: 'おもちゃ・ホビー・グッズ' },
+  item_brand: { id: 1, name: 'ニンテンドー' },
+  item_size: null,
+  num_likes: 12,
+  num_comments: 3,
+  created: 1736467200,
+  updated: 1736899200,
+};
+
+describe('extractJsonLd', () => {
+  it('flattens @graph nodes and skips malformed blocks', () => {
+    const nodes = extractJsonLd(loadFixture('item-structured.html'));
+
+    expect(nodes.map((node) => node['@type'])).toEqual([undefined, 'BreadcrumbList', 'Product']);
+    expect(hasJsonLdType(nodes[2], 'Product')).toBe(true);
+    expect(hasJsonLdType({ '@type': ['Product', 'Thing'] }, 'Product')).toBe(true);
+  });
+});
+
+describe('extractNextData / findInState', () => {
+  it('finds the object the predicate accepts', () => {
+    const state = extractNextData(loadFixture('item-structured.html'));
+    const item = findInState(state, (value) => value.id === 'm10000001');
+
+    expect(item?.name).toBe('ニンテンドースイッチ 本体 有機ELモデル');
+    expect(extractNextData('<html></html>')).toBeUndefined();
+  });
+});
+
+describe('field mappers', () => {
+  it('maps the item API shape', () => {
+    expect(fieldsFromMercariItem(apiItem)).toEqual({
+      title: 'ニンテンドースイッチ 本体 有機ELモデル',
+      price: 32800,
+      soldStatus: 'sold_out',
+      seller: 'テスト出品者',
+      description: '動作確認済みです。',
+      imageUrls: ['https://static.mercdn.net/item/detail/orig/photos/m10000001_1.jpg'],
+      condition: '未使用に近い',
+      shippingPayer: '送料込み(出品者負担)',
+      shippingMethod: 'らくらくメルカリ便',
+      shippingFrom: '東京都',
+      daysToShip: '2~3日で発送',
+      categories: ['おもちゃ・ホビー・グッズ', 'ゲーム', 'テレビゲーム'],
+      brand: 'ニンテンドー',
+      likeCount: 12,
+      commentCount: 3,
+      listedAt: '2025-01-10T00:00:00.000Z',
+      updatedAt: '2025-01-15T00:00:00.000Z',
+    });
+  });
+
+  it('maps suspended items to deleted and leaves unknown statuses unset', () => {
+    expect(fieldsFromMercariItem({ ...apiItem, status: 'stop' }).soldStatus).toBe('deleted');
+    expect(fieldsFromMercariItem({ ...apiItem, status: 'wait_payment' }).soldStatus).toBeUndefined();
+  });
+
+  it('maps a JSON-LD Product', () => {
+    expect(
+      fieldsFromJsonLd({
+        '@type': 'Product',
+        name: 'ポケモンカード',
+        image: 'https://static.mercdn.net/item/1.jpg',
+        category: 'おもちゃ・ホビー・グッズ > トレーディングカード',
+        offers: [{ price: 12500, availability: 'https://schema.org/OutOfStock', seller: { name: 'カード屋さん' } }],
+      })
+    ).toEqual({
+      title: 'ポケモンカード',
+      price: 12500,
+      soldStatus: 'sold_out',
+      seller: 'カード屋さん',
+      imageUrls: ['https://static.mercdn.net/item/1.jpg'],
+      categories: ['おもちゃ・ホビー・グッズ', 'トレーディングカード'],
+    });
+  });
+});
+
+describe('structuredFields', () => {
+  it('orders sources by trust and ignores other items in page state', () => {
+    const html = loadFixture('item-structured.html');
+    const found = structuredFields(html, [{ result: 'OK', data: apiItem }], 'm10000001');
+
+    expect(found.map(([source]) => source)).toEqual(['api', 'next-data', 'json-ld']);
+    expect(found[1][1]).toMatchObject({ soldStatus: 'trading', condition: '未使用に近い', likeCount: 12 });
+    expect(found[2][1]).toMatchObject({ soldStatus: 'on_sale', brand: 'ニンテンドー', price: 32800 });
+  });
+
+  it('ignores API bodies for other items', () => {
+    const found = structuredFields('<html></html>', [{ data: { ...apiItem, id: 'm99999999' } }], 'm10000001');
+
+    expect(found).toEqual([]);
+  });
+});
+
+describe('captureJsonResponses', () => {
+  it('collects matching JSON bodies until stopped', async () => {
+    const { page, emitResponse } = createFakePage({ url: ITEM_URL });
+    const capture = captureJsonResponses(page, MERCARI_ITEM_API_PATTERN);
+
+    emitResponse(200, 'https://static.mercdn.net/item/1.jpg', {}, { ignored: true });
+    emitResponse(200, API_URL, {}, { data: apiItem });
+    emitResponse(200, API_URL);
+    emitResponse(404, API_URL, {}, { error: 'not found' });
+    capture.stop();
+    emitResponse(200, API_URL, {}, { late: true });
+
+    expect(await capture.bodies()).toEqual([{ data: apiItem }]);
+  });
+});
+
+describe('parsePrice', () => {
+  it.each([
+    ['¥32,800', 32800],
+    ['¥32,800 (税込) 送料込み 2点', 32800],
+    ['32,800円', 32800],
+    ['価格未定', null],
+  ])('parsePrice(%j)', (text, price) => {
+    expect(parsePrice(text)).toBe(price);
+  });
+});
@@ -0,0 +1,298 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  detectChanges,
+  formatChangeEvent,
+  createNotifier,
+  loadWatchlist,
+  computeCycleDelay,
+  watch,
+  JsonlNotifier,
+  WebhookNotifier,
+  StdoutNotifier,
+  ChangeEvent,
+  ChangeNotifier,
+} from '../watcher.js';
+import { JsonProductStore } from '../product-store.js';
+import type { MercariProduct } from '../mercari-scraper.js';
+import type { ScrapeResult } from '../scraper.js';
+import type { BanSignals } from '../ban-detector.js';
+
+const URL_A = 'https://jp.mercari.com/item/m111';
+const URL_B = 'https://jp.mercari.com/item/m222';
+
+function product(overrides: Partial<MercariProduct> = {}): MercariProduct {
+  return {
+    url: URL_A,
+    title: 'テスト商品',
+    price: 1000,
+    isSoldOut: false,
+    statusText: '販売中',
+    description: '説明',
+    ...overrides,
+  };
+}
+
+const cleanSignals: BanSignals = {
+  captchaDetected: false,
+  httpError: null,
+  unexpectedRedirect: false,
+  contentMissing: false,
+  jsChallenge: false,
+  responseTimeMs: 10,
+  blockedUrl: null,
+};
+
+class CollectingNotifier implements ChangeNotifier {
+  readonly name = 'collect';
+  events: ChangeEvent[] = [];
+
+  async notify(event: ChangeEvent): Promise<void> {
+    this.events.push(event);
+  }
+}
+
+// Returns the queued products per URL in order, then repeats the last one
+function fakeScraper(responses: Record<string, Array<MercariProduct | 'captcha'>>) {
+  return {
+    initialize: vi.fn(async () => {}),
+    close: vi.fn(async () => {}),
+    scrape: vi.fn(async (url: string): Promise<ScrapeResult<MercariProduct>> => {
+      const queue = responses[url];
+      const next = queue.length > 1 ? queue.shift()! : queue[0];
+      if (next === 'captcha') {
+        return { success: false, banSignals: { ...cleanSignals, captchaDetected: true }, error: 'BAN detected: CAPTCHA' };
+      }
+      return { success: true, data: next, banSignals: cleanSignals };
+    }),
+  };
+}
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'watcher-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('detectChanges', () => {
+  it('returns nothing for identical products', () => {
+    expect(detectChanges(product(), product())).toEqual([]);
+  });
+
+  it('reports a price drop with its delta', () => {
+    const [event] = detectChanges(product(), product({ price: 800 }), new Date('2024-01-15T00:00:00Z'));
+    expect(event).toEqual({
+      type: 'price_changed',
+      itemId: 'm111',
+      url: URL_A,
+      title: 'テスト商品',
+      detectedAt: '2024-01-15T00:00:00.000Z',
+      previous: 1000,
+      current: 800,
+      priceDelta: -200,
+    });
+  });
+
+  it('reports sold-out and back-on-sale flips', () => {
+    expect(detectChanges(product(), product({ isSoldOut: true })).map((e) => e.type)).toEqual(['sold_out']);
+    expect(detectChanges(product({ isSoldOut: true }), product()).map((e) => e.type)).toEqual(['back_on_sale']);
+  });
+
+  it('reports title and description edits', () => {
+    const events = detectChanges(product(), product({ title: '新タイトル', description: '追記あり' }));
+    expect(events.map((e) => [e.type, e.previous, e.current])).toEqual([
+      ['title_changed', 'テスト商品', '新タイトル'],
+      ['description_changed', '説明', '追記あり'],
+    ]);
+  });
+});
+
+describe('formatChangeEvent', () => {
+  it('labels price drops', () => {
+    const [event] = detectChanges(product(), product({ price: 800 }));
+    expect(formatChangeEvent(event)).toBe('[値下げ] m111 テスト商品: ¥1,000 -> ¥800');
+  });
+});
+
+describe('notifiers', () => {
+  const [event] = detectChanges(product(), product({ isSoldOut: true }));
+
+  it('creates notifiers from specs', () => {
+    expect(createNotifier('stdout')).toBeInstanceOf(StdoutNotifier);
+    expect(createNotifier(`jsonl:${path.join(tmpDir, 'changes.jsonl')}`)).toBeInstanceOf(JsonlNotifier);
+    expect(createNotifier('webhook:http://127.0.0.1:9/hook')).toBeInstanceOf(WebhookNotifier);
+    expect(() => createNotifier('email:me@example.com')).toThrow('Unknown notifier');
+  });
+
+  it('appends events to a JSONL file', async () => {
+    const filePath = path.join(tmpDir, 'out', 'changes.jsonl');
+    const notifier = new JsonlNotifier(filePath);
+    await notifier.notify(event);
+    await notifier.notify(event);
+
+    const lines = fs.readFileSync(filePath, 'utf-8').trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0]).type).toBe('sold_out');
+  });
+
+  it('posts events to a webhook', async () => {
+    const received: unknown[] = [];
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push(JSON.parse(body));
+        res.writeHead(204);
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      await new WebhookNotifier(`http://127.0.0.1:${port}/hook`).notify(event);
+      expect(received).toEqual([JSON.parse(JSON.stringify(event))]);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
+
+describe('loadWatchlist', () => {
+  it('reads a text file with comments and duplicates', () => {
+    const filePath = path.join(tmpDir, 'watchlist.txt');
+    fs.writeFileSync(filePath, `# switch\n${URL_A}\n\n${URL_B}  # card\n${URL_A}\n`);
+    expect(loadWatchlist(filePath)).toEqual([URL_A, URL_B]);
+  });
+
+  it('reads a JSON array of URLs or objects', () => {
+    const filePath = path.join(tmpDir, 'watchlist.json');
+    fs.writeFileSync(filePath, JSON.stringify([URL_A, { url: URL_B, label: 'card' }]));
+    expect(loadWatchlist(filePath)).toEqual([URL_A, URL_B]);
+  });
+
+  it('rejects non-item URLs', () => {
+    const filePath = path.join(tmpDir, 'watchlist.txt');
+    fs.writeFileSync(filePath, 'https://jp.mercari.com/search?keyword=x\n');
+    expect(() => loadWatchlist(filePath)).toThrow('not an item URL');
+  });
+});
+
+describe('computeCycleDelay', () => {
+  it('spreads the cycle by the jitter ratio', () => {
+    expect(computeCycleDelay(60000, 0.2, 5000, () => 0)).toBe(48000);
+    expect(computeCycleDelay(60000, 0.2, 5000, () => 1)).toBe(72000);
+    expect(computeCycleDelay(60000, 0, 5000, () => 0.3)).toBe(60000);
+  });
+
+  it('never goes below the request interval', () => {
+    expect(computeCycleDelay(1000, 0.5, 5000, () => 0)).toBe(5000);
+  });
+});
+
+describe('watch', () => {
+  it('emits changes against the stored previous observation', async () => {
+    const store = new JsonProductStore(path.join(tmpDir, 'products.json'));
+    await store.save(product(), null, new Date(Date.now() - 60000));
+    const notifier = new CollectingNotifier();
+
+    const count = await watch({
+      urls: [URL_A],
+      intervalMs: 0,
+      cycleMs: 0,
+      jitter: 0,
+      notifiers: [notifier],
+      store,
+      maxCycles: 1,
+      scraper: fakeScraper({ [URL_A]: [product({ price: 900, isSoldOut: true })] }),
+    });
+
+    expect(count).toBe(2);
+    expect(notifier.events.map((e) => e.type)).toEqual(['price_changed', 'sold_out']);
+    expect((await store.getHistory('m111')).length).toBe(2);
+  });
+
+  it('keeps watching when the store fails', async () => {
+    const store = new JsonProductStore(path.join(tmpDir, 'products.json'));
+    vi.spyOn(store, 'save').mockRejectedValueOnce(new Error('SQLITE_FULL: database or disk is full'));
+    const getLatest = store.getLatest.bind(store);
+    vi.spyOn(store, 'getLatest').mockImplementation(async (itemId) => {
+      if (itemId === 'm111') throw new Error('SQLITE_BUSY: database is locked');
+      return getLatest(itemId);
+    });
+    const notifier = new CollectingNotifier();
+    const scraper = fakeScraper({
+      [URL_A]: [product(), product({ price: 700 })],
+      [URL_B]: [product({ url: URL_B })],
+    });
+
+    await watch({ urls: [URL_A, URL_B], intervalMs: 0, cycleMs: 0, jitter: 0, notifiers: [notifier], store, maxCycles: 2, scraper });
+
+    expect(scraper.scrape).toHaveBeenCalledTimes(4);
+    // Without the stored history the previous cycle's observation is compared
+    expect(notifier.events.map((e) => [e.itemId, e.type])).toEqual([['m111', 'price_changed']]);
+    expect(await store.listItemIds()).toEqual(['m111', 'm222']);
+  });
+
+  it('detects changes across cycles without a store', async () => {
+    const notifier = new CollectingNotifier();
+    const scraper = fakeScraper({
+      [URL_A]: [product(), product({ price: 700 })],
+      [URL_B]: [product({ url: URL_B })],
+    });
+
+    await watch({ urls: [URL_A, URL_B], intervalMs: 0, cycleMs: 0, jitter: 0, notifiers: [notifier], store: null, maxCycles: 2, scraper });
+
+    expect(notifier.events.map((e) => [e.itemId, e.type])).toEqual([['m111', 'price_changed']]);
+    expect(scraper.scrape).toHaveBeenCalledTimes(4);
+    expect(scraper.close).toHaveBeenCalledOnce();
+  });
+
+  it('skips the rest of the cycle on a ban', async () => {
+    const scraper = fakeScraper({ [URL_A]: ['captcha'], [URL_B]: [product({ url: URL_B })] });
+
+    await watch({ urls: [URL_A, URL_B], intervalMs: 0, cycleMs: 0, jitter: 0, notifiers: [], store: null, maxCycles: 1, scraper });
+
+    expect(scraper.scrape).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps going when a notifier fails', async () => {
+    const failing: ChangeNotifier = { name: 'failing', notify: vi.fn(async () => { throw new Error('down'); }) };
+    const notifier = new CollectingNotifier();
+    const scraper = fakeScraper({ [URL_A]: [product(), product({ price: 500 })] });
+
+    await watch({ urls: [URL_A], intervalMs: 0, cycleMs: 0, jitter: 0, notifiers: [failing, notifier], store: null, maxCycles: 2, scraper });
+
+    expect(failing.notify).toHaveBeenCalledOnce();
+    expect(notifier.events).toHaveLength(1);
+  });
+
+  it('stops when the signal aborts', async () => {
+    const controller = new AbortController();
+    const scraper = fakeScraper({ [URL_A]: [product()] });
+    const running = watch({
+      urls: [URL_A],
+      intervalMs: 0,
+      cycleMs: 60000,
+      jitter: 0,
+      notifiers: [],
+      store: null,
+      signal: controller.signal,
+      scraper,
+    });
+
+    await vi.waitFor(() => expect(scraper.scrape).toHaveBeenCalled());
+    controller.abort();
+    await running;
+
+    expect(scraper.close).toHaveBeenCalledOnce();
+  });
+});
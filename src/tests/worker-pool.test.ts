@@ -0,0 +1,234 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Browser } from 'playwright';
+import { WorkerPool, PoolJob, PoolResult, PoolScraper } from '../worker-pool.js';
+import { ScrapeResult } from '../scraper.js';
+import { BanSignals } from '../ban-detector.js';
+import { ScrapeErrorType, ConfigError } from '../errors.js';
+import { PoolConfig } from '../config.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const browser = {} as Browser;
+
+function signals(overrides: Partial<BanSignals> = {}): BanSignals {
+  return {
+    captchaDetected: false,
+    httpError: null,
+    unexpectedRedirect: false,
+    contentMissing: false,
+    jsChallenge: false,
+    responseTimeMs: 10,
+    blockedUrl: null,
+    ...overrides,
+  };
+}
+
+// Scrapers whose scrape() runs `behavior`; tracks how many run at once
+function createPool(
+  behavior: (url: string) => Promise<ScrapeResult<string>>,
+  pool: Partial<PoolConfig> = {},
+  signal?: AbortSignal,
+  onJobStart?: (job: PoolJob, index: number) => void
+) {
+  const stats = { active: 0, maxActive: 0, created: 0, closed: 0 };
+  const workerPool = new WorkerPool<string>({
+    config: {
+      logging: { enabled: false },
+      rateLimit: { minIntervalMs: 0 },
+      pool: { workers: 2, jobTimeoutMs: 0, ...pool },
+    },
+    browser,
+    signal,
+    onJobStart,
+    createScraper: (): PoolScraper<string> => {
+      stats.created++;
+      return {
+        initialize: vi.fn(async () => {}),
+        close: vi.fn(async () => {
+          stats.closed++;
+        }),
+        scrape: async (url: string) => {
+          stats.active++;
+          stats.maxActive = Math.max(stats.maxActive, stats.active);
+          try {
+            return await behavior(url);
+          } finally {
+            stats.active--;
+          }
+        },
+      };
+    },
+  });
+  return { pool: workerPool, stats };
+}
+
+const ok = async (url: string): Promise<ScrapeResult<string>> => {
+  await sleep(url.endsWith('slow') ? 40 : 5);
+  return { success: true, data: url, banSignals: signals() };
+};
+
+async function collect<T>(iterator: AsyncIterable<PoolResult<T>>): Promise<PoolResult<T>[]> {
+  const results: PoolResult<T>[] = [];
+  for await (const result of iterator) results.push(result);
+  return results;
+}
+
+describe('WorkerPool', () => {
+  it('runs jobs on the configured number of workers and yields them as they finish', async () => {
+    const { pool, stats } = createPool(ok);
+
+    const results = await collect(pool.run(['a-slow', 'b', 'c', 'd', 'e']));
+
+    expect(results.map((result) => result.url).sort()).toEqual(['a-slow', 'b', 'c', 'd', 'e']);
+    expect(results[results.length - 1].url).toBe('a-slow');
+    expect(results.map((result) => result.index).sort()).toEqual([0, 1, 2, 3, 4]);
+    expect(stats).toMatchObject({ maxActive: 2, created: 2, closed: 2 });
+  });
+
+  it('reports each job before a worker starts it', async () => {
+    const started: string[] = [];
+    const { pool } = createPool(ok, { workers: 1 }, undefined, (job, index) => {
+      started.push(`${index}:${job.url}`);
+    });
+
+    await collect(pool.run(['a', 'b']));
+
+    expect(started).toEqual(['0:a', '1:b']);
+  });
+
+  it('leaves the jobs to the other workers when a scraper fails to start', async () => {
+    let created = 0;
+    const pool = new WorkerPool<string>({
+      config: { logging: { enabled: false }, rateLimit: { minIntervalMs: 0 }, pool: { workers: 2, jobTimeoutMs: 0 } },
+      browser,
+      createScraper: () => {
+        const failing = created++ === 0;
+        return {
+          initialize: async () => {
+            if (failing) throw new Error('Target page, context or browser has been closed');
+          },
+          close: async () => {},
+          scrape: async (url: string) => ({ success: true, data: url, banSignals: signals() }),
+        };
+      },
+    });
+
+    const results = await collect(pool.run(['a', 'b', 'c']));
+
+    expect(results.map((result) => [result.url, result.worker])).toEqual([
+      ['a', 1],
+      ['b', 1],
+      ['c', 1],
+    ]);
+    expect(pool.stopped).toBeNull();
+  });
+
+  it('hands a job back when the worker fails before starting it', async () => {
+    let calls = 0;
+    const { pool } = createPool(ok, { workers: 2 }, undefined, () => {
+      if (calls++ === 0) throw new Error('Checkpoint could not be written');
+    });
+
+    const results = await collect(pool.run(['a', 'b', 'c']));
+
+    expect(results.map((result) => result.url).sort()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('stops when every worker failed with jobs left', async () => {
+    const { pool } = createPool(ok, { workers: 1 }, undefined, () => {
+      throw new Error('Checkpoint could not be written');
+    });
+
+    expect(await collect(pool.run(['a', 'b']))).toEqual([]);
+    expect(pool.stopped).toBe('Every worker failed with 2 jobs left');
+  });
+
+  it('rejects more workers than the global cap', () => {
+    expect(() => createPool(ok, { workers: 8, maxWorkers: 4 })).toThrow(ConfigError);
+  });
+
+  it('times out a job and replaces its scraper', async () => {
+    const { pool, stats } = createPool(
+      async (url) => (url === 'hang' ? new Promise<ScrapeResult<string>>(() => {}) : ok(url)),
+      { workers: 1, jobTimeoutMs: 50 }
+    );
+
+    const results = await collect(pool.run(['hang', { url: 'b', timeoutMs: 0 }]));
+
+    expect(results.map((result) => [result.url, result.result.errorType])).toEqual([
+      ['hang', ScrapeErrorType.Timeout],
+      ['b', undefined],
+    ]);
+    expect(results[0].result.error).toBe('Job timed out after 50ms');
+    expect(stats).toMatchObject({ created: 2, closed: 2 });
+  });
+
+  it('cancels running jobs and skips the rest', async () => {
+    const controller = new AbortController();
+    const { pool, stats } = createPool(
+      async (url) => {
+        if (url === 'b') controller.abort();
+        await sleep(20);
+        return { success: true, data: url, banSignals: signals() };
+      },
+      {},
+      controller.signal
+    );
+
+    const results = await collect(pool.run(['a', 'b', 'c', 'd']));
+
+    expect(results.map((result) => [result.url, result.result.errorType])).toEqual([
+      ['a', ScrapeErrorType.Cancelled],
+      ['b', ScrapeErrorType.Cancelled],
+    ]);
+    // Interrupted scrapers are closed rather than replaced
+    expect(stats).toMatchObject({ created: 2, closed: 2 });
+  });
+
+  it('stops taking jobs after a CAPTCHA', async () => {
+    const { pool } = createPool(
+      async (url) =>
+        url === 'b'
+          ? { success: false, banSignals: signals({ captchaDetected: true }), error: 'BAN detected: CAPTCHA' }
+          : ok(url),
+      { workers: 1 }
+    );
+
+    const results = await collect(pool.run(['a', 'b', 'c']));
+
+    expect(results.map((result) => result.url)).toEqual(['a', 'b']);
+    expect(pool.stopped).toBe('BAN detected: CAPTCHA');
+  });
+
+  it('never stops on blocks when stopAfterConsecutiveBlocks is 0', async () => {
+    const pool = new WorkerPool<string>({
+      config: {
+        logging: { enabled: false },
+        rateLimit: { minIntervalMs: 0, stopAfterConsecutiveBlocks: 0 },
+        pool: { workers: 1, jobTimeoutMs: 0 },
+      },
+      browser,
+      createScraper: () => ({
+        initialize: async () => {},
+        close: async () => {},
+        scrape: async () => ({ success: false, banSignals: signals({ httpError: 403 }), error: 'BAN detected: HTTP 403' }),
+      }),
+    });
+
+    const results = await collect(pool.run(['a', 'b', 'c']));
+
+    expect(results.map((result) => result.url)).toEqual(['a', 'b', 'c']);
+    expect(pool.stopped).toBeNull();
+  });
+
+  it('cancels the remaining jobs when the consumer stops reading', async () => {
+    const { pool, stats } = createPool(ok);
+
+    for await (const result of pool.run(['a', 'b', 'c', 'd'])) {
+      expect(result.result.success).toBe(true);
+      break;
+    }
+
+    expect(pool.stopped).toBe('Consumer stopped');
+    expect(stats.closed).toBe(stats.created);
+  });
+});
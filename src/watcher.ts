@@ -0,0 +1,290 @@
+import fs from 'fs';
+import path from 'path';
+import { MercariScraper, MercariProduct, extractItemId } from './mercari-scraper.js';
+import { ScraperConfigOverrides, mergeOverrides } from './config.js';
+import { ProductStore, StoreRun } from './product-store.js';
+import { isBanned, getBanReason } from './ban-detector.js';
+import { logInfo, logWarn, logError } from './logger.js';
+
+export type ChangeEventType =
+  | 'price_changed'
+  | 'sold_out'
+  | 'back_on_sale'
+  | 'title_changed'
+  | 'description_changed';
+
+export interface ChangeEvent {
+  type: ChangeEventType;
+  itemId: string;
+  url: string;
+  title: string | null;
+  detectedAt: string;
+  previous: string | number | boolean | null;
+  current: string | number | boolean | null;
+  // current - previous, only for price_changed
+  priceDelta?: number;
+}
+
+export interface ChangeNotifier {
+  readonly name: string;
+  notify(event: ChangeEvent): Promise<void>;
+  close?(): Promise<void>;
+}
+
+export interface WatchOptions {
+  urls: string[];
+  // Minimum gap between two requests, same meaning as --interval
+  intervalMs: number;
+  // Time between the start of two watch cycles
+  cycleMs: number;
+  // Random spread applied to cycleMs, 0.2 = ±20%
+  jitter: number;
+  notifiers: ChangeNotifier[];
+  store: ProductStore | null;
+  maxCycles?: number;
+  signal?: AbortSignal;
+  // Settings for the scraper the watch creates when none is given
+  config?: ScraperConfigOverrides;
+  scraper?: Pick<MercariScraper, 'initialize' | 'scrape' | 'close'>;
+}
+
+export function detectChanges(previous: MercariProduct, current: MercariProduct, detectedAt: Date = new Date()): ChangeEvent[] {
+  const base = {
+    itemId: extractItemId(current.url) ?? current.url,
+    url: current.url,
+    title: current.title,
+    detectedAt: detectedAt.toISOString(),
+  };
+  const events: ChangeEvent[] = [];
+
+  if (previous.price !== current.price) {
+    events.push({
+      ...base,
+      type: 'price_changed',
+      previous: previous.price,
+      current: current.price,
+      priceDelta: previous.price !== null && current.price !== null ? current.price - previous.price : undefined,
+    });
+  }
+
+  if (previous.isSoldOut !== current.isSoldOut) {
+    events.push({
+      ...base,
+      type: current.isSoldOut ? 'sold_out' : 'back_on_sale',
+      previous: previous.isSoldOut,
+      current: current.isSoldOut,
+    });
+  }
+
+  if (previous.title !== current.title) {
+    events.push({ ...base, type: 'title_changed', previous: previous.title, current: current.title });
+  }
+
+  if ((previous.description ?? null) !== (current.description ?? null)) {
+    events.push({
+      ...base,
+      type: 'description_changed',
+      previous: previous.description ?? null,
+      current: current.description ?? null,
+    });
+  }
+
+  return events;
+}
+
+export function formatChangeEvent(event: ChangeEvent): string {
+  const label = `${event.itemId} ${event.title ?? ''}`.trim();
+  switch (event.type) {
+    case 'price_changed': {
+      const direction = event.priceDelta !== undefined ? (event.priceDelta < 0 ? '値下げ' : '値上げ') : '価格変更';
+      return `[${direction}] ${label}: ¥${event.previous?.toLocaleString()} -> ¥${event.current?.toLocaleString()}`;
+    }
+    case 'sold_out':
+      return `[売り切れ] ${label}`;
+    case 'back_on_sale':
+      return `[再出品] ${label}`;
+    case 'title_changed':
+      return `[タイトル変更] ${label}: "${event.previous}" -> "${event.current}"`;
+    case 'description_changed':
+      return `[説明文変更] ${label}`;
+  }
+}
+
+export class StdoutNotifier implements ChangeNotifier {
+  readonly name = 'stdout';
+
+  async notify(event: ChangeEvent): Promise<void> {
+    console.log(formatChangeEvent(event));
+  }
+}
+
+export class JsonlNotifier implements ChangeNotifier {
+  readonly name: string;
+
+  constructor(private readonly filePath: string) {
+    this.name = `jsonl:${filePath}`;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  async notify(event: ChangeEvent): Promise<void> {
+    await fs.promises.appendFile(this.filePath, JSON.stringify(event) + '\n');
+  }
+}
+
+export class WebhookNotifier implements ChangeNotifier {
+  readonly name: string;
+
+  constructor(private readonly url: string, private readonly timeoutMs: number = 10000) {
+    this.name = `webhook:${url}`;
+  }
+
+  async notify(event: ChangeEvent): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(event),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded with HTTP ${response.status}`);
+    }
+  }
+}
+
+// Notifier specs: "stdout", "jsonl:<path>", "webhook:<url>"
+export function createNotifier(spec: string): ChangeNotifier {
+  if (spec === 'stdout') return new StdoutNotifier();
+  if (spec.startsWith('jsonl:')) return new JsonlNotifier(spec.slice('jsonl:'.length));
+  if (spec.startsWith('webhook:')) return new WebhookNotifier(spec.slice('webhook:'.length));
+  throw new Error(`Unknown notifier "${spec}" (expected stdout, jsonl:<path> or webhook:<url>)`);
+}
+
+// Watchlists are either a JSON array of URLs or a text file with one URL per line (# comments allowed)
+export function loadWatchlist(filePath: string): string[] {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const urls = filePath.endsWith('.json')
+    ? (JSON.parse(content) as Array<string | { url: string }>).map((entry) => (typeof entry === 'string' ? entry : entry.url))
+    : content.split('\n').map((line) => line.replace(/#.*$/, '').trim()).filter(Boolean);
+
+  for (const url of urls) {
+    if (!extractItemId(url)) {
+      throw new Error(`Watchlist entry is not an item URL: ${url}`);
+    }
+  }
+  return [...new Set(urls)];
+}
+
+// Jittered cycle delay that never drops below the request interval
+export function computeCycleDelay(cycleMs: number, jitter: number, intervalMs: number, random: () => number = Math.random): number {
+  const spread = cycleMs * jitter * (random() * 2 - 1);
+  return Math.max(intervalMs, Math.round(cycleMs + spread));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+async function dispatch(notifiers: ChangeNotifier[], event: ChangeEvent): Promise<void> {
+  for (const notifier of notifiers) {
+    try {
+      await notifier.notify(event);
+    } catch (error) {
+      // A failing webhook must not stop the watch loop
+      logError('Notifier failed', error as Error, { notifier: notifier.name, itemId: event.itemId });
+    }
+  }
+}
+
+// Resolves with the number of change events emitted once the signal aborts or maxCycles is reached
+export async function watch(options: WatchOptions): Promise<number> {
+  // The scraper's rate limiter keeps requests at least intervalMs apart
+  const scraper =
+    options.scraper ?? new MercariScraper(mergeOverrides(options.config, { rateLimit: { minIntervalMs: options.intervalMs } }));
+  // Used when no store is configured, so changes are still detected within one process
+  const lastSeen = new Map<string, MercariProduct>();
+  let emitted = 0;
+  let cycle = 0;
+
+  await scraper.initialize();
+  logInfo('Watch started', {
+    items: options.urls.length,
+    intervalMs: options.intervalMs,
+    cycleMs: options.cycleMs,
+    notifiers: options.notifiers.map((notifier) => notifier.name),
+  });
+
+  try {
+    while (!options.signal?.aborted) {
+      cycle++;
+      let run: StoreRun | null = null;
+      try {
+        run = options.store ? await options.store.startRun('watch') : null;
+      } catch (error) {
+        logError('Failed to start a store run', error as Error, { cycle });
+      }
+      logInfo('Watch cycle started', { cycle, runId: run?.runId });
+
+      for (let i = 0; i < options.urls.length && !options.signal?.aborted; i++) {
+        const url = options.urls[i];
+
+        const result = await scraper.scrape(url);
+        if (!result.success || !result.data) {
+          if (isBanned(result.banSignals)) {
+            logWarn('BAN detected, skipping rest of watch cycle', { url, reason: getBanReason(result.banSignals) });
+            break;
+          }
+          logWarn('Watch scrape failed', { url, error: result.error });
+          continue;
+        }
+
+        const itemId = extractItemId(url) ?? url;
+        let previous = lastSeen.get(itemId) ?? null;
+        if (options.store) {
+          // A store error costs this item its history, not the watch
+          try {
+            previous = (await options.store.getLatest(itemId))?.product ?? null;
+          } catch (error) {
+            logError('Failed to read stored product', error as Error, { url });
+          }
+        }
+        lastSeen.set(itemId, result.data);
+        if (options.store) {
+          try {
+            await options.store.save(result.data, run?.runId ?? null);
+          } catch (error) {
+            logError('Failed to store product', error as Error, { url });
+          }
+        }
+
+        if (!previous) continue;
+        for (const event of detectChanges(previous, result.data)) {
+          emitted++;
+          await dispatch(options.notifiers, event);
+        }
+      }
+
+      if (options.maxCycles !== undefined && cycle >= options.maxCycles) break;
+
+      const delay = computeCycleDelay(options.cycleMs, options.jitter, options.intervalMs);
+      logInfo('Watch cycle complete', { cycle, nextCycleInMs: delay });
+      await sleep(delay, options.signal);
+    }
+  } finally {
+    await scraper.close();
+    for (const notifier of options.notifiers) {
+      await notifier.close?.();
+    }
+  }
+
+  logInfo('Watch stopped', { cycles: cycle, events: emitted });
+  return emitted;
+}
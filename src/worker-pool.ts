@@ -0,0 +1,239 @@
+import type { Browser } from 'playwright';
+import { config as defaultConfig, mergeConfig, validateConfig, ScraperConfig, ScraperConfigOverrides } from './config.js';
+import { BaseScraper, ScrapeResult } from './scraper.js';
+import { BrowserManager } from './browser-manager.js';
+import { RateLimiter } from './rate-limiter.js';
+import { BanSignals, getBanReason } from './ban-detector.js';
+import { ScrapeErrorType } from './errors.js';
+import { logInfo, logWarn, logError } from './logger.js';
+
+export interface PoolJob {
+  url: string;
+  // Overrides pool.jobTimeoutMs for this job; 0 = none
+  timeoutMs?: number;
+}
+
+export interface PoolResult<T> {
+  url: string;
+  // Position of the job in the list passed to run()
+  index: number;
+  worker: number;
+  result: ScrapeResult<T>;
+  durationMs: number;
+}
+
+// What the pool needs of a scraper, e.g. a MercariScraper
+export type PoolScraper<T> = Pick<BaseScraper<T>, 'initialize' | 'close' | 'scrape'>;
+
+export interface WorkerPoolOptions<T> {
+  // Builds one worker's scraper. The limiter is shared by every worker, so the configured
+  // interval and budgets hold for the pool as a whole
+  createScraper: (settings: ScraperConfigOverrides, rateLimiter: RateLimiter) => PoolScraper<T>;
+  // Deep-merged over the process defaults; pool.workers sets the parallelism
+  config?: ScraperConfigOverrides;
+  // Aborting it cancels the pool like cancel()
+  signal?: AbortSignal;
+  // Defaults to a limiter built from the merged rateLimit settings
+  rateLimiter?: RateLimiter;
+  // A browser or manager owned by the caller; by default the pool starts a manager per run(),
+  // which launches one browser, relaunches it if it crashes and closes it at the end
+  browser?: Browser | BrowserManager;
+  // Called before a worker starts a job, e.g. to checkpoint it as in progress
+  onJobStart?: (job: PoolJob, index: number) => void | Promise<void>;
+}
+
+function failedResult<T>(error: string, errorType: ScrapeErrorType): ScrapeResult<T> {
+  const banSignals: BanSignals = {
+    captchaDetected: false,
+    httpError: null,
+    unexpectedRedirect: false,
+    contentMissing: true,
+    jsChallenge: false,
+    responseTimeMs: 0,
+    blockedUrl: null,
+  };
+  return { success: false, banSignals, error, errorType };
+}
+
+// Runs scrape jobs on pool.workers scrapers at once, each with its own context and page in a
+// shared browser. All workers draw from one RateLimiter, so more workers overlap page loads
+// and extraction but never send requests faster than the configured interval allows.
+// Like batchScrape, the pool stops taking jobs after a CAPTCHA or JS challenge and after
+// rateLimit.stopAfterConsecutiveBlocks blocks in a row (0 = never); jobs not started are not reported.
+// A worker whose scraper fails to start leaves its jobs to the others
+export class WorkerPool<T> {
+  readonly rateLimiter: RateLimiter;
+  private readonly settings: ScraperConfig;
+  private readonly abort = new AbortController();
+  private stopReason: string | null = null;
+
+  constructor(private readonly options: WorkerPoolOptions<T>) {
+    this.settings = validateConfig(mergeConfig(defaultConfig, options.config));
+    this.rateLimiter = options.rateLimiter ?? new RateLimiter(this.settings.rateLimit);
+    options.signal?.addEventListener('abort', () => this.cancel('Aborted'), { once: true });
+    if (options.signal?.aborted) this.cancel('Aborted');
+  }
+
+  getConfig(): Readonly<ScraperConfig> {
+    return this.settings;
+  }
+
+  // validateConfig keeps it within pool.maxWorkers
+  get workers(): number {
+    return this.settings.pool.workers;
+  }
+
+  get stopped(): string | null {
+    return this.stopReason;
+  }
+
+  // Stops taking jobs and ends the running ones with a Cancelled result
+  cancel(reason: string = 'Cancelled'): void {
+    if (this.abort.signal.aborted) return;
+    this.stop(reason);
+    this.abort.abort();
+  }
+
+  // Stops taking jobs; running ones finish
+  private stop(reason: string): void {
+    if (this.stopReason !== null) return;
+    this.stopReason = reason;
+    logInfo('Worker pool stopping', { reason });
+  }
+
+  // Results are yielded as jobs finish, not in input order. Breaking out of the loop cancels the rest
+  async *run(jobs: Array<string | PoolJob>): AsyncGenerator<PoolResult<T>> {
+    const queue = jobs.map((job, index) => ({ ...(typeof job === 'string' ? { url: job } : job), index }));
+    if (queue.length === 0 || this.stopReason !== null) return;
+
+    const ready: PoolResult<T>[] = [];
+    let wake: (() => void) | null = null;
+    const notify = () => {
+      wake?.();
+      wake = null;
+    };
+
+    const shared = this.options.browser;
+    const browsers = shared instanceof BrowserManager ? shared : new BrowserManager(this.settings, { browser: shared });
+    const count = Math.min(this.workers, queue.length);
+    logInfo('Worker pool starting', { workers: count, jobs: queue.length });
+
+    let running = count;
+    const workers = Array.from({ length: count }, (_, worker) =>
+      this.work(worker, queue, browsers, (result) => {
+        ready.push(result);
+        notify();
+      }).finally(() => {
+        running--;
+        notify();
+      })
+    );
+
+    try {
+      while (running > 0 || ready.length > 0) {
+        if (ready.length === 0) {
+          await new Promise<void>((resolve) => (wake = resolve));
+          continue;
+        }
+        yield ready.shift()!;
+      }
+      if (queue.length > 0) {
+        this.stop(`Every worker failed with ${queue.length} jobs left`);
+      }
+    } finally {
+      if (running > 0) this.cancel('Consumer stopped');
+      await Promise.allSettled(workers);
+      if (browsers !== shared) {
+        await browsers.close();
+      }
+    }
+  }
+
+  private async startScraper(browsers: BrowserManager): Promise<PoolScraper<T>> {
+    const scraper = this.options.createScraper(this.options.config ?? {}, this.rateLimiter);
+    await scraper.initialize(browsers);
+    return scraper;
+  }
+
+  private async work(
+    worker: number,
+    queue: Array<PoolJob & { index: number }>,
+    browsers: BrowserManager,
+    emit: (result: PoolResult<T>) => void
+  ): Promise<void> {
+    let scraper: PoolScraper<T> | null = null;
+    // The job taken but not yet reported, handed back if the worker fails
+    let job: (PoolJob & { index: number }) | undefined;
+    try {
+      scraper = await this.startScraper(browsers);
+      while (this.stopReason === null) {
+        job = queue.shift();
+        if (!job) break;
+
+        await this.options.onJobStart?.(job, job.index);
+        const startTime = Date.now();
+        const { result, interrupted } = await this.runJob(scraper, job);
+        emit({ url: job.url, index: job.index, worker, result, durationMs: Date.now() - startTime });
+        job = undefined;
+        this.checkStop(result);
+
+        if (interrupted) {
+          // The abandoned navigation may still be running; start over with a fresh context
+          await scraper.close().catch(() => undefined);
+          scraper = null;
+          if (this.stopReason !== null) break;
+          scraper = await this.startScraper(browsers);
+        }
+      }
+    } catch (error) {
+      // The other workers carry on with the queue
+      logError('Worker failed', error as Error, { worker, url: job?.url });
+      if (job) queue.unshift(job);
+    } finally {
+      await scraper?.close().catch(() => undefined);
+    }
+  }
+
+  private async runJob(
+    scraper: PoolScraper<T>,
+    job: PoolJob
+  ): Promise<{ result: ScrapeResult<T>; interrupted: boolean }> {
+    const timeoutMs = job.timeoutMs ?? this.settings.pool.jobTimeoutMs;
+    let timer: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
+
+    const interruption = new Promise<ScrapeResult<T>>((resolve) => {
+      if (timeoutMs > 0) {
+        timer = setTimeout(() => resolve(failedResult(`Job timed out after ${timeoutMs}ms`, ScrapeErrorType.Timeout)), timeoutMs);
+      }
+      onAbort = () => resolve(failedResult(`Job cancelled: ${this.stopReason}`, ScrapeErrorType.Cancelled));
+      this.abort.signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+    const scraping = scraper.scrape(job.url).catch((error: Error) => failedResult<T>(error.message, ScrapeErrorType.Unknown));
+    try {
+      const { result, interrupted } = await Promise.race([
+        scraping.then((result) => ({ result, interrupted: false })),
+        interruption.then((result) => ({ result, interrupted: true })),
+      ]);
+      if (interrupted) {
+        logWarn('Job interrupted', { url: job.url, error: result.error });
+      }
+      return { result, interrupted };
+    } finally {
+      clearTimeout(timer);
+      this.abort.signal.removeEventListener('abort', onAbort!);
+    }
+  }
+
+  private checkStop(result: ScrapeResult<T>): void {
+    if (result.success) return;
+    const limit = this.settings.rateLimit.stopAfterConsecutiveBlocks;
+    // Waiting does not get past a CAPTCHA or JS challenge
+    if (result.banSignals.captchaDetected || result.banSignals.jsChallenge) {
+      this.stop(`BAN detected: ${getBanReason(result.banSignals)}`);
+    } else if (limit > 0 && this.rateLimiter.blockStreak >= limit) {
+      this.stop(`Blocked ${this.rateLimiter.blockStreak} times in a row despite backing off`);
+    }
+  }
+}